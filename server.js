@@ -1,21 +1,71 @@
+// Loaded before any other module, so modules that read the environment on import (server/auth.js) see .env
+import 'dotenv/config';
 import express from 'express';
 import cors from 'cors';
 import multer from 'multer';
-import sharp from 'sharp';
-import path from 'path';
-import { fileURLToPath } from 'url';
-import dotenv from 'dotenv';
 import { MongoClient, ObjectId } from 'mongodb';
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-
-dotenv.config();
+import { EventEmitter } from 'events';
+import { fileURLToPath } from 'url';
+import {
+  hashPassword,
+  verifyPassword,
+  signToken,
+  verifyToken,
+  signPreviewToken,
+  verifyPreviewToken,
+  toPublicUser,
+} from './server/auth.js';
+import { parseSearchQuery, buildSearchFilter, buildSnippet, usesTextIndex, escapeRegex } from './server/search.js';
+import { buildRssFeed, buildAtomFeed, buildJsonFeed, absolutizeUrls, absoluteUrl } from './server/feeds.js';
+import { buildUrlset, buildSitemapIndex, buildRobotsTxt } from './server/sitemap.js';
+import { processImage, removeImageFiles, getImageReference } from './server/images.js';
+import { createStorageFromEnv } from './server/storage.js';
+import { structuredErrors, sendValidationError } from './server/errors.js';
+import { renderMarkdown } from './src/lib/markdown.js';
+import {
+  validate,
+  POST_SCHEMA,
+  IMAGE_SCHEMA,
+  IMAGE_ORDER_SCHEMA,
+  DRAFT_SCHEMA,
+  POST_QUERY_SCHEMA,
+  ADMIN_POST_QUERY_SCHEMA,
+  IMAGE_QUERY_SCHEMA,
+  AUTHOR_POSTS_QUERY_SCHEMA,
+  PREVIEW_TOKEN_SCHEMA,
+  LOGIN_SCHEMA,
+  USER_SCHEMA,
+  AUTHOR_SCHEMA,
+  CATEGORY_SCHEMA,
+  SERIES_SCHEMA,
+  TAG_RENAME_SCHEMA,
+  TAG_MERGE_SCHEMA,
+  COMMENT_SCHEMA,
+  COMMENT_QUERY_SCHEMA,
+  COMMENT_MODERATION_SCHEMA,
+  COMMENT_BULK_SCHEMA,
+} from './src/lib/schemas.js';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
 const MONGODB_URI = process.env.MONGODB_URI || 'mongodb://localhost:27017';
 const DB_NAME = process.env.DB_NAME || 'blog-platform';
+const SITE_TITLE = process.env.SITE_TITLE || 'Modern Blog Platform';
+const SITE_DESCRIPTION = process.env.SITE_DESCRIPTION || 'Discover amazing stories and insights';
+const FEED_SIZE = parseInt(process.env.FEED_SIZE) || 20;
+const SITEMAP_CHUNK_SIZE = parseInt(process.env.SITEMAP_CHUNK_SIZE) || 5000;
+const ROBOTS_DISALLOW = (process.env.ROBOTS_DISALLOW ?? '/api/').split(',').map(p => p.trim()).filter(Boolean);
+const ROBOTS_BLOCK_ALL = process.env.ROBOTS_BLOCK_ALL === 'true';
+const SCHEDULER_INTERVAL_MS = parseInt(process.env.SCHEDULER_INTERVAL_MS) || 60 * 1000;
+
+// Post lifecycle events - listeners hook publish side effects in here
+const postEvents = new EventEmitter();
+
+// Generated sitemaps, dropped whenever a post changes so they never go stale
+const sitemapCache = new Map();
+['published', 'updated', 'deleted'].forEach(event => {
+  postEvents.on(event, () => sitemapCache.clear());
+});
 
 let mongoClient;
 let db;
@@ -29,13 +79,52 @@ async function connectToDatabase() {
   // Ensure indexes
   await db.collection('posts').createIndexes([
     { key: { slug: 1 }, unique: true },
+    { key: { previous_slugs: 1 } },
     { key: { published_at: -1 } },
+    { key: { scheduled_at: 1 }, sparse: true },
+    { key: { author_id: 1, published_at: -1 } },
+    { key: { category_id: 1, published_at: -1 } },
     { key: { title: 'text', content: 'text', excerpt: 'text' } },
   ]);
   await db.collection('images').createIndexes([
     { key: { post_id: 1 } },
     { key: { position: 1 } },
+    { key: { created_at: -1 } },
+    { key: { image_url: 1 } },
+  ]);
+  await db.collection('post_revisions').createIndexes([
+    { key: { post_id: 1, created_at: -1 } },
+  ]);
+  await db.collection('post_drafts').createIndexes([
+    { key: { user_id: 1, post_id: 1 }, unique: true },
+    { key: { post_id: 1 } },
+  ]);
+  await db.collection('preview_tokens').createIndexes([
+    { key: { post_id: 1, created_at: -1 } },
+    // Expired tokens are removed by MongoDB itself
+    { key: { expires_at: 1 }, expireAfterSeconds: 0 },
+  ]);
+  await db.collection('comments').createIndexes([
+    { key: { post_id: 1, status: 1, created_at: 1 } },
+    { key: { status: 1, created_at: -1 } },
+  ]);
+  await db.collection('authors').createIndexes([
+    { key: { slug: 1 }, unique: true },
+    { key: { user_id: 1 }, sparse: true },
+  ]);
+  await db.collection('categories').createIndexes([
+    { key: { slug: 1 }, unique: true },
+    { key: { parent_id: 1 } },
   ]);
+  await db.collection('series').createIndexes([
+    { key: { slug: 1 }, unique: true },
+    { key: { post_ids: 1 } },
+  ]);
+  await db.collection('users').createIndexes([
+    { key: { email: 1 }, unique: true },
+  ]);
+
+  await seedAdminUser(db);
 
   return db;
 }
@@ -45,26 +134,124 @@ async function getCollection(name) {
   return database.collection(name);
 }
 
+// Create the initial admin account from the environment when no users exist yet
+async function seedAdminUser(database) {
+  const usersCollection = database.collection('users');
+  if (await usersCollection.countDocuments({}, { limit: 1 })) return;
+
+  const email = process.env.ADMIN_EMAIL;
+  const password = process.env.ADMIN_PASSWORD;
+  if (!email || !password) {
+    console.warn('No users found. Set ADMIN_EMAIL and ADMIN_PASSWORD to create the first admin account.');
+    return;
+  }
+  const { errors } = validate(USER_SCHEMA, { email, password });
+  if (errors) {
+    console.warn(`No users found, and the admin account from the environment is not valid: ${Object.values(errors).join('; ')}`);
+    return;
+  }
+
+  const now = new Date();
+  await usersCollection.insertOne({
+    email: email.toLowerCase(),
+    name: process.env.ADMIN_NAME || 'Administrator',
+    role: 'admin',
+    password_hash: await hashPassword(password),
+    created_at: now,
+    updated_at: now,
+  });
+  console.log(`Created initial admin user ${email}`);
+}
+
 // Middleware
 app.use(cors());
+app.use(structuredErrors);
 app.use(express.json({ limit: '50mb' }));
 app.use(express.urlencoded({ extended: true, limit: '50mb' }));
 
-// Serve static files (uploaded images)
-app.use('/uploads', express.static(path.join(__dirname, 'uploads')));
+// Upload storage (STORAGE_DRIVER=local or s3); local uploads are served from disk
+const uploadStorage = createStorageFromEnv();
+if (uploadStorage.staticRoot) {
+  app.use('/uploads', express.static(uploadStorage.staticRoot));
+}
+
+// Utility function to resolve the bearer token to a user document; null when it is missing, invalid or expired
+async function authenticate(req) {
+  const header = req.get('Authorization') || '';
+  const token = header.startsWith('Bearer ') ? header.slice(7) : null;
+  const payload = token ? verifyToken(token) : null;
+  if (!payload || !ObjectId.isValid(payload.sub)) return null;
+
+  const usersCollection = await getCollection('users');
+  return usersCollection.findOne({ _id: new ObjectId(payload.sub) });
+}
+
+// Authentication middleware - resolves the bearer token to a user document
+async function requireAuth(req, res, next) {
+  try {
+    const user = await authenticate(req);
+    if (!user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    req.user = user;
+    next();
+  } catch (error) {
+    console.error('Error authenticating request:', error);
+    res.status(500).json({ error: 'Failed to authenticate request' });
+  }
+}
+
+// Like requireAuth, but lets anonymous requests through with req.user unset. An expired or invalid token
+// is ignored rather than rejected, so readers with a stale session still get public content.
+async function optionalAuth(req, res, next) {
+  try {
+    const user = await authenticate(req);
+    if (user) req.user = user;
+    next();
+  } catch (error) {
+    console.error('Error authenticating request:', error);
+    res.status(500).json({ error: 'Failed to authenticate request' });
+  }
+}
+
+// Role middleware - must run after requireAuth
+function requireRole(...roles) {
+  return (req, res, next) => {
+    if (!req.user || !roles.includes(req.user.role)) {
+      return res.status(403).json({ error: 'Insufficient permissions' });
+    }
+    next();
+  };
+}
+
+// Authors may only modify their own posts; admins and editors may modify any post
+function canModifyPost(user, post) {
+  if (user.role === 'admin' || user.role === 'editor') return true;
+  return Boolean(post.created_by) && post.created_by.equals(user._id);
+}
+
+// Authors may only edit, and publish under, the author profile linked to their account
+function canModifyAuthor(user, author) {
+  if (user.role !== 'author') return true;
+  return Boolean(author.user_id) && author.user_id.equals(user._id);
+}
 
 // Configure multer for image uploads
+const MAX_UPLOAD_MB = 10;
 const storage = multer.memoryStorage();
 const upload = multer({
   storage,
   limits: {
-    fileSize: 10 * 1024 * 1024, // 10MB limit
+    fileSize: MAX_UPLOAD_MB * 1024 * 1024,
   },
   fileFilter: (req, file, cb) => {
     if (file.mimetype.startsWith('image/')) {
       cb(null, true);
     } else {
-      cb(new Error('Only image files are allowed'), false);
+      // Typed like body-parser's errors so the error handler can answer with a 400
+      const error = new Error('Only image files are allowed');
+      cb(Object.assign(error, { type: 'upload.unsupported_type', field: file.fieldname }), false);
     }
   },
 });
@@ -76,101 +263,616 @@ function generateSlug(title) {
     .replace(/[^a-z0-9\s-]/g, '')
     .replace(/\s+/g, '-')
     .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '')
     .trim();
 }
 
-// Utility function to process and save image
-async function processAndSaveImage(buffer, filename) {
-  const uploadsDir = path.join(__dirname, 'uploads');
-  
-  // Create uploads directory if it doesn't exist
-  const fs = await import('fs');
-  if (!fs.existsSync(uploadsDir)) {
-    fs.mkdirSync(uploadsDir, { recursive: true });
+// Utility function to normalize a tag: trimmed, single-spaced and lower case
+function normalizeTag(tag) {
+  return String(tag).trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+// Utility function to normalize a list of tags, dropping blanks and duplicates
+function normalizeTags(tags) {
+  if (!Array.isArray(tags)) return [];
+  return [...new Set(tags.map(normalizeTag).filter(Boolean))];
+}
+
+// Utility function to replace one or more tags with a target tag on every post that uses them.
+// Posts keep their tag order and never end up with the target twice.
+async function replaceTags(sources, target, user) {
+  const postsCollection = await getCollection('posts');
+  const posts = await postsCollection
+    .find({ tags: { $in: sources } }, { projection: { tags: 1 } })
+    .toArray();
+  if (posts.length === 0) return 0;
+
+  const now = new Date();
+  await postsCollection.bulkWrite(posts.map(post => ({
+    updateOne: {
+      filter: { _id: post._id },
+      update: {
+        $set: { tags: [...new Set(post.tags.map(tag => (sources.includes(tag) ? target : tag)))], updated_at: now },
+      },
+    },
+  })));
+  await recordBulkPostUpdate(posts.map(post => post._id), user);
+  return posts.length;
+}
+
+// Utility function to finish a change written to many posts at once like a regular save: each post gets a
+// revision and an 'updated' event, and its bumped updated_at gives it a new ETag
+async function recordBulkPostUpdate(postIds, user) {
+  const postsCollection = await getCollection('posts');
+  const posts = await postsCollection.find({ _id: { $in: postIds } }).toArray();
+  for (const post of posts) {
+    await savePostRevision(post, user);
+    postEvents.emit('updated', post);
+  }
+}
+
+// Utility function to find a free slug in a collection, suffixing "-2", "-3"... on collision.
+// Slugs in other posts' redirect history count as taken so old links keep working.
+async function generateUniqueSlug(postsCollection, base, excludeId = null) {
+  const root = base || 'post';
+  let candidate = root;
+  let suffix = 2;
+
+  while (await postsCollection.findOne(
+    {
+      $or: [{ slug: candidate }, { previous_slugs: candidate }],
+      ...(excludeId ? { _id: { $ne: excludeId } } : {}),
+    },
+    { projection: { _id: 1 } }
+  )) {
+    candidate = `${root}-${suffix++}`;
+  }
+
+  return candidate;
+}
+
+// Utility function to build the filter for posts readers may see: published and not dated in the future.
+// Posts without a publish date still match.
+function publicPostFilter(now = new Date()) {
+  return { published: true, published_at: { $not: { $gt: now } } };
+}
+
+// Utility function to check a loaded post against publicPostFilter
+function isPublicPost(post, now = new Date()) {
+  return Boolean(post.published) && !(post.published_at && new Date(post.published_at) > now);
+}
+
+// Utility function to work out the publish fields from the requested state.
+// A publish date in the future schedules the post instead of publishing it.
+function resolvePublishState(published, publishAt, existingPost = null) {
+  if (!published) {
+    return { published: false, scheduled_at: null };
+  }
+
+  const now = new Date();
+  const requestedDate = publishAt ? new Date(publishAt) : null;
+  if (requestedDate && isNaN(requestedDate.getTime())) {
+    return { error: 'Invalid publish date' };
+  }
+
+  if (requestedDate && requestedDate > now) {
+    return { published: false, published_at: null, scheduled_at: requestedDate };
+  }
+
+  const keepDate = existingPost && existingPost.published ? existingPost.published_at : null;
+  return {
+    published: true,
+    published_at: requestedDate || keepDate || now,
+    scheduled_at: null,
+  };
+}
+
+// Utility function to snapshot the current state of a post into its revision history
+async function savePostRevision(post, user) {
+  const revisionsCollection = await getCollection('post_revisions');
+  const revision = {
+    post_id: post._id,
+    title: post.title,
+    content: post.content,
+    excerpt: post.excerpt,
+    tags: post.tags,
+    featured_image: post.featured_image,
+    author: user ? { _id: user._id, name: user.name || user.email } : null,
+    created_at: new Date(),
+  };
+  const result = await revisionsCollection.insertOne(revision);
+  return { ...revision, _id: result.insertedId };
+}
+
+// Utility function to check a preview token from a shared link: valid, not revoked and issued for this post
+async function isValidPreviewToken(token, post) {
+  const tokenId = typeof token === 'string' ? verifyPreviewToken(token) : null;
+  if (!tokenId || !ObjectId.isValid(tokenId)) return false;
+
+  const previewTokensCollection = await getCollection('preview_tokens');
+  const record = await previewTokensCollection.findOne({ _id: new ObjectId(tokenId), post_id: post._id });
+  return Boolean(record) && record.expires_at > new Date();
+}
+
+// Utility function to build a post's ETag, which changes every time the post is saved
+function getPostEtag(post) {
+  return `"${new Date(post.updated_at || post.created_at).getTime()}"`;
+}
+
+// Utility function to check an If-Match header against a post; `*` matches any version
+function matchesIfMatch(header, post) {
+  const etag = getPostEtag(post);
+  return header.split(',').some(tag => {
+    const value = tag.trim().replace(/^W\//, '');
+    return value === '*' || value === etag;
+  });
+}
+
+// Utility function to reject a write that does not say which version of the post it was based on
+function sendPreconditionRequired(res, post) {
+  res.set('ETag', getPostEtag(post));
+  return res.status(428).json({ error: 'Send the version of the post you edited in the If-Match header' });
+}
+
+// Utility function to reject a stale update with the post as it is now, so the client can merge or overwrite
+function sendPostConflict(res, post) {
+  res.set('ETag', getPostEtag(post));
+  return res.status(409).json({ error: 'This post was changed by someone else since you opened it', current: post });
+}
+
+// Utility function to parse a draft's post id: an ObjectId, or null for `new` (a post not created yet)
+function parseDraftPostId(postId) {
+  if (postId === 'new') return { post_id: null };
+  return ObjectId.isValid(postId) ? { post_id: new ObjectId(postId) } : { error: 'Invalid id' };
+}
+
+// Utility function to get the public base URL, preferring SITE_URL when configured
+function getSiteUrl(req) {
+  const configured = process.env.SITE_URL;
+  return (configured || `${req.protocol}://${req.get('host')}`).replace(/\/+$/, '');
+}
+
+// Utility function to build the public URL of a post. The app routes on the hash, so the link works on any
+// static host without rewrites; `query` (e.g. a preview token) goes before the hash, where the app reads it.
+function getPostUrl(siteUrl, slug, query = {}) {
+  const search = new URLSearchParams(query).toString();
+  return `${siteUrl}/${search ? `?${search}` : ''}#/post/${encodeURIComponent(slug)}`;
+}
+
+// Utility function to count approved comments for a set of posts, keyed by post id string
+async function getApprovedCommentCounts(postIds) {
+  const commentsCollection = await getCollection('comments');
+  const counts = await commentsCollection.aggregate([
+    { $match: { post_id: { $in: postIds }, status: 'approved' } },
+    { $group: { _id: '$post_id', count: { $sum: 1 } } },
+  ]).toArray();
+  return new Map(counts.map(({ _id, count }) => [_id.toString(), count]));
+}
+
+// Utility function to embed a byline ({ _id, name, slug, avatar }) on each post
+async function attachAuthors(posts) {
+  const authorIds = [...new Set(posts.filter(post => post.author_id).map(post => post.author_id.toString()))];
+  if (authorIds.length === 0) return posts;
+
+  const authorsCollection = await getCollection('authors');
+  const authors = await authorsCollection
+    .find({ _id: { $in: authorIds.map(id => new ObjectId(id)) } }, { projection: { name: 1, slug: 1, avatar: 1 } })
+    .toArray();
+  const byId = new Map(authors.map(author => [author._id.toString(), author]));
+
+  posts.forEach(post => {
+    post.author = post.author_id ? byId.get(post.author_id.toString()) || null : null;
+  });
+  return posts;
+}
+
+// Utility function to embed the featured image's dimensions and placeholder
+// ({ width, height, dominant_color, placeholder }) on each post, for uploads that have an images record
+async function attachFeaturedImages(posts) {
+  const urls = [...new Set(posts.map(post => post.featured_image).filter(Boolean))];
+  if (urls.length === 0) return posts;
+
+  const imagesCollection = await getCollection('images');
+  const images = await imagesCollection
+    .find({ image_url: { $in: urls } }, { projection: { _id: 0, image_url: 1, width: 1, height: 1, dominant_color: 1, placeholder: 1 } })
+    .toArray();
+  const byUrl = new Map(images.map(({ image_url, ...meta }) => [image_url, meta]));
+
+  posts.forEach(post => {
+    post.featured_image_meta = byUrl.get(post.featured_image) || null;
+  });
+  return posts;
+}
+
+// Utility function to resolve the author_id sent with a post, or the author profile linked to the user
+async function resolveAuthorId(authorId, user) {
+  const authorsCollection = await getCollection('authors');
+  if (authorId) {
+    if (!ObjectId.isValid(authorId)) return { error: 'Invalid author' };
+    const author = await authorsCollection.findOne({ _id: new ObjectId(authorId) }, { projection: { user_id: 1 } });
+    if (!author) return { error: 'Author not found' };
+    if (!canModifyAuthor(user, author)) return { error: 'You can only publish under your own author profile' };
+    return { author_id: author._id };
+  }
+  const linked = await authorsCollection.findOne({ user_id: user._id }, { projection: { _id: 1 } });
+  return { author_id: linked ? linked._id : null };
+}
+
+// Utility function to resolve the category_id sent with a post
+async function resolveCategoryId(categoryId) {
+  if (!categoryId) return { category_id: null };
+  if (!ObjectId.isValid(categoryId)) return { error: 'Invalid category' };
+  const categoriesCollection = await getCollection('categories');
+  const category = await categoriesCollection.findOne({ _id: new ObjectId(categoryId) }, { projection: { _id: 1 } });
+  return category ? { category_id: category._id } : { error: 'Category not found' };
+}
+
+// Utility function to collect a category and all of its descendants from a flat category list
+function collectCategoryIds(categories, rootId) {
+  const ids = [rootId];
+  for (let i = 0; i < ids.length; i++) {
+    categories
+      .filter(category => category.parent_id && category.parent_id.equals(ids[i]))
+      .forEach(child => ids.push(child._id));
+  }
+  return ids;
+}
+
+// Utility function to embed { _id, name, slug } of each post's category
+async function attachCategories(posts) {
+  const categoryIds = [...new Set(posts.filter(post => post.category_id).map(post => post.category_id.toString()))];
+  if (categoryIds.length === 0) return posts;
+
+  const categoriesCollection = await getCollection('categories');
+  const categories = await categoriesCollection
+    .find({ _id: { $in: categoryIds.map(id => new ObjectId(id)) } }, { projection: { name: 1, slug: 1 } })
+    .toArray();
+  const byId = new Map(categories.map(category => [category._id.toString(), category]));
+
+  posts.forEach(post => {
+    post.category = post.category_id ? byId.get(post.category_id.toString()) || null : null;
+  });
+  return posts;
+}
+
+// Utility function to load series parts in series order; unpublished parts are skipped unless requested
+async function getSeriesParts(series, includeUnpublished = false) {
+  const postsCollection = await getCollection('posts');
+  const posts = await postsCollection
+    .find(
+      { _id: { $in: series.post_ids }, ...(includeUnpublished ? {} : publicPostFilter()) },
+      { projection: { title: 1, slug: 1, published: 1 } }
+    )
+    .toArray();
+  const byId = new Map(posts.map(post => [post._id.toString(), post]));
+  return series.post_ids.map(id => byId.get(id.toString())).filter(Boolean);
+}
+
+// Utility function to build the "Part N of M" navigator for a post that belongs to a series
+async function getSeriesNavigation(post, includeUnpublished = false) {
+  const seriesCollection = await getCollection('series');
+  const series = await seriesCollection.findOne({ post_ids: post._id });
+  if (!series) return null;
+
+  const parts = await getSeriesParts(series, includeUnpublished);
+  const position = parts.findIndex(part => part._id.equals(post._id));
+  if (position === -1) return null;
+
+  return {
+    _id: series._id,
+    title: series.title,
+    slug: series.slug,
+    position: position + 1,
+    total: parts.length,
+    parts: parts.map(({ _id, title, slug }) => ({ _id, title, slug })),
+  };
+}
+
+// Strip private fields before sending a comment to readers
+function toPublicComment(comment) {
+  return {
+    _id: comment._id,
+    post_id: comment.post_id,
+    parent_id: comment.parent_id,
+    author_name: comment.author_name,
+    content: comment.content,
+    created_at: comment.created_at,
+  };
+}
+
+// Utility function to process and save an image as responsive variants. Originals are kept
+// privately alongside them so they can be re-processed later.
+function processAndSaveImage(buffer, filename, options = {}) {
+  return processImage(buffer, filename, { storage: uploadStorage, ...options });
+}
+
+// Utility function to build the images collection record for a processed upload
+function toImageRecord(image, filename, user, fields = {}) {
+  return {
+    post_id: null,
+    image_url: image.url,
+    filename,
+    width: image.width,
+    height: image.height,
+    dominant_color: image.dominant_color,
+    placeholder: image.placeholder,
+    variants: image.variants,
+    original_path: image.original_path,
+    alt_text: '',
+    caption: '',
+    position: 0,
+    created_by: user._id,
+    created_at: new Date(),
+    ...fields,
+  };
+}
+
+// Post images follow their post's permissions; library uploads belong to whoever uploaded them
+async function canModifyImage(user, image) {
+  if (user.role === 'admin' || user.role === 'editor') return true;
+  if (image.post_id && ObjectId.isValid(image.post_id)) {
+    const postsCollection = await getCollection('posts');
+    const post = await postsCollection.findOne({ _id: new ObjectId(image.post_id) });
+    if (post) return canModifyPost(user, post);
   }
+  return Boolean(image.created_by) && image.created_by.equals(user._id);
+}
 
-  const processedFilename = `processed_${Date.now()}_${filename}`;
-  const filepath = path.join(uploadsDir, processedFilename);
+// Utility function to list the posts that reference each image, as featured image or in their content
+async function attachImageUsage(images) {
+  if (images.length === 0) return images;
 
-  // Process image with sharp (resize, optimize)
-  await sharp(buffer)
-    .resize(1200, 800, { 
-      fit: 'inside',
-      withoutEnlargement: true 
-    })
-    .jpeg({ quality: 85 })
-    .toFile(filepath);
+  const references = images.map(getImageReference);
+  const postsCollection = await getCollection('posts');
+  const posts = await postsCollection
+    .find(
+      {
+        $or: references.flatMap(reference => [
+          { featured_image: { $regex: `^${escapeRegex(reference)}` } },
+          { content: { $regex: escapeRegex(reference) } },
+        ]),
+      },
+      { projection: { title: 1, slug: 1, featured_image: 1, content: 1 } }
+    )
+    .toArray();
 
-  return `/uploads/${processedFilename}`;
+  images.forEach((image, index) => {
+    const reference = references[index];
+    image.used_in = posts
+      .filter(post => (post.featured_image || '').startsWith(reference) || (post.content || '').includes(reference))
+      .map(post => ({ _id: post._id, title: post.title, slug: post.slug }));
+  });
+  return images;
 }
 
 // API Routes
 
-// GET /api/posts - Get all posts with pagination, search, and filtering
-app.get('/api/posts', async (req, res) => {
+// POST /api/auth/login - Exchange email and password for a token
+app.post('/api/auth/login', async (req, res) => {
   try {
-    const { 
-      page = 1, 
-      pageSize = 10, 
-      search, 
-      tags,
-      published 
-    } = req.query;
+    const { value: credentials, errors } = validate(LOGIN_SCHEMA, req.body);
+    if (errors) return sendValidationError(res, errors);
 
-    const postsCollection = await getCollection('posts');
-    
-    // Build query
-    let query = {};
-    
-    if (search) {
-      query.$or = [
-        { title: { $regex: search, $options: 'i' } },
-        { content: { $regex: search, $options: 'i' } },
-        { excerpt: { $regex: search, $options: 'i' } }
-      ];
+    const usersCollection = await getCollection('users');
+    const user = await usersCollection.findOne({ email: credentials.email.toLowerCase() });
+
+    if (!user || !(await verifyPassword(credentials.password, user.password_hash))) {
+      return res.status(401).json({ error: 'Invalid email or password' });
     }
-    
-    if (tags) {
-      const tagArray = Array.isArray(tags) ? tags : [tags];
-      query.tags = { $in: tagArray };
+
+    res.json({ token: signToken(user), user: toPublicUser(user) });
+  } catch (error) {
+    console.error('Error logging in:', error);
+    res.status(500).json({ error: 'Failed to log in' });
+  }
+});
+
+// GET /api/auth/me - Get the currently authenticated user
+app.get('/api/auth/me', requireAuth, (req, res) => {
+  res.json(toPublicUser(req.user));
+});
+
+// GET /api/users - List users
+app.get('/api/users', requireAuth, requireRole('admin'), async (req, res) => {
+  try {
+    const usersCollection = await getCollection('users');
+    const users = await usersCollection.find({}).sort({ created_at: 1 }).toArray();
+    res.json(users.map(toPublicUser));
+  } catch (error) {
+    console.error('Error fetching users:', error);
+    res.status(500).json({ error: 'Failed to fetch users' });
+  }
+});
+
+// POST /api/users - Create user
+app.post('/api/users', requireAuth, requireRole('admin'), async (req, res) => {
+  try {
+    const { value: body, errors } = validate(USER_SCHEMA, req.body);
+    if (errors) return sendValidationError(res, errors);
+
+    const { email, password, name, role = 'author' } = body;
+    const usersCollection = await getCollection('users');
+    const now = new Date();
+    const userData = {
+      email: email.toLowerCase(),
+      name: name || '',
+      role,
+      password_hash: await hashPassword(password),
+      created_at: now,
+      updated_at: now,
+    };
+
+    const result = await usersCollection.insertOne(userData);
+    res.status(201).json(toPublicUser({ ...userData, _id: result.insertedId }));
+  } catch (error) {
+    if (error.code === 11000) {
+      return res.status(409).json({ error: 'A user with this email already exists' });
     }
-    
-    if (published !== undefined) {
-      query.published = published === 'true';
+    console.error('Error creating user:', error);
+    res.status(500).json({ error: 'Failed to create user' });
+  }
+});
+
+// PUT /api/users/:id - Update user role, name or password
+app.put('/api/users/:id', requireAuth, requireRole('admin'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const objectId = ObjectId.isValid(id) ? new ObjectId(id) : null;
+    if (!objectId) return res.status(400).json({ error: 'Invalid id' });
+
+    const { value: body, errors } = validate(USER_SCHEMA, req.body, { partial: true });
+    if (errors) return sendValidationError(res, errors);
+
+    const { name, role, password } = body;
+    const updateData = { updated_at: new Date() };
+
+    if (name !== undefined) updateData.name = name;
+    if (role !== undefined) updateData.role = role;
+    if (password !== undefined) updateData.password_hash = await hashPassword(password);
+
+    const usersCollection = await getCollection('users');
+    const updatedUser = await usersCollection.findOneAndUpdate(
+      { _id: objectId },
+      { $set: updateData },
+      { returnDocument: 'after' }
+    );
+
+    if (!updatedUser) {
+      return res.status(404).json({ error: 'User not found' });
     }
 
-    // Get total count
-    const total = await postsCollection.countDocuments(query);
-    
-    // Calculate pagination
-    const pageNum = parseInt(page);
-    const pageSizeNum = parseInt(pageSize);
-    const skip = (pageNum - 1) * pageSizeNum;
-    const totalPages = Math.ceil(total / pageSizeNum);
+    res.json(toPublicUser(updatedUser));
+  } catch (error) {
+    console.error('Error updating user:', error);
+    res.status(500).json({ error: 'Failed to update user' });
+  }
+});
 
-    // Get posts
-    const posts = await postsCollection
-      .find(query)
-      .sort({ published_at: -1, created_at: -1 })
-      .skip(skip)
-      .limit(pageSizeNum)
-      .toArray();
+// DELETE /api/users/:id - Delete user
+app.delete('/api/users/:id', requireAuth, requireRole('admin'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const objectId = ObjectId.isValid(id) ? new ObjectId(id) : null;
+    if (!objectId) return res.status(400).json({ error: 'Invalid id' });
 
-    res.json({
-      posts,
-      total,
-      page: pageNum,
-      pageSize: pageSizeNum,
-      totalPages
+    if (objectId.equals(req.user._id)) {
+      return res.status(400).json({ error: 'You cannot delete your own account' });
+    }
+
+    const usersCollection = await getCollection('users');
+    const result = await usersCollection.deleteOne({ _id: objectId });
+
+    if (result.deletedCount === 0) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting user:', error);
+    res.status(500).json({ error: 'Failed to delete user' });
+  }
+});
+
+// Utility function to send one page of posts matching baseQuery plus the search, tag and category filters;
+// params is a query validated against POST_QUERY_SCHEMA
+async function sendPostsPage(res, params, baseQuery) {
+  const { page, pageSize, search, tags, category, sort } = params;
+
+  const postsCollection = await getCollection('posts');
+
+  // Build query
+  let query = { ...baseQuery };
+  const parsedSearch = search ? parseSearchQuery(search) : null;
+  const rankByRelevance = sort === 'relevance' && parsedSearch && usesTextIndex(parsedSearch);
+
+  if (parsedSearch) {
+    Object.assign(query, buildSearchFilter(parsedSearch));
+  }
+
+  if (tags) {
+    query.tags = { $in: normalizeTags(tags) };
+  }
+
+  // A category filter also matches posts in any of its subcategories
+  if (category) {
+    const categoriesCollection = await getCollection('categories');
+    const categories = await categoriesCollection.find({}, { projection: { slug: 1, parent_id: 1 } }).toArray();
+    const selected = categories.find(c => c.slug === category);
+    query.category_id = { $in: selected ? collectCategoryIds(categories, selected._id) : [] };
+  }
+
+  // Get total count
+  const total = await postsCollection.countDocuments(query);
+
+  // Calculate pagination
+  const skip = (page - 1) * pageSize;
+  const totalPages = Math.ceil(total / pageSize);
+
+  // Get posts
+  const cursor = rankByRelevance
+    ? postsCollection
+        .find(query, { projection: { score: { $meta: 'textScore' } } })
+        .sort({ score: { $meta: 'textScore' }, published_at: -1 })
+    : postsCollection.find(query).sort({ published_at: -1, created_at: -1 });
+  const posts = await cursor.skip(skip).limit(pageSize).toArray();
+
+  if (parsedSearch) {
+    posts.forEach(post => {
+      post.search_snippet = buildSnippet(post, parsedSearch);
     });
+  }
+
+  await attachAuthors(posts);
+  await attachCategories(posts);
+  await attachFeaturedImages(posts);
+  const commentCounts = await getApprovedCommentCounts(posts.map(post => post._id));
+  posts.forEach(post => {
+    post.comment_count = commentCounts.get(post._id.toString()) || 0;
+  });
+
+  res.json({
+    posts,
+    total,
+    page,
+    pageSize,
+    totalPages
+  });
+}
+
+// GET /api/posts - Published posts with pagination, search, and filtering; drafts and scheduled posts are
+// never listed here, signed in or not (see /api/admin/posts)
+app.get('/api/posts', async (req, res) => {
+  try {
+    const { value: params, errors } = validate(POST_QUERY_SCHEMA, req.query);
+    if (errors) return sendValidationError(res, errors);
+
+    await sendPostsPage(res, params, publicPostFilter());
   } catch (error) {
     console.error('Error fetching posts:', error);
     res.status(500).json({ error: 'Failed to fetch posts' });
   }
 });
 
-// GET /api/posts/:id - Get single post by ID
-app.get('/api/posts/:id', async (req, res) => {
+// GET /api/admin/posts - Every post for the admin dashboard, optionally filtered by status=published|scheduled|draft
+app.get('/api/admin/posts', requireAuth, async (req, res) => {
+  try {
+    const { value: params, errors } = validate(ADMIN_POST_QUERY_SCHEMA, req.query);
+    if (errors) return sendValidationError(res, errors);
+
+    const statusFilters = {
+      published: () => publicPostFilter(),
+      scheduled: () => ({ scheduled_at: { $ne: null } }),
+      draft: () => ({ published: { $ne: true }, scheduled_at: null }),
+    };
+    await sendPostsPage(res, params, params.status ? statusFilters[params.status]() : {});
+  } catch (error) {
+    console.error('Error fetching admin posts:', error);
+    res.status(500).json({ error: 'Failed to fetch posts' });
+  }
+});
+
+// GET /api/posts/:id - Get single post by ID; drafts and scheduled posts need a signed-in user
+app.get('/api/posts/:id', optionalAuth, async (req, res) => {
   try {
     const { id } = req.params;
     const postsCollection = await getCollection('posts');
@@ -179,10 +881,11 @@ app.get('/api/posts/:id', async (req, res) => {
     if (!objectId) return res.status(400).json({ error: 'Invalid id' });
     const post = await postsCollection.findOne({ _id: objectId });
     
-    if (!post) {
+    if (!post || (!req.user && !isPublicPost(post))) {
       return res.status(404).json({ error: 'Post not found' });
     }
     
+    res.set('ETag', getPostEtag(post));
     res.json(post);
   } catch (error) {
     console.error('Error fetching post:', error);
@@ -191,17 +894,33 @@ app.get('/api/posts/:id', async (req, res) => {
 });
 
 // GET /api/posts/slug/:slug - Get single post by slug
-app.get('/api/posts/slug/:slug', async (req, res) => {
+app.get('/api/posts/slug/:slug', optionalAuth, async (req, res) => {
   try {
     const { slug } = req.params;
     const postsCollection = await getCollection('posts');
     
-    const post = await postsCollection.findOne({ slug });
+    // Fall back to slug history; the returned post carries its canonical slug for redirects
+    const post = await postsCollection.findOne({ slug })
+      || await postsCollection.findOne({ previous_slugs: slug });
     
     if (!post) {
       return res.status(404).json({ error: 'Post not found' });
     }
+
+    // Unpublished and future-dated posts are visible to signed-in users and to holders of a preview link
+    if (!req.user && !isPublicPost(post)) {
+      if (!await isValidPreviewToken(req.query.preview, post)) {
+        return res.status(404).json({ error: 'Post not found' });
+      }
+      res.set('Cache-Control', 'private, no-store');
+      res.set('X-Robots-Tag', 'noindex');
+    }
     
+    await attachAuthors([post]);
+    await attachCategories([post]);
+    await attachFeaturedImages([post]);
+    post.series = await getSeriesNavigation(post, Boolean(req.user));
+    res.set('ETag', getPostEtag(post));
     res.json(post);
   } catch (error) {
     console.error('Error fetching post by slug:', error);
@@ -210,105 +929,210 @@ app.get('/api/posts/slug/:slug', async (req, res) => {
 });
 
 // POST /api/posts - Create new post
-app.post('/api/posts', async (req, res) => {
+app.post('/api/posts', requireAuth, async (req, res) => {
   try {
     const postsCollection = await getCollection('posts');
     
-    const { title, content, excerpt, tags = [], featured_image, published = false } = req.body;
-    
-    if (!title || !content) {
-      return res.status(400).json({ error: 'Title and content are required' });
+    const { value: body, errors } = validate(POST_SCHEMA, req.body);
+    if (errors) return sendValidationError(res, errors);
+
+    const { title, slug: requestedSlug, content, excerpt, tags = [], featured_image, published = false, published_at, author_id, category_id, show_toc = true } = body;
+
+    const publishState = resolvePublishState(published, published_at);
+    if (publishState.error) {
+      return sendValidationError(res, { published_at: publishState.error });
+    }
+
+    const authorState = await resolveAuthorId(author_id, req.user);
+    if (authorState.error) {
+      return sendValidationError(res, { author_id: authorState.error });
     }
 
-    const slug = generateSlug(title);
+    const categoryState = await resolveCategoryId(category_id);
+    if (categoryState.error) {
+      return sendValidationError(res, { category_id: categoryState.error });
+    }
+
+    const slug = await generateUniqueSlug(postsCollection, generateSlug(requestedSlug || title));
     const now = new Date();
     
     const postData = {
       title,
       slug,
+      previous_slugs: [],
       content,
       excerpt: excerpt || '',
-      tags: Array.isArray(tags) ? tags : [],
+      tags: normalizeTags(tags),
       featured_image: featured_image || '',
-      published: Boolean(published),
-      published_at: published ? now : null,
+      published: publishState.published,
+      published_at: publishState.published_at || null,
+      scheduled_at: publishState.scheduled_at,
+      author_id: authorState.author_id,
+      category_id: categoryState.category_id,
+      show_toc: show_toc !== false,
+      created_by: req.user._id,
       created_at: now,
       updated_at: now
     };
 
     const result = await postsCollection.insertOne(postData);
     const newPost = { ...postData, _id: result.insertedId };
+    await savePostRevision(newPost, req.user);
+    if (newPost.published) postEvents.emit('published', newPost);
 
     res.status(201).json(newPost);
   } catch (error) {
+    if (error.code === 11000) {
+      return res.status(409).json({ error: 'A post with this slug already exists' });
+    }
     console.error('Error creating post:', error);
     res.status(500).json({ error: 'Failed to create post' });
   }
 });
 
 // PUT /api/posts/:id - Update post
-app.put('/api/posts/:id', async (req, res) => {
+app.put('/api/posts/:id', requireAuth, async (req, res) => {
   try {
     const { id } = req.params;
     const postsCollection = await getCollection('posts');
     const objectId = ObjectId.isValid(id) ? new ObjectId(id) : null;
     if (!objectId) return res.status(400).json({ error: 'Invalid id' });
+
+    const existingPost = await postsCollection.findOne({ _id: objectId });
+    if (!existingPost) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+    if (!canModifyPost(req.user, existingPost)) {
+      return res.status(403).json({ error: 'You can only edit your own posts' });
+    }
+
+    // Optimistic concurrency: the client must send the ETag of the version it edited
+    const ifMatch = req.get('If-Match');
+    if (!ifMatch) return sendPreconditionRequired(res, existingPost);
+    if (!matchesIfMatch(ifMatch, existingPost)) {
+      return sendPostConflict(res, existingPost);
+    }
     
-    const { title, content, excerpt, tags, featured_image, published } = req.body;
+    const { value: body, errors } = validate(POST_SCHEMA, req.body, { partial: true });
+    if (errors) return sendValidationError(res, errors);
+
+    const { title, slug, content, excerpt, tags, featured_image, published, published_at, author_id, category_id, show_toc } = body;
     
     const updateData = {
       updated_at: new Date()
     };
 
-    if (title) {
-      updateData.title = title;
-      updateData.slug = generateSlug(title);
+    if (title !== undefined) updateData.title = title;
+
+    // Slugs only change when explicitly edited; the old one is kept for redirects
+    if (slug !== undefined && generateSlug(slug) !== existingPost.slug) {
+      const newSlug = await generateUniqueSlug(postsCollection, generateSlug(slug), objectId);
+      const history = (existingPost.previous_slugs || []).filter(s => s !== newSlug);
+      updateData.slug = newSlug;
+      updateData.previous_slugs = [...history, existingPost.slug];
     }
     if (content !== undefined) updateData.content = content;
     if (excerpt !== undefined) updateData.excerpt = excerpt;
-    if (tags !== undefined) updateData.tags = Array.isArray(tags) ? tags : [];
+    if (tags !== undefined) updateData.tags = normalizeTags(tags);
     if (featured_image !== undefined) updateData.featured_image = featured_image;
+    if (show_toc !== undefined) updateData.show_toc = show_toc !== false;
+    // An unchanged byline is kept even if the editor could not have chosen it
+    if (author_id !== undefined && String(author_id ?? '') !== String(existingPost.author_id ?? '')) {
+      if (author_id === null || author_id === '') {
+        updateData.author_id = null;
+      } else {
+        const authorState = await resolveAuthorId(author_id, req.user);
+        if (authorState.error) {
+          return sendValidationError(res, { author_id: authorState.error });
+        }
+        updateData.author_id = authorState.author_id;
+      }
+    }
+    if (category_id !== undefined) {
+      const categoryState = await resolveCategoryId(category_id);
+      if (categoryState.error) {
+        return sendValidationError(res, { category_id: categoryState.error });
+      }
+      updateData.category_id = categoryState.category_id;
+    }
     if (published !== undefined) {
-      updateData.published = Boolean(published);
-      if (published && !updateData.published_at) {
-        updateData.published_at = new Date();
+      const publishState = resolvePublishState(published, published_at, existingPost);
+      if (publishState.error) {
+        return sendValidationError(res, { published_at: publishState.error });
       }
+      Object.assign(updateData, publishState);
     }
 
+    // Only write if nobody saved the post since it was read above
     const result = await postsCollection.updateOne(
-      { _id: objectId },
+      { _id: objectId, updated_at: existingPost.updated_at },
       { $set: updateData }
     );
 
     if (result.matchedCount === 0) {
+      const currentPost = await postsCollection.findOne({ _id: objectId });
+      if (currentPost) return sendPostConflict(res, currentPost);
       return res.status(404).json({ error: 'Post not found' });
     }
 
     const updatedPost = await postsCollection.findOne({ _id: objectId });
+    await savePostRevision(updatedPost, req.user);
+    if (updatedPost.published && !existingPost.published) postEvents.emit('published', updatedPost);
+    postEvents.emit('updated', updatedPost);
+    res.set('ETag', getPostEtag(updatedPost));
     res.json(updatedPost);
   } catch (error) {
+    if (error.code === 11000) {
+      return res.status(409).json({ error: 'A post with this slug already exists' });
+    }
     console.error('Error updating post:', error);
     res.status(500).json({ error: 'Failed to update post' });
   }
 });
 
 // DELETE /api/posts/:id - Delete post
-app.delete('/api/posts/:id', async (req, res) => {
+app.delete('/api/posts/:id', requireAuth, async (req, res) => {
   try {
     const { id } = req.params;
     const postsCollection = await getCollection('posts');
     const objectId = ObjectId.isValid(id) ? new ObjectId(id) : null;
     if (!objectId) return res.status(400).json({ error: 'Invalid id' });
-    
-    const result = await postsCollection.deleteOne({ _id: objectId });
-    
+
+    const existingPost = await postsCollection.findOne({ _id: objectId });
+    if (!existingPost) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+    if (!canModifyPost(req.user, existingPost)) {
+      return res.status(403).json({ error: 'You can only delete your own posts' });
+    }
+    
+    const result = await postsCollection.deleteOne({ _id: objectId });
+    
     if (result.deletedCount === 0) {
       return res.status(404).json({ error: 'Post not found' });
     }
 
-    // Also delete associated images
+    // Also delete associated images and revision history
     const imagesCollection = await getCollection('images');
+    const images = await imagesCollection.find({ post_id: id }).toArray();
     await imagesCollection.deleteMany({ post_id: id });
+    await Promise.all(images.map(image => removeImageFiles(image, uploadStorage)));
+    const revisionsCollection = await getCollection('post_revisions');
+    await revisionsCollection.deleteMany({ post_id: objectId });
+
+    const commentsCollection = await getCollection('comments');
+    await commentsCollection.deleteMany({ post_id: objectId });
+
+    const draftsCollection = await getCollection('post_drafts');
+    await draftsCollection.deleteMany({ post_id: objectId });
+
+    const previewTokensCollection = await getCollection('preview_tokens');
+    await previewTokensCollection.deleteMany({ post_id: objectId });
+
+    const seriesCollection = await getCollection('series');
+    await seriesCollection.updateMany({ post_ids: objectId }, { $pull: { post_ids: objectId } });
+
+    postEvents.emit('deleted', existingPost);
 
     res.status(204).send();
   } catch (error) {
@@ -317,101 +1141,1471 @@ app.delete('/api/posts/:id', async (req, res) => {
   }
 });
 
+// GET /api/posts/:id/revisions - Get revision history for a post, newest first
+app.get('/api/posts/:id/revisions', requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const objectId = ObjectId.isValid(id) ? new ObjectId(id) : null;
+    if (!objectId) return res.status(400).json({ error: 'Invalid id' });
+
+    // History includes unpublished edits, so it is limited to those who may edit the post
+    const postsCollection = await getCollection('posts');
+    const post = await postsCollection.findOne({ _id: objectId }, { projection: { created_by: 1 } });
+    if (!post) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+    if (!canModifyPost(req.user, post)) {
+      return res.status(403).json({ error: 'You can only view the history of your own posts' });
+    }
+
+    const revisionsCollection = await getCollection('post_revisions');
+    const revisions = await revisionsCollection
+      .find({ post_id: objectId })
+      .sort({ created_at: -1 })
+      .toArray();
+
+    res.json(revisions);
+  } catch (error) {
+    console.error('Error fetching post revisions:', error);
+    res.status(500).json({ error: 'Failed to fetch post revisions' });
+  }
+});
+
+// POST /api/posts/:id/revisions/:revisionId/restore - Restore a post to an earlier revision
+app.post('/api/posts/:id/revisions/:revisionId/restore', requireAuth, async (req, res) => {
+  try {
+    const { id, revisionId } = req.params;
+    const objectId = ObjectId.isValid(id) ? new ObjectId(id) : null;
+    const revisionObjectId = ObjectId.isValid(revisionId) ? new ObjectId(revisionId) : null;
+    if (!objectId || !revisionObjectId) return res.status(400).json({ error: 'Invalid id' });
+
+    const postsCollection = await getCollection('posts');
+    const existingPost = await postsCollection.findOne({ _id: objectId });
+    if (!existingPost) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+    if (!canModifyPost(req.user, existingPost)) {
+      return res.status(403).json({ error: 'You can only edit your own posts' });
+    }
+
+    // A restore overwrites the post too, so it needs the version the editor last saw
+    const ifMatch = req.get('If-Match');
+    if (!ifMatch) return sendPreconditionRequired(res, existingPost);
+    if (!matchesIfMatch(ifMatch, existingPost)) {
+      return sendPostConflict(res, existingPost);
+    }
+
+    const revisionsCollection = await getCollection('post_revisions');
+    const revision = await revisionsCollection.findOne({ _id: revisionObjectId, post_id: objectId });
+    if (!revision) {
+      return res.status(404).json({ error: 'Revision not found' });
+    }
+
+    const result = await postsCollection.updateOne(
+      { _id: objectId, updated_at: existingPost.updated_at },
+      {
+        $set: {
+          title: revision.title,
+          content: revision.content,
+          excerpt: revision.excerpt,
+          tags: normalizeTags(revision.tags),
+          featured_image: revision.featured_image,
+          updated_at: new Date(),
+        },
+      }
+    );
+
+    if (result.matchedCount === 0) {
+      const currentPost = await postsCollection.findOne({ _id: objectId });
+      if (currentPost) return sendPostConflict(res, currentPost);
+      return res.status(404).json({ error: 'Post not found' });
+    }
+
+    // The restore itself becomes the newest revision so history is never rewritten
+    const restoredPost = await postsCollection.findOne({ _id: objectId });
+    await savePostRevision(restoredPost, req.user);
+    postEvents.emit('updated', restoredPost);
+    res.set('ETag', getPostEtag(restoredPost));
+    res.json(restoredPost);
+  } catch (error) {
+    console.error('Error restoring post revision:', error);
+    res.status(500).json({ error: 'Failed to restore post revision' });
+  }
+});
+
+// GET /api/posts/:id/preview-tokens - List a post's active preview links
+app.get('/api/posts/:id/preview-tokens', requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const objectId = ObjectId.isValid(id) ? new ObjectId(id) : null;
+    if (!objectId) return res.status(400).json({ error: 'Invalid id' });
+
+    const postsCollection = await getCollection('posts');
+    const post = await postsCollection.findOne({ _id: objectId }, { projection: { created_by: 1 } });
+    if (!post) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+    if (!canModifyPost(req.user, post)) {
+      return res.status(403).json({ error: 'You can only share your own posts' });
+    }
+
+    const previewTokensCollection = await getCollection('preview_tokens');
+    const tokens = await previewTokensCollection
+      .find({ post_id: objectId, expires_at: { $gt: new Date() } })
+      .sort({ created_at: -1 })
+      .toArray();
+
+    res.json(tokens);
+  } catch (error) {
+    console.error('Error fetching preview tokens:', error);
+    res.status(500).json({ error: 'Failed to fetch preview tokens' });
+  }
+});
+
+// POST /api/posts/:id/preview-tokens - Create a signed preview link that expires after `expires_in_hours`
+app.post('/api/posts/:id/preview-tokens', requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const objectId = ObjectId.isValid(id) ? new ObjectId(id) : null;
+    if (!objectId) return res.status(400).json({ error: 'Invalid id' });
+
+    const postsCollection = await getCollection('posts');
+    const post = await postsCollection.findOne({ _id: objectId }, { projection: { slug: 1, created_by: 1 } });
+    if (!post) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+    if (!canModifyPost(req.user, post)) {
+      return res.status(403).json({ error: 'You can only share your own posts' });
+    }
+
+    const { value: body, errors } = validate(PREVIEW_TOKEN_SCHEMA, req.body);
+    if (errors) return sendValidationError(res, errors);
+    const hours = body.expires_in_hours;
+
+    const now = new Date();
+    const record = {
+      post_id: objectId,
+      created_by: req.user._id,
+      created_at: now,
+      expires_at: new Date(now.getTime() + hours * 60 * 60 * 1000),
+    };
+    const previewTokensCollection = await getCollection('preview_tokens');
+    const result = await previewTokensCollection.insertOne(record);
+
+    // The token itself is only returned here; the record keeps what is needed to list and revoke it
+    const token = signPreviewToken(result.insertedId, record.expires_at);
+    res.status(201).json({
+      ...record,
+      _id: result.insertedId,
+      token,
+      url: getPostUrl(getSiteUrl(req), post.slug, { preview: token }),
+    });
+  } catch (error) {
+    console.error('Error creating preview token:', error);
+    res.status(500).json({ error: 'Failed to create preview token' });
+  }
+});
+
+// DELETE /api/posts/:id/preview-tokens/:tokenId - Revoke a preview link
+app.delete('/api/posts/:id/preview-tokens/:tokenId', requireAuth, async (req, res) => {
+  try {
+    const { id, tokenId } = req.params;
+    const objectId = ObjectId.isValid(id) ? new ObjectId(id) : null;
+    const tokenObjectId = ObjectId.isValid(tokenId) ? new ObjectId(tokenId) : null;
+    if (!objectId || !tokenObjectId) return res.status(400).json({ error: 'Invalid id' });
+
+    const postsCollection = await getCollection('posts');
+    const post = await postsCollection.findOne({ _id: objectId }, { projection: { created_by: 1 } });
+    if (!post) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+    if (!canModifyPost(req.user, post)) {
+      return res.status(403).json({ error: 'You can only share your own posts' });
+    }
+
+    const previewTokensCollection = await getCollection('preview_tokens');
+    const result = await previewTokensCollection.deleteOne({ _id: tokenObjectId, post_id: objectId });
+    if (result.deletedCount === 0) {
+      return res.status(404).json({ error: 'Preview link not found' });
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error revoking preview token:', error);
+    res.status(500).json({ error: 'Failed to revoke preview token' });
+  }
+});
+
+// GET /api/drafts/:postId - Get the current user's autosaved draft of a post (`new` for an unsaved post)
+app.get('/api/drafts/:postId', requireAuth, async (req, res) => {
+  try {
+    const { post_id, error } = parseDraftPostId(req.params.postId);
+    if (error) return res.status(400).json({ error });
+
+    const draftsCollection = await getCollection('post_drafts');
+    const draft = await draftsCollection.findOne({ user_id: req.user._id, post_id });
+    if (!draft) {
+      return res.status(404).json({ error: 'Draft not found' });
+    }
+
+    res.json(draft);
+  } catch (error) {
+    console.error('Error fetching draft:', error);
+    res.status(500).json({ error: 'Failed to fetch draft' });
+  }
+});
+
+// PUT /api/drafts/:postId - Autosave the current user's draft of a post, replacing any earlier one
+app.put('/api/drafts/:postId', requireAuth, async (req, res) => {
+  try {
+    const { post_id, error } = parseDraftPostId(req.params.postId);
+    if (error) return res.status(400).json({ error });
+
+    const { value: body, errors } = validate(DRAFT_SCHEMA, req.body);
+    if (errors) return sendValidationError(res, errors);
+
+    if (post_id) {
+      const postsCollection = await getCollection('posts');
+      const post = await postsCollection.findOne({ _id: post_id }, { projection: { created_by: 1 } });
+      if (!post) {
+        return res.status(404).json({ error: 'Post not found' });
+      }
+      if (!canModifyPost(req.user, post)) {
+        return res.status(403).json({ error: 'You can only edit your own posts' });
+      }
+    }
+
+    const draftsCollection = await getCollection('post_drafts');
+    const draft = await draftsCollection.findOneAndUpdate(
+      { user_id: req.user._id, post_id },
+      {
+        $set: {
+          data: body.data,
+          saved_at: body.saved_at ? new Date(body.saved_at) : new Date(),
+          updated_at: new Date(),
+        },
+      },
+      { upsert: true, returnDocument: 'after' }
+    );
+
+    res.json(draft);
+  } catch (error) {
+    console.error('Error saving draft:', error);
+    res.status(500).json({ error: 'Failed to save draft' });
+  }
+});
+
+// DELETE /api/drafts/:postId - Discard the current user's draft of a post
+app.delete('/api/drafts/:postId', requireAuth, async (req, res) => {
+  try {
+    const { post_id, error } = parseDraftPostId(req.params.postId);
+    if (error) return res.status(400).json({ error });
+
+    const draftsCollection = await getCollection('post_drafts');
+    await draftsCollection.deleteOne({ user_id: req.user._id, post_id });
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting draft:', error);
+    res.status(500).json({ error: 'Failed to delete draft' });
+  }
+});
+
 // POST /api/upload - Upload image
-app.post('/api/upload', upload.single('image'), async (req, res) => {
+app.post('/api/upload', requireAuth, upload.single('image'), async (req, res) => {
   try {
     if (!req.file) {
       return res.status(400).json({ error: 'No image file provided' });
     }
 
     const { originalname, buffer } = req.file;
-    const imageUrl = await processAndSaveImage(buffer, originalname);
+    const image = await processAndSaveImage(buffer, originalname);
+
+    // Every upload is recorded so it shows up in the media library
+    const imagesCollection = await getCollection('images');
+    const imageData = toImageRecord(image, originalname, req.user);
+    const result = await imagesCollection.insertOne(imageData);
 
     res.json({ 
       success: true, 
-      imageUrl,
+      imageUrl: image.url,
+      image: { ...imageData, _id: result.insertedId },
       message: 'Image uploaded successfully' 
     });
   } catch (error) {
+    if (error.type === 'upload.unreadable_image') return sendValidationError(res, { image: error.message });
     console.error('Error uploading image:', error);
     res.status(500).json({ error: 'Failed to upload image' });
   }
 });
 
 // POST /api/posts/:id/images - Add image to post
-app.post('/api/posts/:id/images', upload.single('image'), async (req, res) => {
+app.post('/api/posts/:id/images', requireAuth, upload.single('image'), async (req, res) => {
   try {
     const { id } = req.params;
-    const { alt_text, caption, position } = req.body;
+    const objectId = ObjectId.isValid(id) ? new ObjectId(id) : null;
+    if (!objectId) return res.status(400).json({ error: 'Invalid id' });
+
+    const postsCollection = await getCollection('posts');
+    const post = await postsCollection.findOne({ _id: objectId });
+    if (!post) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+    if (!canModifyPost(req.user, post)) {
+      return res.status(403).json({ error: 'You can only add images to your own posts' });
+    }
+    const { value: fields, errors } = validate(IMAGE_SCHEMA, req.body, { partial: true });
+    if (errors) return sendValidationError(res, errors);
+    const { alt_text, caption, position } = fields;
     
     if (!req.file) {
       return res.status(400).json({ error: 'No image file provided' });
     }
 
     const { originalname, buffer } = req.file;
-    const imageUrl = await processAndSaveImage(buffer, originalname);
+    const image = await processAndSaveImage(buffer, originalname);
 
     const imagesCollection = await getCollection('images');
-    const imageData = {
+    const imageData = toImageRecord(image, originalname, req.user, {
       post_id: id,
-      image_url: imageUrl,
       alt_text: alt_text || '',
       caption: caption || '',
-      position: parseInt(position) || 0,
-      created_at: new Date()
-    };
+      position: position || 0,
+    });
 
     const result = await imagesCollection.insertOne(imageData);
     const newImage = { ...imageData, _id: result.insertedId };
 
     res.status(201).json(newImage);
   } catch (error) {
+    if (error.type === 'upload.unreadable_image') return sendValidationError(res, { image: error.message });
     console.error('Error adding image to post:', error);
     res.status(500).json({ error: 'Failed to add image to post' });
   }
 });
 
-// GET /api/posts/:id/images - Get images for a post
-app.get('/api/posts/:id/images', async (req, res) => {
+// PUT /api/posts/:id/images/order - Reorder a post's images
+app.put('/api/posts/:id/images/order', requireAuth, async (req, res) => {
   try {
     const { id } = req.params;
+    const objectId = ObjectId.isValid(id) ? new ObjectId(id) : null;
+    if (!objectId) return res.status(400).json({ error: 'Invalid id' });
+
+    const { value: body, errors } = validate(IMAGE_ORDER_SCHEMA, req.body);
+    if (errors) return sendValidationError(res, errors);
+    const { image_ids } = body;
+
+    const postsCollection = await getCollection('posts');
+    const post = await postsCollection.findOne({ _id: objectId });
+    if (!post) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+    if (!canModifyPost(req.user, post)) {
+      return res.status(403).json({ error: 'You can only reorder images of your own posts' });
+    }
+
     const imagesCollection = await getCollection('images');
-    
+    const imageObjectIds = image_ids.map(imageId => new ObjectId(imageId));
+    const owned = await imagesCollection.countDocuments({ _id: { $in: imageObjectIds }, post_id: id });
+    if (owned !== image_ids.length) {
+      return sendValidationError(res, { image_ids: 'Every image must belong to this post' });
+    }
+
+    await imagesCollection.bulkWrite(imageObjectIds.map((imageId, position) => ({
+      updateOne: { filter: { _id: imageId }, update: { $set: { position } } },
+    })));
+
+    const images = await imagesCollection.find({ post_id: id }).sort({ position: 1 }).toArray();
+    res.json(images);
+  } catch (error) {
+    console.error('Error reordering post images:', error);
+    res.status(500).json({ error: 'Failed to reorder post images' });
+  }
+});
+
+// GET /api/images - Media library: all uploads, newest first, with the posts that use them
+app.get('/api/images', requireAuth, async (req, res) => {
+  try {
+    const { value: params, errors } = validate(IMAGE_QUERY_SCHEMA, req.query);
+    if (errors) return sendValidationError(res, errors);
+
+    const { q = '', page, pageSize } = params;
+    const query = {};
+    const search = q.trim();
+    if (search) {
+      const pattern = { $regex: escapeRegex(search), $options: 'i' };
+      query.$or = [{ filename: pattern }, { alt_text: pattern }, { caption: pattern }, { image_url: pattern }];
+    }
+
+    const imagesCollection = await getCollection('images');
+    const total = await imagesCollection.countDocuments(query);
+
     const images = await imagesCollection
-      .find({ post_id: id })
-      .sort({ position: 1 })
+      .find(query)
+      .sort({ created_at: -1 })
+      .skip((page - 1) * pageSize)
+      .limit(pageSize)
       .toArray();
 
-    res.json(images);
+    res.json({
+      images: await attachImageUsage(images),
+      total,
+      page,
+      pageSize,
+      totalPages: Math.ceil(total / pageSize)
+    });
   } catch (error) {
-    console.error('Error fetching post images:', error);
-    res.status(500).json({ error: 'Failed to fetch post images' });
+    console.error('Error fetching media library:', error);
+    res.status(500).json({ error: 'Failed to fetch images' });
   }
 });
 
-// Health check endpoint
-app.get('/api/health', (req, res) => {
-  res.json({ status: 'OK', timestamp: new Date().toISOString() });
+// PATCH /api/images/:id - Update an image's alt text, caption or position
+app.patch('/api/images/:id', requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const objectId = ObjectId.isValid(id) ? new ObjectId(id) : null;
+    if (!objectId) return res.status(400).json({ error: 'Invalid id' });
+
+    const imagesCollection = await getCollection('images');
+    const existingImage = await imagesCollection.findOne({ _id: objectId });
+    if (!existingImage) {
+      return res.status(404).json({ error: 'Image not found' });
+    }
+    if (!(await canModifyImage(req.user, existingImage))) {
+      return res.status(403).json({ error: 'You can only edit your own images' });
+    }
+
+    const { value: fields, errors } = validate(IMAGE_SCHEMA, req.body, { partial: true });
+    if (errors) return sendValidationError(res, errors);
+
+    const { alt_text, caption, position } = fields;
+    const updateData = { updated_at: new Date() };
+    if (alt_text !== undefined) updateData.alt_text = alt_text.trim();
+    if (caption !== undefined) updateData.caption = caption.trim();
+    if (position !== undefined) updateData.position = position;
+
+    const updatedImage = await imagesCollection.findOneAndUpdate(
+      { _id: objectId },
+      { $set: updateData },
+      { returnDocument: 'after' }
+    );
+    res.json(updatedImage);
+  } catch (error) {
+    console.error('Error updating image:', error);
+    res.status(500).json({ error: 'Failed to update image' });
+  }
 });
 
-// Error handling middleware
-app.use((error, req, res, next) => {
-  console.error('Server error:', error);
-  res.status(500).json({ error: 'Internal server error' });
+// DELETE /api/images/:id - Delete an image record and its files
+app.delete('/api/images/:id', requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const objectId = ObjectId.isValid(id) ? new ObjectId(id) : null;
+    if (!objectId) return res.status(400).json({ error: 'Invalid id' });
+
+    const imagesCollection = await getCollection('images');
+    const existingImage = await imagesCollection.findOne({ _id: objectId });
+    if (!existingImage) {
+      return res.status(404).json({ error: 'Image not found' });
+    }
+    if (!(await canModifyImage(req.user, existingImage))) {
+      return res.status(403).json({ error: 'You can only delete your own images' });
+    }
+
+    await imagesCollection.deleteOne({ _id: objectId });
+    await removeImageFiles(existingImage, uploadStorage);
+
+    res.json({ message: 'Image deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting image:', error);
+    res.status(500).json({ error: 'Failed to delete image' });
+  }
 });
 
-// Start server
-async function startServer() {
+// GET /api/authors - List authors
+app.get('/api/authors', async (req, res) => {
   try {
-    await connectToDatabase();
-    app.listen(PORT, () => {
-      console.log(`Server running on http://localhost:${PORT}`);
-      console.log(`API endpoints available at http://localhost:${PORT}/api`);
+    const authorsCollection = await getCollection('authors');
+    const authors = await authorsCollection.find({}).sort({ name: 1 }).toArray();
+    res.json(authors);
+  } catch (error) {
+    console.error('Error fetching authors:', error);
+    res.status(500).json({ error: 'Failed to fetch authors' });
+  }
+});
+
+// GET /api/authors/:slug - Get an author profile with their published posts
+app.get('/api/authors/:slug', async (req, res) => {
+  try {
+    const { slug } = req.params;
+    const { value: params, errors } = validate(AUTHOR_POSTS_QUERY_SCHEMA, req.query);
+    if (errors) return sendValidationError(res, errors);
+    const { page, pageSize } = params;
+
+    const authorsCollection = await getCollection('authors');
+    const author = await authorsCollection.findOne({ slug });
+    if (!author) {
+      return res.status(404).json({ error: 'Author not found' });
+    }
+
+    const postsCollection = await getCollection('posts');
+    const query = { author_id: author._id, ...publicPostFilter() };
+    const total = await postsCollection.countDocuments(query);
+
+    const posts = await postsCollection
+      .find(query)
+      .sort({ published_at: -1 })
+      .skip((page - 1) * pageSize)
+      .limit(pageSize)
+      .toArray();
+
+    await attachAuthors(posts);
+    await attachFeaturedImages(posts);
+    const commentCounts = await getApprovedCommentCounts(posts.map(post => post._id));
+    posts.forEach(post => {
+      post.comment_count = commentCounts.get(post._id.toString()) || 0;
+    });
+
+    res.json({
+      author,
+      posts,
+      total,
+      page,
+      pageSize,
+      totalPages: Math.ceil(total / pageSize)
     });
   } catch (error) {
-    console.error('Failed to start server:', error);
-    process.exit(1);
+    console.error('Error fetching author:', error);
+    res.status(500).json({ error: 'Failed to fetch author' });
   }
+});
+
+// POST /api/authors - Create author profile
+app.post('/api/authors', requireAuth, requireRole('admin', 'editor'), async (req, res) => {
+  try {
+    const { value: body, errors } = validate(AUTHOR_SCHEMA, req.body);
+    if (errors) return sendValidationError(res, errors);
+
+    const { name, bio, avatar, social_links, user_id } = body;
+    const authorsCollection = await getCollection('authors');
+    const now = new Date();
+    const authorData = {
+      name: name.trim(),
+      slug: await generateUniqueSlug(authorsCollection, generateSlug(name)),
+      bio: bio || '',
+      avatar: avatar || '',
+      social_links: social_links || {},
+      user_id: user_id ? new ObjectId(user_id) : null,
+      created_at: now,
+      updated_at: now,
+    };
+
+    const result = await authorsCollection.insertOne(authorData);
+    res.status(201).json({ ...authorData, _id: result.insertedId });
+  } catch (error) {
+    if (error.code === 11000) {
+      return res.status(409).json({ error: 'An author with this slug already exists' });
+    }
+    console.error('Error creating author:', error);
+    res.status(500).json({ error: 'Failed to create author' });
+  }
+});
+
+// PUT /api/authors/:id - Update author profile
+app.put('/api/authors/:id', requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const objectId = ObjectId.isValid(id) ? new ObjectId(id) : null;
+    if (!objectId) return res.status(400).json({ error: 'Invalid id' });
+
+    const authorsCollection = await getCollection('authors');
+    const existingAuthor = await authorsCollection.findOne({ _id: objectId });
+    if (!existingAuthor) {
+      return res.status(404).json({ error: 'Author not found' });
+    }
+
+    if (!canModifyAuthor(req.user, existingAuthor)) {
+      return res.status(403).json({ error: 'You can only edit your own author profile' });
+    }
+
+    const { value: body, errors } = validate(AUTHOR_SCHEMA, req.body, { partial: true });
+    if (errors) return sendValidationError(res, errors);
+
+    const { name, bio, avatar, social_links, user_id } = body;
+    const updateData = { updated_at: new Date() };
+
+    if (name !== undefined) updateData.name = name.trim();
+    if (bio !== undefined) updateData.bio = bio;
+    if (avatar !== undefined) updateData.avatar = avatar || '';
+    if (social_links !== undefined) updateData.social_links = social_links;
+    if (user_id !== undefined && req.user.role !== 'author') {
+      updateData.user_id = user_id ? new ObjectId(user_id) : null;
+    }
+
+    const updatedAuthor = await authorsCollection.findOneAndUpdate(
+      { _id: objectId },
+      { $set: updateData },
+      { returnDocument: 'after' }
+    );
+    res.json(updatedAuthor);
+  } catch (error) {
+    console.error('Error updating author:', error);
+    res.status(500).json({ error: 'Failed to update author' });
+  }
+});
+
+// Loads the author in :id into req.author if the user may edit it; runs before the upload is read
+async function loadEditableAuthor(req, res, next) {
+  try {
+    const { id } = req.params;
+    const objectId = ObjectId.isValid(id) ? new ObjectId(id) : null;
+    if (!objectId) return res.status(400).json({ error: 'Invalid id' });
+
+    const authorsCollection = await getCollection('authors');
+    const author = await authorsCollection.findOne({ _id: objectId });
+    if (!author) {
+      return res.status(404).json({ error: 'Author not found' });
+    }
+    if (!canModifyAuthor(req.user, author)) {
+      return res.status(403).json({ error: 'You can only edit your own author profile' });
+    }
+
+    req.author = author;
+    next();
+  } catch (error) {
+    console.error('Error loading author:', error);
+    res.status(500).json({ error: 'Failed to load author' });
+  }
+}
+
+// POST /api/authors/:id/avatar - Upload author avatar; it is recorded in the media library and replaces the
+// previous upload, whose files are removed
+app.post('/api/authors/:id/avatar', requireAuth, loadEditableAuthor, upload.single('image'), async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ error: 'No image file provided' });
+    }
+
+    const { originalname, buffer } = req.file;
+    const image = await processAndSaveImage(buffer, originalname, { width: 400, height: 400, fit: 'cover' });
+
+    const imagesCollection = await getCollection('images');
+    await imagesCollection.insertOne(toImageRecord(image, originalname, req.user, {
+      author_id: req.author._id,
+      alt_text: req.author.name,
+    }));
+
+    const authorsCollection = await getCollection('authors');
+    const updatedAuthor = await authorsCollection.findOneAndUpdate(
+      { _id: req.author._id },
+      { $set: { avatar: image.url, updated_at: new Date() } },
+      { returnDocument: 'after' }
+    );
+
+    // Only a previous avatar upload is removed; an avatar picked from the library stays there
+    const previousImage = req.author.avatar
+      ? await imagesCollection.findOne({ image_url: req.author.avatar, author_id: req.author._id })
+      : null;
+    if (previousImage) {
+      await removeImageFiles(previousImage, uploadStorage);
+      await imagesCollection.deleteOne({ _id: previousImage._id });
+    }
+
+    res.json(updatedAuthor);
+  } catch (error) {
+    if (error.type === 'upload.unreadable_image') return sendValidationError(res, { image: error.message });
+    console.error('Error uploading author avatar:', error);
+    res.status(500).json({ error: 'Failed to upload author avatar' });
+  }
+});
+
+// DELETE /api/authors/:id - Delete author; their posts become unattributed
+app.delete('/api/authors/:id', requireAuth, requireRole('admin'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const objectId = ObjectId.isValid(id) ? new ObjectId(id) : null;
+    if (!objectId) return res.status(400).json({ error: 'Invalid id' });
+
+    const authorsCollection = await getCollection('authors');
+    const result = await authorsCollection.deleteOne({ _id: objectId });
+
+    if (result.deletedCount === 0) {
+      return res.status(404).json({ error: 'Author not found' });
+    }
+
+    const postsCollection = await getCollection('posts');
+    await postsCollection.updateMany({ author_id: objectId }, { $set: { author_id: null } });
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting author:', error);
+    res.status(500).json({ error: 'Failed to delete author' });
+  }
+});
+
+// GET /api/tags - Tags used by published posts, most used first; signed-in users may pass all=true to include drafts
+app.get('/api/tags', optionalAuth, async (req, res) => {
+  try {
+    const includeDrafts = req.user && req.query.all === 'true';
+    const postsCollection = await getCollection('posts');
+    const tags = await postsCollection.aggregate([
+      { $match: includeDrafts ? {} : publicPostFilter() },
+      { $unwind: '$tags' },
+      { $group: { _id: '$tags', count: { $sum: 1 } } },
+      { $sort: { count: -1, _id: 1 } },
+      { $project: { _id: 0, name: '$_id', count: 1 } },
+    ]).toArray();
+
+    res.json(tags);
+  } catch (error) {
+    console.error('Error fetching tags:', error);
+    res.status(500).json({ error: 'Failed to fetch tags' });
+  }
+});
+
+// PUT /api/tags/:tag - Rename a tag on every post; renaming onto an existing tag merges them
+app.put('/api/tags/:tag', requireAuth, requireRole('admin', 'editor'), async (req, res) => {
+  try {
+    const { value: body, errors } = validate(TAG_RENAME_SCHEMA, req.body);
+    if (errors) return sendValidationError(res, errors);
+
+    const source = normalizeTag(req.params.tag);
+    const target = normalizeTag(body.name);
+    if (source === target) {
+      return res.json({ name: target, updated: 0 });
+    }
+
+    const updated = await replaceTags([source], target, req.user);
+    res.json({ name: target, updated });
+  } catch (error) {
+    console.error('Error renaming tag:', error);
+    res.status(500).json({ error: 'Failed to rename tag' });
+  }
+});
+
+// POST /api/tags/merge - Merge several tags into one
+app.post('/api/tags/merge', requireAuth, requireRole('admin', 'editor'), async (req, res) => {
+  try {
+    const { value: body, errors } = validate(TAG_MERGE_SCHEMA, req.body);
+    if (errors) return sendValidationError(res, errors);
+
+    const { sources, target } = body;
+    const targetTag = normalizeTag(target);
+    const sourceTags = normalizeTags(sources).filter(tag => tag !== targetTag);
+    const updated = sourceTags.length > 0 ? await replaceTags(sourceTags, targetTag, req.user) : 0;
+    res.json({ name: targetTag, updated });
+  } catch (error) {
+    console.error('Error merging tags:', error);
+    res.status(500).json({ error: 'Failed to merge tags' });
+  }
+});
+
+// DELETE /api/tags/:tag - Remove a tag from every post
+app.delete('/api/tags/:tag', requireAuth, requireRole('admin', 'editor'), async (req, res) => {
+  try {
+    const tag = normalizeTag(req.params.tag);
+    const postsCollection = await getCollection('posts');
+    const posts = await postsCollection.find({ tags: tag }, { projection: { _id: 1 } }).toArray();
+    if (posts.length === 0) {
+      return res.status(404).json({ error: 'Tag not found' });
+    }
+
+    const postIds = posts.map(post => post._id);
+    await postsCollection.updateMany(
+      { _id: { $in: postIds } },
+      { $pull: { tags: tag }, $set: { updated_at: new Date() } }
+    );
+    await recordBulkPostUpdate(postIds, req.user);
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting tag:', error);
+    res.status(500).json({ error: 'Failed to delete tag' });
+  }
+});
+
+// GET /api/categories - List categories as a flat list; parent_id links children to their parent
+app.get('/api/categories', async (req, res) => {
+  try {
+    const categoriesCollection = await getCollection('categories');
+    const categories = await categoriesCollection.find({}).sort({ name: 1 }).toArray();
+
+    const postsCollection = await getCollection('posts');
+    const counts = await postsCollection.aggregate([
+      { $match: { ...publicPostFilter(), category_id: { $ne: null } } },
+      { $group: { _id: '$category_id', count: { $sum: 1 } } },
+    ]).toArray();
+    const countById = new Map(counts.map(({ _id, count }) => [_id.toString(), count]));
+
+    res.json(categories.map(category => ({
+      ...category,
+      post_count: countById.get(category._id.toString()) || 0,
+    })));
+  } catch (error) {
+    console.error('Error fetching categories:', error);
+    res.status(500).json({ error: 'Failed to fetch categories' });
+  }
+});
+
+// POST /api/categories - Create category
+app.post('/api/categories', requireAuth, requireRole('admin', 'editor'), async (req, res) => {
+  try {
+    const { value: body, errors } = validate(CATEGORY_SCHEMA, req.body);
+    if (errors) return sendValidationError(res, errors);
+
+    const { name, description, parent_id } = body;
+    const categoriesCollection = await getCollection('categories');
+    const parentId = parent_id ? new ObjectId(parent_id) : null;
+    if (parentId && !await categoriesCollection.findOne({ _id: parentId }, { projection: { _id: 1 } })) {
+      return sendValidationError(res, { parent_id: 'Parent category not found' });
+    }
+
+    const now = new Date();
+    const categoryData = {
+      name: name.trim(),
+      slug: await generateUniqueSlug(categoriesCollection, generateSlug(name)),
+      description: description || '',
+      parent_id: parentId,
+      created_at: now,
+      updated_at: now,
+    };
+
+    const result = await categoriesCollection.insertOne(categoryData);
+    res.status(201).json({ ...categoryData, _id: result.insertedId });
+  } catch (error) {
+    if (error.code === 11000) {
+      return res.status(409).json({ error: 'A category with this slug already exists' });
+    }
+    console.error('Error creating category:', error);
+    res.status(500).json({ error: 'Failed to create category' });
+  }
+});
+
+// PUT /api/categories/:id - Update category
+app.put('/api/categories/:id', requireAuth, requireRole('admin', 'editor'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const objectId = ObjectId.isValid(id) ? new ObjectId(id) : null;
+    if (!objectId) return res.status(400).json({ error: 'Invalid id' });
+
+    const categoriesCollection = await getCollection('categories');
+    const existingCategory = await categoriesCollection.findOne({ _id: objectId });
+    if (!existingCategory) {
+      return res.status(404).json({ error: 'Category not found' });
+    }
+
+    const { value: body, errors } = validate(CATEGORY_SCHEMA, req.body, { partial: true });
+    if (errors) return sendValidationError(res, errors);
+
+    const { name, description, parent_id } = body;
+    const updateData = { updated_at: new Date() };
+
+    if (name !== undefined) updateData.name = name.trim();
+    if (description !== undefined) updateData.description = description;
+    if (parent_id !== undefined) {
+      if (!parent_id) {
+        updateData.parent_id = null;
+      } else {
+        const categories = await categoriesCollection.find({}, { projection: { parent_id: 1 } }).toArray();
+        const parent = categories.find(c => c._id.equals(new ObjectId(parent_id)));
+        if (!parent) {
+          return sendValidationError(res, { parent_id: 'Parent category not found' });
+        }
+        // A category cannot be moved under itself or one of its own descendants
+        if (collectCategoryIds(categories, objectId).some(categoryId => categoryId.equals(parent._id))) {
+          return sendValidationError(res, { parent_id: 'A category cannot be nested under itself' });
+        }
+        updateData.parent_id = parent._id;
+      }
+    }
+
+    const updatedCategory = await categoriesCollection.findOneAndUpdate(
+      { _id: objectId },
+      { $set: updateData },
+      { returnDocument: 'after' }
+    );
+    res.json(updatedCategory);
+  } catch (error) {
+    console.error('Error updating category:', error);
+    res.status(500).json({ error: 'Failed to update category' });
+  }
+});
+
+// DELETE /api/categories/:id - Delete category; its children move up to its parent
+app.delete('/api/categories/:id', requireAuth, requireRole('admin', 'editor'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const objectId = ObjectId.isValid(id) ? new ObjectId(id) : null;
+    if (!objectId) return res.status(400).json({ error: 'Invalid id' });
+
+    const categoriesCollection = await getCollection('categories');
+    const category = await categoriesCollection.findOneAndDelete({ _id: objectId });
+    if (!category) {
+      return res.status(404).json({ error: 'Category not found' });
+    }
+
+    await categoriesCollection.updateMany({ parent_id: objectId }, { $set: { parent_id: category.parent_id || null } });
+    const postsCollection = await getCollection('posts');
+    await postsCollection.updateMany({ category_id: objectId }, { $set: { category_id: null } });
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting category:', error);
+    res.status(500).json({ error: 'Failed to delete category' });
+  }
+});
+
+// GET /api/series - List series
+app.get('/api/series', async (req, res) => {
+  try {
+    const seriesCollection = await getCollection('series');
+    const series = await seriesCollection.find({}).sort({ title: 1 }).toArray();
+    res.json(series);
+  } catch (error) {
+    console.error('Error fetching series:', error);
+    res.status(500).json({ error: 'Failed to fetch series' });
+  }
+});
+
+// GET /api/series/:slug - Get a series with its parts in order
+app.get('/api/series/:slug', optionalAuth, async (req, res) => {
+  try {
+    const { slug } = req.params;
+    const seriesCollection = await getCollection('series');
+    const series = await seriesCollection.findOne({ slug });
+    if (!series) {
+      return res.status(404).json({ error: 'Series not found' });
+    }
+
+    const parts = await getSeriesParts(series, Boolean(req.user));
+    res.json({ ...series, parts });
+  } catch (error) {
+    console.error('Error fetching series:', error);
+    res.status(500).json({ error: 'Failed to fetch series' });
+  }
+});
+
+// POST /api/series - Create series
+app.post('/api/series', requireAuth, requireRole('admin', 'editor'), async (req, res) => {
+  try {
+    const { value: body, errors } = validate(SERIES_SCHEMA, req.body);
+    if (errors) return sendValidationError(res, errors);
+
+    const { title, description, post_ids = [] } = body;
+    const seriesCollection = await getCollection('series');
+    const now = new Date();
+    const seriesData = {
+      title: title.trim(),
+      slug: await generateUniqueSlug(seriesCollection, generateSlug(title)),
+      description: description || '',
+      post_ids: post_ids.map(postId => new ObjectId(postId)),
+      created_at: now,
+      updated_at: now,
+    };
+
+    // A post belongs to at most one series
+    await seriesCollection.updateMany({}, { $pull: { post_ids: { $in: seriesData.post_ids } } });
+    const result = await seriesCollection.insertOne(seriesData);
+    res.status(201).json({ ...seriesData, _id: result.insertedId });
+  } catch (error) {
+    if (error.code === 11000) {
+      return res.status(409).json({ error: 'A series with this slug already exists' });
+    }
+    console.error('Error creating series:', error);
+    res.status(500).json({ error: 'Failed to create series' });
+  }
+});
+
+// PUT /api/series/:id - Update series; post_ids replaces the ordered list of parts
+app.put('/api/series/:id', requireAuth, requireRole('admin', 'editor'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const objectId = ObjectId.isValid(id) ? new ObjectId(id) : null;
+    if (!objectId) return res.status(400).json({ error: 'Invalid id' });
+
+    const { value: body, errors } = validate(SERIES_SCHEMA, req.body, { partial: true });
+    if (errors) return sendValidationError(res, errors);
+
+    const { title, description, post_ids } = body;
+    const updateData = { updated_at: new Date() };
+
+    if (title !== undefined) updateData.title = title.trim();
+    if (description !== undefined) updateData.description = description;
+    if (post_ids !== undefined) updateData.post_ids = post_ids.map(postId => new ObjectId(postId));
+
+    const seriesCollection = await getCollection('series');
+    const updatedSeries = await seriesCollection.findOneAndUpdate(
+      { _id: objectId },
+      { $set: updateData },
+      { returnDocument: 'after' }
+    );
+    if (!updatedSeries) {
+      return res.status(404).json({ error: 'Series not found' });
+    }
+
+    if (updateData.post_ids) {
+      await seriesCollection.updateMany(
+        { _id: { $ne: objectId } },
+        { $pull: { post_ids: { $in: updateData.post_ids } } }
+      );
+    }
+
+    res.json(updatedSeries);
+  } catch (error) {
+    console.error('Error updating series:', error);
+    res.status(500).json({ error: 'Failed to update series' });
+  }
+});
+
+// DELETE /api/series/:id - Delete series; its posts are left untouched
+app.delete('/api/series/:id', requireAuth, requireRole('admin', 'editor'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const objectId = ObjectId.isValid(id) ? new ObjectId(id) : null;
+    if (!objectId) return res.status(400).json({ error: 'Invalid id' });
+
+    const seriesCollection = await getCollection('series');
+    const result = await seriesCollection.deleteOne({ _id: objectId });
+
+    if (result.deletedCount === 0) {
+      return res.status(404).json({ error: 'Series not found' });
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting series:', error);
+    res.status(500).json({ error: 'Failed to delete series' });
+  }
+});
+
+// GET /api/posts/:id/comments - Get approved comments for a post, oldest first. Like the post itself, the
+// comments of an unpublished post need a signed-in user or a preview link.
+app.get('/api/posts/:id/comments', optionalAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const objectId = ObjectId.isValid(id) ? new ObjectId(id) : null;
+    if (!objectId) return res.status(400).json({ error: 'Invalid id' });
+
+    const postsCollection = await getCollection('posts');
+    const post = await postsCollection.findOne({ _id: objectId }, { projection: { published: 1, published_at: 1 } });
+    if (!post) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+    if (!req.user && !isPublicPost(post)) {
+      if (!await isValidPreviewToken(req.query.preview, post)) {
+        return res.status(404).json({ error: 'Post not found' });
+      }
+      res.set('Cache-Control', 'private, no-store');
+    }
+
+    const commentsCollection = await getCollection('comments');
+    const comments = await commentsCollection
+      .find({ post_id: objectId, status: 'approved' })
+      .sort({ created_at: 1 })
+      .toArray();
+
+    res.json(comments.map(toPublicComment));
+  } catch (error) {
+    console.error('Error fetching comments:', error);
+    res.status(500).json({ error: 'Failed to fetch comments' });
+  }
+});
+
+// POST /api/posts/:id/comments - Submit a comment; it stays pending until moderated
+app.post('/api/posts/:id/comments', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const objectId = ObjectId.isValid(id) ? new ObjectId(id) : null;
+    if (!objectId) return res.status(400).json({ error: 'Invalid id' });
+
+    const { value: comment, errors } = validate(COMMENT_SCHEMA, req.body);
+    if (errors) return sendValidationError(res, errors);
+
+    // Honeypot field - real readers never see or fill it in
+    if (comment.website) {
+      return res.status(400).json({ error: 'Comment rejected' });
+    }
+
+    const postsCollection = await getCollection('posts');
+    const post = await postsCollection.findOne({ _id: objectId, ...publicPostFilter() }, { projection: { _id: 1 } });
+    if (!post) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+
+    const commentsCollection = await getCollection('comments');
+    let parentObjectId = null;
+    if (comment.parent_id) {
+      parentObjectId = new ObjectId(comment.parent_id);
+      const parent = await commentsCollection.findOne({
+        _id: parentObjectId,
+        post_id: objectId,
+        status: 'approved',
+      });
+      if (!parent) {
+        return sendValidationError(res, { parent_id: 'Parent comment not found' });
+      }
+    }
+
+    const now = new Date();
+    const commentData = {
+      post_id: objectId,
+      parent_id: parentObjectId,
+      author_name: comment.author_name.trim(),
+      author_email: (comment.author_email || '').trim().toLowerCase(),
+      content: comment.content.trim(),
+      status: 'pending',
+      ip: req.ip,
+      created_at: now,
+      updated_at: now,
+    };
+
+    const result = await commentsCollection.insertOne(commentData);
+    res.status(201).json(toPublicComment({ ...commentData, _id: result.insertedId }));
+  } catch (error) {
+    console.error('Error creating comment:', error);
+    res.status(500).json({ error: 'Failed to create comment' });
+  }
+});
+
+// GET /api/comments - Moderation queue, filtered by status
+app.get('/api/comments', requireAuth, requireRole('admin', 'editor'), async (req, res) => {
+  try {
+    const { value: params, errors } = validate(COMMENT_QUERY_SCHEMA, req.query);
+    if (errors) return sendValidationError(res, errors);
+
+    const { status, page, pageSize } = params;
+    const query = {};
+    if (status !== 'all') {
+      query.status = status;
+    }
+
+    const commentsCollection = await getCollection('comments');
+    const total = await commentsCollection.countDocuments(query);
+
+    const comments = await commentsCollection
+      .aggregate([
+        { $match: query },
+        { $sort: { created_at: -1 } },
+        { $skip: (page - 1) * pageSize },
+        { $limit: pageSize },
+        {
+          $lookup: {
+            from: 'posts',
+            localField: 'post_id',
+            foreignField: '_id',
+            as: 'post',
+            pipeline: [{ $project: { title: 1, slug: 1 } }],
+          },
+        },
+        { $set: { post: { $first: '$post' } } },
+      ])
+      .toArray();
+
+    res.json({
+      comments,
+      total,
+      page,
+      pageSize,
+      totalPages: Math.ceil(total / pageSize)
+    });
+  } catch (error) {
+    console.error('Error fetching comments for moderation:', error);
+    res.status(500).json({ error: 'Failed to fetch comments' });
+  }
+});
+
+// PATCH /api/comments/:id - Change a comment's moderation status
+app.patch('/api/comments/:id', requireAuth, requireRole('admin', 'editor'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const objectId = ObjectId.isValid(id) ? new ObjectId(id) : null;
+    if (!objectId) return res.status(400).json({ error: 'Invalid id' });
+
+    const { value: body, errors } = validate(COMMENT_MODERATION_SCHEMA, req.body);
+    if (errors) return sendValidationError(res, errors);
+    const { status } = body;
+
+    const commentsCollection = await getCollection('comments');
+    const updatedComment = await commentsCollection.findOneAndUpdate(
+      { _id: objectId },
+      { $set: { status, moderated_by: req.user._id, updated_at: new Date() } },
+      { returnDocument: 'after' }
+    );
+
+    if (!updatedComment) {
+      return res.status(404).json({ error: 'Comment not found' });
+    }
+
+    res.json(updatedComment);
+  } catch (error) {
+    console.error('Error moderating comment:', error);
+    res.status(500).json({ error: 'Failed to moderate comment' });
+  }
+});
+
+// POST /api/comments/bulk - Apply a status change or deletion to many comments at once
+app.post('/api/comments/bulk', requireAuth, requireRole('admin', 'editor'), async (req, res) => {
+  try {
+    const { value: body, errors } = validate(COMMENT_BULK_SCHEMA, req.body);
+    if (errors) return sendValidationError(res, errors);
+
+    const { ids, action } = body;
+
+    const commentsCollection = await getCollection('comments');
+    const filter = { _id: { $in: ids.map(id => new ObjectId(id)) } };
+
+    if (action === 'delete') {
+      const result = await commentsCollection.deleteMany(filter);
+      return res.json({ modified: result.deletedCount });
+    }
+
+    const result = await commentsCollection.updateMany(filter, {
+      $set: { status: action, moderated_by: req.user._id, updated_at: new Date() },
+    });
+    res.json({ modified: result.modifiedCount });
+  } catch (error) {
+    console.error('Error bulk moderating comments:', error);
+    res.status(500).json({ error: 'Failed to moderate comments' });
+  }
+});
+
+// DELETE /api/comments/:id - Delete comment
+app.delete('/api/comments/:id', requireAuth, requireRole('admin', 'editor'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const objectId = ObjectId.isValid(id) ? new ObjectId(id) : null;
+    if (!objectId) return res.status(400).json({ error: 'Invalid id' });
+
+    const commentsCollection = await getCollection('comments');
+    const result = await commentsCollection.deleteOne({ _id: objectId });
+
+    if (result.deletedCount === 0) {
+      return res.status(404).json({ error: 'Comment not found' });
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting comment:', error);
+    res.status(500).json({ error: 'Failed to delete comment' });
+  }
+});
+
+// GET /api/posts/:id/images - Get images for a post
+app.get('/api/posts/:id/images', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const imagesCollection = await getCollection('images');
+    
+    const images = await imagesCollection
+      .find({ post_id: id })
+      .sort({ position: 1 })
+      .toArray();
+
+    res.json(images);
+  } catch (error) {
+    console.error('Error fetching post images:', error);
+    res.status(500).json({ error: 'Failed to fetch post images' });
+  }
+});
+
+// Feeds
+const FEED_FORMATS = [
+  { file: 'feed.xml', type: 'application/rss+xml', build: buildRssFeed },
+  { file: 'atom.xml', type: 'application/atom+xml', build: buildAtomFeed },
+  { file: 'feed.json', type: 'application/feed+json', build: buildJsonFeed },
+];
+
+// GET /feed.xml, /atom.xml, /feed.json - Latest published posts
+// GET /tags/:tag/feed.xml, /tags/:tag/atom.xml, /tags/:tag/feed.json - Latest published posts with a tag
+FEED_FORMATS.forEach(format => {
+  app.get([`/${format.file}`, `/tags/:tag/${format.file}`], async (req, res) => {
+    try {
+      const { tag } = req.params;
+      const siteUrl = getSiteUrl(req);
+      const postsCollection = await getCollection('posts');
+
+      const query = publicPostFilter();
+      if (tag) query.tags = normalizeTag(tag);
+
+      const posts = await postsCollection
+        .find(query)
+        .sort({ published_at: -1 })
+        .limit(FEED_SIZE)
+        .toArray();
+
+      const feed = {
+        title: tag ? `${SITE_TITLE} – ${tag}` : SITE_TITLE,
+        description: tag ? `Posts tagged "${tag}"` : SITE_DESCRIPTION,
+        siteUrl,
+        feedUrl: `${siteUrl}${req.path}`,
+        updated: posts.length > 0 ? new Date(posts[0].updated_at || posts[0].published_at) : new Date(),
+        items: posts.map(post => ({
+          id: `${siteUrl}/#/post/${post._id}`,
+          url: getPostUrl(siteUrl, post.slug),
+          title: post.title,
+          summary: post.excerpt || '',
+          contentHtml: absolutizeUrls(renderMarkdown(post.content), siteUrl),
+          image: absoluteUrl(post.featured_image, siteUrl),
+          tags: post.tags || [],
+          published: new Date(post.published_at),
+          updated: new Date(post.updated_at || post.published_at),
+        })),
+      };
+
+      const body = format.build(feed);
+      res.type(format.type).send(typeof body === 'string' ? body : JSON.stringify(body));
+    } catch (error) {
+      console.error('Error generating feed:', error);
+      res.status(500).json({ error: 'Failed to generate feed' });
+    }
+  });
+});
+
+// Sitemaps
+
+// Serves from sitemapCache, building the document on a miss. Without SITE_URL the URLs come from the
+// request's Host header, which any client can set, so those documents are built fresh every time.
+async function sendCachedSitemap(req, res, type, build) {
+  try {
+    const cacheable = Boolean(process.env.SITE_URL);
+    let body = cacheable ? sitemapCache.get(req.path) : undefined;
+    if (body === undefined) {
+      body = await build(getSiteUrl(req));
+      if (body === null) return res.status(404).json({ error: 'Sitemap not found' });
+      if (cacheable) sitemapCache.set(req.path, body);
+    }
+    res.type(type).send(body);
+  } catch (error) {
+    console.error('Error generating sitemap:', error);
+    res.status(500).json({ error: 'Failed to generate sitemap' });
+  }
+}
+
+async function getSitemapPosts(skip, limit) {
+  const postsCollection = await getCollection('posts');
+  return postsCollection
+    .find(publicPostFilter(), { projection: { slug: 1, updated_at: 1, published_at: 1 } })
+    .sort({ published_at: -1, _id: 1 })
+    .skip(skip)
+    .limit(limit)
+    .toArray();
+}
+
+const toSitemapUrl = siteUrl => post => ({
+  loc: getPostUrl(siteUrl, post.slug),
+  lastmod: new Date(post.updated_at || post.published_at),
+});
+
+// GET /sitemap.xml - All published posts, or a sitemap index once there are more than SITEMAP_CHUNK_SIZE
+app.get('/sitemap.xml', (req, res) => sendCachedSitemap(req, res, 'application/xml', async (siteUrl) => {
+  const postsCollection = await getCollection('posts');
+  const total = await postsCollection.countDocuments(publicPostFilter());
+
+  if (total <= SITEMAP_CHUNK_SIZE) {
+    const posts = await getSitemapPosts(0, SITEMAP_CHUNK_SIZE);
+    return buildUrlset([{ loc: `${siteUrl}/` }, ...posts.map(toSitemapUrl(siteUrl))]);
+  }
+
+  const chunks = Math.ceil(total / SITEMAP_CHUNK_SIZE);
+  return buildSitemapIndex(
+    Array.from({ length: chunks }, (_, index) => ({ loc: `${siteUrl}/sitemap-posts-${index + 1}.xml` }))
+  );
+}));
+
+// GET /sitemap-posts-:page.xml - One chunk of a split sitemap
+app.get('/sitemap-posts-:page.xml', (req, res) => sendCachedSitemap(req, res, 'application/xml', async (siteUrl) => {
+  const page = parseInt(req.params.page);
+  if (!page || page < 1) return null;
+
+  const posts = await getSitemapPosts((page - 1) * SITEMAP_CHUNK_SIZE, SITEMAP_CHUNK_SIZE);
+  if (posts.length === 0) return null;
+
+  const urls = posts.map(toSitemapUrl(siteUrl));
+  return buildUrlset(page === 1 ? [{ loc: `${siteUrl}/` }, ...urls] : urls);
+}));
+
+// GET /robots.txt - Crawler rules pointing at the sitemap
+app.get('/robots.txt', (req, res) => {
+  res.type('text/plain').send(buildRobotsTxt({
+    sitemapUrl: `${getSiteUrl(req)}/sitemap.xml`,
+    disallow: ROBOTS_DISALLOW,
+    blockAll: ROBOTS_BLOCK_ALL,
+  }));
+});
+
+// Health check endpoint
+app.get('/api/health', (req, res) => {
+  res.json({ status: 'OK', timestamp: new Date().toISOString() });
+});
+
+// Publish scheduler - flips scheduled posts live once their publish date has passed
+async function publishScheduledPosts() {
+  const postsCollection = await getCollection('posts');
+  const now = new Date();
+
+  // Claim posts one at a time so concurrent server instances never publish the same post twice
+  let post;
+  while ((post = await postsCollection.findOneAndUpdate(
+    { scheduled_at: { $ne: null, $lte: now } },
+    [{ $set: { published: true, published_at: '$scheduled_at', scheduled_at: null, updated_at: now } }],
+    { returnDocument: 'after' }
+  ))) {
+    console.log(`Published scheduled post "${post.title}"`);
+    postEvents.emit('published', post);
+  }
+}
+
+function startPublishScheduler() {
+  const run = () => publishScheduledPosts().catch(error => {
+    console.error('Error publishing scheduled posts:', error);
+  });
+  run();
+  setInterval(run, SCHEDULER_INTERVAL_MS);
+}
+
+// Error handling middleware
+app.use((error, req, res, next) => {
+  // Malformed and oversized request bodies are rejected by express.json before any route runs
+  if (error.type === 'entity.parse.failed') {
+    return res.status(400).json({ error: 'Request body is not valid JSON' });
+  }
+  if (error.type === 'entity.too.large') {
+    return res.status(413).json({ error: 'Request body is too large' });
+  }
+  // Rejected uploads are stopped by multer, also before the route runs
+  if (error.type === 'upload.unsupported_type') {
+    return sendValidationError(res, { [error.field]: error.message });
+  }
+  if (error instanceof multer.MulterError) {
+    if (error.code === 'LIMIT_FILE_SIZE') {
+      return res.status(413).json({ error: `Files must be at most ${MAX_UPLOAD_MB} MB` });
+    }
+    if (error.field) return sendValidationError(res, { [error.field]: error.message });
+    return res.status(400).json({ error: error.message });
+  }
+  console.error('Server error:', error);
+  res.status(500).json({ error: 'Internal server error' });
+});
+
+// Start server
+async function startServer() {
+  try {
+    await connectToDatabase();
+    startPublishScheduler();
+    app.listen(PORT, () => {
+      console.log(`Server running on http://localhost:${PORT}`);
+      console.log(`API endpoints available at http://localhost:${PORT}/api`);
+    });
+  } catch (error) {
+    console.error('Failed to start server:', error);
+    process.exit(1);
+  }
+}
+
+// Only listen when run as `node server.js`; tests import the app and talk to it on their own port
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  startServer();
 }
 
-startServer();
+export { app };
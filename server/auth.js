@@ -0,0 +1,89 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+import jwt from 'jsonwebtoken';
+
+const scrypt = promisify(crypto.scrypt);
+
+const KEY_LENGTH = 64;
+const TOKEN_TTL = process.env.JWT_EXPIRES_IN || '12h';
+
+// The value env.example used to ship with; anyone could sign tokens with it
+const PLACEHOLDER_SECRET = 'change-me';
+
+let jwtSecret = process.env.JWT_SECRET;
+if (jwtSecret === PLACEHOLDER_SECRET) {
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('JWT_SECRET is still the placeholder value; set it to a long random string');
+  }
+  console.warn('JWT_SECRET is the placeholder value; set it to a long random string before deploying');
+}
+if (!jwtSecret) {
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('JWT_SECRET must be set in production');
+  }
+  // Development fallback - tokens are invalidated on every restart
+  jwtSecret = crypto.randomBytes(32).toString('hex');
+  console.warn('JWT_SECRET is not set, using a random secret for this process');
+}
+
+// Hash a password with a random salt, stored as "salt:hash"
+export async function hashPassword(password) {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const derived = await scrypt(password, salt, KEY_LENGTH);
+  return `${salt}:${derived.toString('hex')}`;
+}
+
+export async function verifyPassword(password, stored) {
+  if (!stored || !stored.includes(':')) return false;
+  const [salt, hash] = stored.split(':');
+  const expected = Buffer.from(hash, 'hex');
+  const derived = await scrypt(password, salt, KEY_LENGTH);
+  return expected.length === derived.length && crypto.timingSafeEqual(expected, derived);
+}
+
+export function signToken(user) {
+  return jwt.sign({ sub: user._id.toString(), role: user.role }, jwtSecret, {
+    expiresIn: TOKEN_TTL,
+  });
+}
+
+// Returns the decoded payload, or null when the token is missing, invalid or expired
+export function verifyToken(token) {
+  try {
+    return jwt.verify(token, jwtSecret);
+  } catch {
+    return null;
+  }
+}
+
+// Preview tokens are signed for their own audience so they can never pass as a session token, and carry
+// only the id of their revocable record in the preview_tokens collection
+const PREVIEW_AUDIENCE = 'post-preview';
+
+export function signPreviewToken(tokenId, expiresAt) {
+  return jwt.sign({}, jwtSecret, {
+    audience: PREVIEW_AUDIENCE,
+    jwtid: tokenId.toString(),
+    expiresIn: Math.max(1, Math.floor((expiresAt.getTime() - Date.now()) / 1000)),
+  });
+}
+
+// Returns the token record id, or null when the token is missing, invalid or expired
+export function verifyPreviewToken(token) {
+  try {
+    return jwt.verify(token, jwtSecret, { audience: PREVIEW_AUDIENCE }).jti || null;
+  } catch {
+    return null;
+  }
+}
+
+// Strip secrets before sending a user document to the client
+export function toPublicUser(user) {
+  return {
+    _id: user._id,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    created_at: user.created_at,
+  };
+}
@@ -0,0 +1,42 @@
+// API error format: { error: { code, message, fields? } }, where fields maps request fields to messages.
+// Routes keep answering with res.status(n).json({ error: 'message' }), optionally adding `code` and
+// `fields`; structuredErrors rewrites those bodies, taking the code from the status when none is given.
+
+const STATUS_CODES = {
+  400: 'bad_request',
+  401: 'unauthorized',
+  403: 'forbidden',
+  404: 'not_found',
+  409: 'conflict',
+  413: 'payload_too_large',
+  428: 'precondition_required',
+  429: 'too_many_requests',
+};
+
+export function errorCodeForStatus(status) {
+  return STATUS_CODES[status] || (status >= 500 ? 'internal_error' : 'bad_request');
+}
+
+// Express middleware; install it before anything that may respond with an error
+export function structuredErrors(req, res, next) {
+  const json = res.json.bind(res);
+  res.json = body => {
+    if (res.statusCode < 400 || !body || typeof body.error !== 'string') return json(body);
+    const { error, code, fields, ...rest } = body;
+    return json({
+      ...rest,
+      error: { code: code || errorCodeForStatus(res.statusCode), message: error, ...(fields ? { fields } : {}) },
+    });
+  };
+  next();
+}
+
+// 400 with a message per invalid field, as returned by validate() from src/lib/schemas.js
+export function sendValidationError(res, fields) {
+  const messages = Object.values(fields);
+  return res.status(400).json({
+    error: messages.length === 1 ? messages[0] : 'Some fields are invalid',
+    code: 'validation_failed',
+    fields,
+  });
+}
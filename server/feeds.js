@@ -0,0 +1,98 @@
+// RSS 2.0, Atom 1.0 and JSON Feed 1.1 serializers.
+// Each takes the same feed description:
+//   { title, description, siteUrl, feedUrl, updated, items: [{ id, url, title, summary, contentHtml, image, tags, published, updated }] }
+
+import { escapeXml } from './xml.js';
+
+function cdata(value = '') {
+  return `<![CDATA[${String(value).replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+// Resolves root-relative src/href attributes (e.g. /uploads/...) against the site URL
+export function absolutizeUrls(html, siteUrl) {
+  return html
+    .replace(/\b(src|href)="(\/[^"]*)"/g, (_match, attribute, url) => `${attribute}="${siteUrl}${url}"`)
+    .replace(/\bsrcset="([^"]*)"/g, (_match, srcset) => `srcset="${srcset.replace(/(^|,\s*)\//g, `$1${siteUrl}/`)}"`);
+}
+
+export function absoluteUrl(url, siteUrl) {
+  if (!url) return '';
+  return url.startsWith('/') ? `${siteUrl}${url}` : url;
+}
+
+// Prepends the featured image so readers without image support in the feed format still see it
+function itemHtml(item) {
+  const image = item.image ? `<p><img src="${escapeXml(item.image)}" alt="${escapeXml(item.title)}" /></p>` : '';
+  return image + item.contentHtml;
+}
+
+export function buildRssFeed(feed) {
+  const items = feed.items.map(item => `    <item>
+      <title>${escapeXml(item.title)}</title>
+      <link>${escapeXml(item.url)}</link>
+      <guid isPermaLink="false">${escapeXml(item.id)}</guid>
+      <pubDate>${item.published.toUTCString()}</pubDate>
+${item.tags.map(tag => `      <category>${escapeXml(tag)}</category>`).join('\n')}
+      <description>${escapeXml(item.summary)}</description>
+      <content:encoded>${cdata(itemHtml(item))}</content:encoded>
+    </item>`).join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/">
+  <channel>
+    <title>${escapeXml(feed.title)}</title>
+    <link>${escapeXml(feed.siteUrl)}</link>
+    <description>${escapeXml(feed.description)}</description>
+    <atom:link href="${escapeXml(feed.feedUrl)}" rel="self" type="application/rss+xml" />
+    <lastBuildDate>${feed.updated.toUTCString()}</lastBuildDate>
+${items}
+  </channel>
+</rss>
+`;
+}
+
+export function buildAtomFeed(feed) {
+  const entries = feed.items.map(item => `  <entry>
+    <title>${escapeXml(item.title)}</title>
+    <link href="${escapeXml(item.url)}" />
+    <id>${escapeXml(item.id)}</id>
+    <published>${item.published.toISOString()}</published>
+    <updated>${item.updated.toISOString()}</updated>
+${item.tags.map(tag => `    <category term="${escapeXml(tag)}" />`).join('\n')}
+    <summary>${escapeXml(item.summary)}</summary>
+    <content type="html">${escapeXml(itemHtml(item))}</content>
+  </entry>`).join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>${escapeXml(feed.title)}</title>
+  <subtitle>${escapeXml(feed.description)}</subtitle>
+  <link href="${escapeXml(feed.siteUrl)}" />
+  <link href="${escapeXml(feed.feedUrl)}" rel="self" type="application/atom+xml" />
+  <id>${escapeXml(feed.feedUrl)}</id>
+  <updated>${feed.updated.toISOString()}</updated>
+${entries}
+</feed>
+`;
+}
+
+export function buildJsonFeed(feed) {
+  return {
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    description: feed.description,
+    home_page_url: feed.siteUrl,
+    feed_url: feed.feedUrl,
+    items: feed.items.map(item => ({
+      id: item.id,
+      url: item.url,
+      title: item.title,
+      summary: item.summary,
+      content_html: item.contentHtml,
+      ...(item.image ? { image: item.image } : {}),
+      tags: item.tags,
+      date_published: item.published.toISOString(),
+      date_modified: item.updated.toISOString(),
+    })),
+  };
+}
@@ -0,0 +1,138 @@
+// Upload pipeline: keeps the original file and writes width variants in AVIF, WebP and a JPEG/PNG fallback
+// through the configured storage driver (see storage.js). Variants are encoded from raw pixels, so EXIF
+// (GPS position, camera serials...) and other metadata never reach a public URL.
+import path from 'path';
+import sharp from 'sharp';
+import {
+  IMAGE_WIDTHS,
+  IMAGE_FORMATS,
+  FALLBACK_FORMATS,
+  getVariantWidths,
+  getVariantHeight,
+  buildVariantUrl,
+} from '../src/lib/images.js';
+import { PUBLIC_PREFIX, ORIGINALS_PREFIX } from './storage.js';
+
+const ENCODER_OPTIONS = {
+  avif: { quality: 50 },
+  webp: { quality: 80 },
+  jpeg: { quality: 82, mozjpeg: true },
+  png: { compressionLevel: 9 },
+};
+
+// Longest side of the inline placeholder; it is stretched and blurred by the browser
+const PLACEHOLDER_SIZE = 16;
+
+function toHexColor({ r, g, b }) {
+  return `#${[r, g, b].map(channel => channel.toString(16).padStart(2, '0')).join('')}`;
+}
+
+// Dominant color and a tiny WebP data URI shown while the real image loads
+async function buildPlaceholder(data, raw) {
+  const { dominant } = await sharp(data, raw).stats();
+  const preview = await sharp(data, raw)
+    .resize(PLACEHOLDER_SIZE, PLACEHOLDER_SIZE, { fit: 'inside' })
+    .webp({ quality: 50 })
+    .toBuffer();
+  return {
+    dominant_color: toHexColor(dominant),
+    placeholder: `data:image/webp;base64,${preview.toString('base64')}`,
+  };
+}
+
+// Lowercase ASCII file stem, unique per upload
+function buildBaseName(originalName) {
+  const stem = path.parse(originalName || '').name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+    .slice(0, 60) || 'image';
+  return `${stem}-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+// Decodes an upload (applying the EXIF orientation tag) into the raw pixels every variant is resized from.
+// Anything sharp cannot read is rejected with a typed error, so routes can answer 400 instead of 500.
+async function decodeImage(buffer, { width, height, fit }) {
+  try {
+    const metadata = await sharp(buffer).metadata();
+    if (!metadata.width || !metadata.height) throw new Error(`No dimensions in ${metadata.format || 'unknown'} file`);
+
+    return await sharp(buffer)
+      .rotate()
+      .resize({
+        width: width || IMAGE_WIDTHS[IMAGE_WIDTHS.length - 1],
+        height,
+        fit,
+        withoutEnlargement: true,
+      })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+  } catch (cause) {
+    const error = new Error('The file is not an image that can be read', { cause });
+    throw Object.assign(error, { type: 'upload.unreadable_image' });
+  }
+}
+
+// Processes one upload into its own uploads/<name>/ directory of the storage driver and keeps the
+// untouched original under originals/. `width`/`height`/`fit` bound the largest variant (avatars use a
+// 400x400 cover crop). The image is decoded before anything is stored, and a failure part way through
+// removes what was already written.
+// Returns { url, width, height, has_alpha, dominant_color, placeholder, original_path,
+//   variants: [{ format, width, height, url }] }
+export async function processImage(buffer, originalName, { storage, width, height, fit = 'inside' }) {
+  const { data, info } = await decodeImage(buffer, { width, height, fit });
+
+  const baseName = buildBaseName(originalName);
+  const originalPath = `${baseName}${path.extname(originalName || '').toLowerCase()}`;
+  const hasAlpha = info.channels === 4;
+  const fallback = hasAlpha ? FALLBACK_FORMATS.png : FALLBACK_FORMATS.jpeg;
+  const raw = { raw: { width: info.width, height: info.height, channels: info.channels } };
+
+  try {
+    await storage.put(`${ORIGINALS_PREFIX}${originalPath}`, buffer);
+
+    const variants = [];
+    for (const variantWidth of getVariantWidths(info.width)) {
+      const variantHeight = getVariantHeight(info.width, info.height, variantWidth);
+      const resized = await sharp(data, raw).resize(variantWidth, variantHeight).raw().toBuffer();
+      const resizedRaw = { raw: { width: variantWidth, height: variantHeight, channels: info.channels } };
+
+      for (const { format, extension, type } of [...IMAGE_FORMATS, fallback]) {
+        const encoded = await sharp(resized, resizedRaw)[format](ENCODER_OPTIONS[format]).toBuffer();
+        const key = `${PUBLIC_PREFIX}${buildVariantUrl(baseName, variantWidth, variantHeight, extension)}`;
+        const url = await storage.put(key, encoded, type);
+        variants.push({ format, width: variantWidth, height: variantHeight, url });
+      }
+    }
+
+    const largest = variants.filter(variant => variant.format === fallback.format).pop();
+    return {
+      url: largest.url,
+      width: largest.width,
+      height: largest.height,
+      has_alpha: hasAlpha,
+      ...await buildPlaceholder(data, raw),
+      original_path: originalPath,
+      variants,
+    };
+  } catch (error) {
+    // Everything this upload may have written: the original and its variant directory
+    await Promise.allSettled([
+      storage.remove(`${ORIGINALS_PREFIX}${originalPath}`),
+      storage.remove(`${PUBLIC_PREFIX}${baseName}/`),
+    ]);
+    throw error;
+  }
+}
+
+// The URL prefix every file of an image shares: its variant directory, or the single file of a legacy upload
+export function getImageReference(image) {
+  return image.variants?.length ? `${path.posix.dirname(image.image_url)}/` : image.image_url;
+}
+
+// Deletes an image's variants and original from the storage driver that holds them
+export async function removeImageFiles(image, storage) {
+  const key = storage.keyFromUrl(getImageReference(image));
+  if (key) await storage.remove(key);
+  if (image.original_path) await storage.remove(`${ORIGINALS_PREFIX}${image.original_path}`);
+}
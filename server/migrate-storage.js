@@ -0,0 +1,124 @@
+// Moves uploaded files between storage drivers and rewrites the URLs stored in MongoDB to match.
+//
+//   npm run storage:migrate -- --from local --to s3 [--dry-run] [--delete-source]
+//
+// Both drivers are configured from the same environment (see env.example). Files are copied first and
+// the database is only rewritten once every copy succeeded, so an interrupted run can simply be repeated.
+import path from 'path';
+import dotenv from 'dotenv';
+import { MongoClient } from 'mongodb';
+import { createStorageFromEnv, PUBLIC_PREFIX, ORIGINALS_PREFIX } from './storage.js';
+import { escapeRegex } from './search.js';
+
+dotenv.config();
+
+const MONGODB_URI = process.env.MONGODB_URI || 'mongodb://localhost:27017';
+const DB_NAME = process.env.DB_NAME || 'blog-platform';
+
+const CONTENT_TYPES = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+};
+
+// String fields that may hold upload URLs, per collection (Markdown content included)
+const URL_FIELDS = {
+  images: ['image_url'],
+  posts: ['featured_image', 'content'],
+  post_revisions: ['featured_image', 'content'],
+  authors: ['avatar'],
+};
+
+function parseArgs(argv) {
+  const args = { dryRun: false, deleteSource: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--from') args.from = argv[++i];
+    else if (arg === '--to') args.to = argv[++i];
+    else if (arg === '--dry-run') args.dryRun = true;
+    else if (arg === '--delete-source') args.deleteSource = true;
+    else throw new Error(`Unknown argument: ${arg}`);
+  }
+  if (!args.from || !args.to) throw new Error('Usage: storage:migrate --from <local|s3> --to <local|s3> [--dry-run] [--delete-source]');
+  if (args.from === args.to) throw new Error('--from and --to must be different drivers');
+  return args;
+}
+
+// Replaces the source driver's upload URL prefix with the target's. Matching is anchored to the places a
+// URL can start (start of string, whitespace, Markdown parentheses, HTML attribute quotes, srcset commas)
+// so a relative /uploads/ prefix never matches inside some other absolute URL.
+function createUrlRewriter(fromBase, toBase) {
+  const pattern = new RegExp(`(^|[\\s("'=,])${escapeRegex(`${fromBase}/`)}`, 'g');
+  return {
+    pattern: new RegExp(escapeRegex(`${fromBase}/`)),
+    rewrite: value => (typeof value === 'string' ? value.replace(pattern, `$1${toBase}/`) : value),
+  };
+}
+
+async function copyFiles(from, to, dryRun) {
+  const keys = [...await from.list(PUBLIC_PREFIX), ...await from.list(ORIGINALS_PREFIX)];
+  console.log(`Found ${keys.length} files in ${from.name} storage`);
+
+  for (const [index, key] of keys.entries()) {
+    if (!dryRun) {
+      const contentType = CONTENT_TYPES[path.extname(key).toLowerCase()] || 'application/octet-stream';
+      await to.put(key, await from.get(key), contentType);
+    }
+    if ((index + 1) % 100 === 0) console.log(`  ${index + 1}/${keys.length}`);
+  }
+  return keys;
+}
+
+async function rewriteUrls(db, rewriter, dryRun) {
+  for (const [collection, fields] of Object.entries(URL_FIELDS)) {
+    const filter = { $or: fields.map(field => ({ [field]: { $regex: rewriter.pattern } })) };
+    const documents = await db.collection(collection).find(filter).toArray();
+
+    const operations = documents.map(document => {
+      const update = {};
+      for (const field of fields) {
+        const rewritten = rewriter.rewrite(document[field]);
+        if (rewritten !== document[field]) update[field] = rewritten;
+      }
+      if (collection === 'images' && document.variants?.length) {
+        update.variants = document.variants.map(variant => ({ ...variant, url: rewriter.rewrite(variant.url) }));
+      }
+      return { updateOne: { filter: { _id: document._id }, update: { $set: update } } };
+    });
+
+    if (operations.length && !dryRun) await db.collection(collection).bulkWrite(operations);
+    console.log(`${dryRun ? 'Would update' : 'Updated'} ${operations.length} ${collection} documents`);
+  }
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const from = createStorageFromEnv(process.env, args.from);
+  const to = createStorageFromEnv(process.env, args.to);
+  console.log(`Migrating uploads from ${from.publicBaseUrl} (${from.name}) to ${to.publicBaseUrl} (${to.name})${args.dryRun ? ' [dry run]' : ''}`);
+
+  const keys = await copyFiles(from, to, args.dryRun);
+
+  const client = new MongoClient(MONGODB_URI);
+  try {
+    await client.connect();
+    await rewriteUrls(client.db(DB_NAME), createUrlRewriter(from.publicBaseUrl, to.publicBaseUrl), args.dryRun);
+  } finally {
+    await client.close();
+  }
+
+  if (args.deleteSource && !args.dryRun) {
+    await from.remove(PUBLIC_PREFIX);
+    await from.remove(ORIGINALS_PREFIX);
+    console.log(`Deleted ${keys.length} files from ${from.name} storage`);
+  }
+  console.log('Storage migration complete');
+}
+
+main().catch(error => {
+  console.error('Storage migration failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,148 @@
+// Search query parsing, MongoDB filters and highlighted snippets for GET /api/posts
+
+const SEARCH_FIELDS = ['title', 'content', 'excerpt'];
+const SNIPPET_RADIUS = 80;
+
+export function escapeRegex(value) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Splits a query into plain terms, "quoted phrases", prefix* terms and -excluded terms
+export function parseSearchQuery(input) {
+  const parsed = { terms: [], phrases: [], prefixes: [], excluded: [] };
+  const tokenPattern = /(-?)"([^"]+)"|(-?)(\S+)/g;
+  let match;
+
+  while ((match = tokenPattern.exec(input)) !== null) {
+    if (match[2] !== undefined) {
+      const phrase = match[2].trim();
+      if (!phrase) continue;
+      (match[1] ? parsed.excluded : parsed.phrases).push(phrase);
+    } else {
+      const word = match[4].replace(/^"+|"+$/g, '');
+      if (!word) continue;
+      if (match[3]) {
+        parsed.excluded.push(word);
+      } else if (word.length > 1 && word.endsWith('*')) {
+        parsed.prefixes.push(word.slice(0, -1));
+      } else {
+        parsed.terms.push(word);
+      }
+    }
+  }
+
+  return parsed;
+}
+
+// True when the query can use the text index (and therefore has a relevance score)
+export function usesTextIndex(parsed) {
+  return parsed.terms.length > 0 || parsed.phrases.length > 0;
+}
+
+export function buildSearchFilter(parsed) {
+  const clauses = [];
+
+  if (usesTextIndex(parsed)) {
+    const search = [
+      ...parsed.terms,
+      ...parsed.phrases.map(phrase => `"${phrase.replace(/"/g, '')}"`),
+      ...parsed.excluded.map(term => (term.includes(' ') ? `-"${term}"` : `-${term}`)),
+    ].join(' ');
+    clauses.push({ $text: { $search: search } });
+  }
+
+  // The text index has no prefix matching, so prefix terms fall back to word-anchored regexes
+  parsed.prefixes.forEach(prefix => {
+    const pattern = new RegExp(`\\b${escapeRegex(prefix)}`, 'i');
+    clauses.push({ $or: SEARCH_FIELDS.map(field => ({ [field]: pattern })) });
+  });
+
+  // Exclusions only apply on their own when there is no $text clause to carry them
+  if (!usesTextIndex(parsed)) {
+    parsed.excluded.forEach(term => {
+      const pattern = new RegExp(`\\b${escapeRegex(term)}\\b`, 'i');
+      clauses.push({ $nor: SEARCH_FIELDS.map(field => ({ [field]: pattern })) });
+    });
+  }
+
+  if (clauses.length === 0) return {};
+  return clauses.length === 1 ? clauses[0] : { $and: clauses };
+}
+
+// Reduces a word to a rough stem so "databases" also highlights "database"
+function stem(word) {
+  const stemmed = word.toLowerCase().replace(/(ing|ed|es|s)$/, '');
+  return stemmed.length >= 3 ? stemmed : word.toLowerCase();
+}
+
+function buildHighlightPattern(parsed) {
+  const alternatives = [
+    ...parsed.phrases.map(phrase => escapeRegex(phrase).replace(/\s+/g, '\\s+')),
+    ...parsed.terms.map(term => `${escapeRegex(stem(term))}\\w*`),
+    ...parsed.prefixes.map(prefix => `${escapeRegex(prefix)}\\w*`),
+  ];
+  if (alternatives.length === 0) return null;
+  return new RegExp(`\\b(?:${alternatives.join('|')})`, 'gi');
+}
+
+// Strips the most common Markdown syntax so snippets read as plain text
+function markdownToPlainText(markdown) {
+  return markdown
+    .replace(/```[^\n]*\n?/g, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/[*_`~]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Builds a short excerpt around the first match, with [start, end) offsets of every highlighted match
+export function buildSnippet(post, parsed) {
+  const pattern = buildHighlightPattern(parsed);
+  if (!pattern) return null;
+
+  const sources = [post.content, post.excerpt, post.title].filter(Boolean).map(markdownToPlainText);
+  let text = sources[0] || '';
+  let firstMatch = -1;
+
+  for (const source of sources) {
+    pattern.lastIndex = 0;
+    const match = pattern.exec(source);
+    if (match) {
+      text = source;
+      firstMatch = match.index;
+      break;
+    }
+  }
+
+  let start = Math.max(0, firstMatch - SNIPPET_RADIUS);
+  let end = Math.min(text.length, Math.max(firstMatch, 0) + SNIPPET_RADIUS * 2);
+
+  // Snap the window to word boundaries
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    if (space !== -1 && space < Math.max(firstMatch, 0)) start = space + 1;
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    if (space > start) end = space;
+  }
+
+  const prefix = start > 0 ? '… ' : '';
+  const suffix = end < text.length ? ' …' : '';
+  const window = text.slice(start, end);
+
+  const highlights = [];
+  pattern.lastIndex = 0;
+  let match;
+  while ((match = pattern.exec(window)) !== null) {
+    if (match[0].length === 0) {
+      pattern.lastIndex++;
+      continue;
+    }
+    highlights.push([prefix.length + match.index, prefix.length + match.index + match[0].length]);
+  }
+
+  return { text: prefix + window + suffix, highlights };
+}
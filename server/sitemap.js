@@ -0,0 +1,42 @@
+// sitemap.xml, sitemap index and robots.txt serializers
+
+import { escapeXml } from './xml.js';
+
+// urls: [{ loc, lastmod? }]
+export function buildUrlset(urls) {
+  const entries = urls.map(url => `  <url>
+    <loc>${escapeXml(url.loc)}</loc>${url.lastmod ? `
+    <lastmod>${url.lastmod.toISOString()}</lastmod>` : ''}
+  </url>`).join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${entries}
+</urlset>
+`;
+}
+
+// sitemaps: [{ loc, lastmod? }]
+export function buildSitemapIndex(sitemaps) {
+  const entries = sitemaps.map(sitemap => `  <sitemap>
+    <loc>${escapeXml(sitemap.loc)}</loc>${sitemap.lastmod ? `
+    <lastmod>${sitemap.lastmod.toISOString()}</lastmod>` : ''}
+  </sitemap>`).join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${entries}
+</sitemapindex>
+`;
+}
+
+export function buildRobotsTxt({ sitemapUrl, disallow = [], blockAll = false }) {
+  const rules = blockAll ? ['Disallow: /'] : disallow.map(path => `Disallow: ${path}`);
+  return [
+    'User-agent: *',
+    ...(rules.length > 0 ? rules : ['Allow: /']),
+    '',
+    `Sitemap: ${sitemapUrl}`,
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,172 @@
+// Upload storage drivers. Files are addressed by keys such as uploads/<image>/640x256.webp
+// (public) and originals/<image>.jpg (private); each driver maps keys to its backend and to public URLs.
+//
+// Driver interface:
+//   put(key, body, contentType) -> public URL (null for private keys)
+//   get(key)                    -> Buffer
+//   list(prefix)                -> keys under prefix
+//   remove(key)                 -> deletes a key, or every key under it when it ends with '/'
+//   keyFromUrl(url)             -> the key behind one of this driver's public URLs, or null
+//   publicBaseUrl               -> URL prefix of public keys, e.g. /uploads or https://cdn.example.com/uploads
+//   staticRoot                  -> directory to serve publicBaseUrl from, or null when the backend serves files itself
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  ListObjectsV2Command,
+  DeleteObjectsCommand,
+} from '@aws-sdk/client-s3';
+
+export const PUBLIC_PREFIX = 'uploads/';
+export const ORIGINALS_PREFIX = 'originals/';
+
+const PROJECT_ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+// Processed uploads never change once written, so they can be cached for good
+const PUBLIC_CACHE_CONTROL = 'public, max-age=31536000, immutable';
+
+function isPublicKey(key) {
+  return key.startsWith(PUBLIC_PREFIX);
+}
+
+export function createLocalStorage({ root = PROJECT_ROOT } = {}) {
+  const resolvedRoot = path.resolve(root);
+
+  // Keys must stay inside uploads/ or originals/ so a tampered key cannot reach other files
+  const resolveKey = key => {
+    const normalized = path.posix.normalize(key);
+    if (!normalized.startsWith(PUBLIC_PREFIX) && !normalized.startsWith(ORIGINALS_PREFIX)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path.join(resolvedRoot, normalized);
+  };
+
+  const walk = async directory => {
+    const entries = await fs.readdir(directory, { withFileTypes: true }).catch(() => []);
+    const files = await Promise.all(entries.map(entry => {
+      const entryPath = path.join(directory, entry.name);
+      return entry.isDirectory() ? walk(entryPath) : [entryPath];
+    }));
+    return files.flat();
+  };
+
+  return {
+    name: 'local',
+    publicBaseUrl: '/uploads',
+    staticRoot: path.join(resolvedRoot, 'uploads'),
+
+    async put(key, body) {
+      const target = resolveKey(key);
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, body);
+      return isPublicKey(key) ? `/${key}` : null;
+    },
+
+    get(key) {
+      return fs.readFile(resolveKey(key));
+    },
+
+    async list(prefix) {
+      const files = await walk(resolveKey(prefix));
+      return files.map(file => path.relative(resolvedRoot, file).split(path.sep).join('/'));
+    },
+
+    async remove(key) {
+      await fs.rm(resolveKey(key), { recursive: true, force: true });
+    },
+
+    keyFromUrl(url) {
+      return typeof url === 'string' && url.startsWith('/uploads/') ? url.slice(1) : null;
+    },
+  };
+}
+
+// Any S3-compatible service: AWS S3, MinIO, Cloudflare R2, DigitalOcean Spaces...
+// Public reads of uploads/* must be granted by a bucket policy or a CDN in front of publicUrl.
+export function createS3Storage({ bucket, region = 'us-east-1', endpoint, forcePathStyle = false, accessKeyId, secretAccessKey, publicUrl }) {
+  if (!bucket) throw new Error('S3_BUCKET is required for the s3 storage driver');
+
+  const client = new S3Client({
+    region,
+    endpoint: endpoint || undefined,
+    forcePathStyle,
+    credentials: accessKeyId && secretAccessKey ? { accessKeyId, secretAccessKey } : undefined,
+  });
+
+  // Without an explicit public URL, fall back to the bucket's own address
+  const baseUrl = (publicUrl || (endpoint
+    ? `${endpoint.replace(/\/$/, '')}/${bucket}`
+    : `https://${bucket}.s3.${region}.amazonaws.com`)).replace(/\/$/, '');
+
+  const list = async prefix => {
+    const keys = [];
+    let ContinuationToken;
+    do {
+      const response = await client.send(new ListObjectsV2Command({ Bucket: bucket, Prefix: prefix, ContinuationToken }));
+      keys.push(...(response.Contents || []).map(object => object.Key));
+      ContinuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (ContinuationToken);
+    return keys;
+  };
+
+  return {
+    name: 's3',
+    publicBaseUrl: `${baseUrl}/uploads`,
+    staticRoot: null,
+    list,
+
+    async put(key, body, contentType) {
+      await client.send(new PutObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+        CacheControl: isPublicKey(key) ? PUBLIC_CACHE_CONTROL : undefined,
+      }));
+      return isPublicKey(key) ? `${baseUrl}/${key}` : null;
+    },
+
+    async get(key) {
+      const response = await client.send(new GetObjectCommand({ Bucket: bucket, Key: key }));
+      return Buffer.from(await response.Body.transformToByteArray());
+    },
+
+    async remove(key) {
+      const keys = key.endsWith('/') ? await list(key) : [key];
+      // DeleteObjects accepts at most 1000 keys per request
+      for (let start = 0; start < keys.length; start += 1000) {
+        await client.send(new DeleteObjectsCommand({
+          Bucket: bucket,
+          Delete: { Objects: keys.slice(start, start + 1000).map(Key => ({ Key })), Quiet: true },
+        }));
+      }
+    },
+
+    keyFromUrl(url) {
+      return typeof url === 'string' && url.startsWith(`${baseUrl}/${PUBLIC_PREFIX}`) ? url.slice(baseUrl.length + 1) : null;
+    },
+  };
+}
+
+// Builds a driver from environment variables; `driver` overrides STORAGE_DRIVER (used by the migration command)
+export function createStorageFromEnv(env = process.env, driver = env.STORAGE_DRIVER || 'local') {
+  switch (driver) {
+    case 'local':
+      return createLocalStorage({ root: env.STORAGE_LOCAL_ROOT || PROJECT_ROOT });
+    case 's3':
+      return createS3Storage({
+        bucket: env.S3_BUCKET,
+        region: env.S3_REGION,
+        endpoint: env.S3_ENDPOINT,
+        forcePathStyle: env.S3_FORCE_PATH_STYLE === 'true',
+        accessKeyId: env.S3_ACCESS_KEY_ID,
+        secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+        publicUrl: env.S3_PUBLIC_URL,
+      });
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}" (expected local or s3)`);
+  }
+}
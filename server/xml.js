@@ -0,0 +1,10 @@
+// Helpers shared by the XML serializers (feeds.js, sitemap.js)
+
+export function escapeXml(value = '') {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -3,8 +3,9 @@ import { BlogAPI } from './lib/api';
 import { HomePage } from './pages/HomePage';
 import { PostPage } from './pages/PostPage';
 import { AdminPage } from './pages/AdminPage';
+import { AuthorPage } from './pages/AuthorPage';
 
-type View = 'home' | 'post' | 'admin';
+type View = 'home' | 'post' | 'admin' | 'author';
 
 function App() {
   const [currentView, setCurrentView] = useState<View>('home');
@@ -29,7 +30,7 @@ function App() {
   // Simple client-side routing
   useEffect(() => {
     const handleHashChange = () => {
-      const hash = window.location.hash.slice(1); // Remove the '#'
+      const [hash] = window.location.hash.slice(1).split('#'); // Remove the '#' and any #section suffix
       
       if (hash === '' || hash === '/') {
         setCurrentView('home');
@@ -39,6 +40,10 @@ function App() {
         const slug = hash.replace('/post/', '');
         setCurrentSlug(slug);
         setCurrentView('post');
+      } else if (hash.startsWith('/author/')) {
+        const slug = hash.replace('/author/', '');
+        setCurrentSlug(slug);
+        setCurrentView('author');
       } else {
         setCurrentView('home');
       }
@@ -87,6 +92,16 @@ function App() {
       return (
         <PostPage 
           slug={currentSlug} 
+          previewToken={new URLSearchParams(window.location.search).get('preview') || undefined}
+          onBackClick={navigateToHome}
+          onPostClick={navigateToPost}
+        />
+      );
+    case 'author':
+      return (
+        <AuthorPage
+          slug={currentSlug}
+          onPostClick={navigateToPost}
           onBackClick={navigateToHome}
         />
       );
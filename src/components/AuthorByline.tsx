@@ -0,0 +1,28 @@
+import { User } from 'lucide-react';
+import type { AuthorSummary } from '../lib/api';
+
+interface AuthorBylineProps {
+  author: AuthorSummary;
+  size?: 'sm' | 'md';
+}
+
+export function AuthorByline({ author, size = 'sm' }: AuthorBylineProps) {
+  const avatarClasses = size === 'sm' ? 'w-7 h-7' : 'w-10 h-10';
+
+  return (
+    <a
+      href={`#/author/${author.slug}`}
+      onClick={(e) => e.stopPropagation()}
+      className="inline-flex items-center gap-2 text-gray-700 hover:text-blue-600 transition-colors duration-300 font-medium"
+    >
+      {author.avatar ? (
+        <img src={author.avatar} alt={author.name} className={`${avatarClasses} rounded-full object-cover`} />
+      ) : (
+        <span className={`${avatarClasses} rounded-full bg-blue-100 text-blue-600 flex items-center justify-center`}>
+          <User className="w-4 h-4" />
+        </span>
+      )}
+      <span>{author.name}</span>
+    </a>
+  );
+}
@@ -0,0 +1,224 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Edit, Trash2, Save, Upload, User } from 'lucide-react';
+import { LoadingSpinner } from './LoadingSpinner';
+import { BlogAPI, errorMessage, type Author, type AuthorSocialNetwork } from '../lib/api';
+
+interface AuthorManagerProps {
+  canDelete: boolean;
+}
+
+interface AuthorFormData {
+  _id?: string;
+  name: string;
+  bio: string;
+  social_links: Partial<Record<AuthorSocialNetwork, string>>;
+}
+
+const SOCIAL_NETWORKS: { key: AuthorSocialNetwork; label: string }[] = [
+  { key: 'website', label: 'Website' },
+  { key: 'twitter', label: 'Twitter' },
+  { key: 'github', label: 'GitHub' },
+  { key: 'linkedin', label: 'LinkedIn' },
+  { key: 'mastodon', label: 'Mastodon' },
+];
+
+const emptyForm: AuthorFormData = { name: '', bio: '', social_links: {} };
+
+export function AuthorManager({ canDelete }: AuthorManagerProps) {
+  const [authors, setAuthors] = useState<Author[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [formData, setFormData] = useState<AuthorFormData | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [uploadingId, setUploadingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchAuthors = async () => {
+      setLoading(true);
+      setAuthors(await BlogAPI.getAuthors());
+      setLoading(false);
+    };
+
+    fetchAuthors();
+  }, []);
+
+  const handleSave = async () => {
+    if (!formData) return;
+    try {
+      setSaving(true);
+      const saved = await BlogAPI.saveAuthor(formData);
+      setAuthors(formData._id
+        ? authors.map(a => (a._id === saved._id ? saved : a))
+        : [...authors, saved].sort((a, b) => a.name.localeCompare(b.name)));
+      setFormData(null);
+      setError(null);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to save author'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAvatarUpload = async (authorId: string, event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setUploadingId(authorId);
+      const updated = await BlogAPI.uploadAuthorAvatar(authorId, file);
+      setAuthors(authors.map(a => (a._id === updated._id ? updated : a)));
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to upload avatar'));
+    } finally {
+      setUploadingId(null);
+      event.target.value = '';
+    }
+  };
+
+  const handleDelete = async (author: Author) => {
+    if (!window.confirm(`Delete ${author.name}? Their posts will no longer be attributed to anyone.`)) return;
+    try {
+      await BlogAPI.deleteAuthor(author._id);
+      setAuthors(authors.filter(a => a._id !== author._id));
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to delete author'));
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-20">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-xl p-4 text-red-600">{error}</div>
+      )}
+
+      {formData ? (
+        <div className="bg-white/90 backdrop-blur-md rounded-2xl shadow-lg border border-white/20 p-6 space-y-4">
+          <h3 className="text-lg font-semibold text-gray-900">{formData._id ? 'Edit Author' : 'New Author'}</h3>
+          <input
+            type="text"
+            value={formData.name}
+            onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+            placeholder="Name *"
+            className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+          />
+          <textarea
+            value={formData.bio}
+            onChange={(e) => setFormData({ ...formData, bio: e.target.value })}
+            placeholder="Short bio"
+            rows={3}
+            className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+          />
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {SOCIAL_NETWORKS.map(({ key, label }) => (
+              <input
+                key={key}
+                type="url"
+                value={formData.social_links[key] || ''}
+                onChange={(e) => setFormData({ ...formData, social_links: { ...formData.social_links, [key]: e.target.value } })}
+                placeholder={`${label} URL`}
+                className="px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+              />
+            ))}
+          </div>
+          <div className="flex justify-end gap-3">
+            <button
+              onClick={() => setFormData(null)}
+              className="px-4 py-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-xl transition-all duration-200 font-medium"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving || !formData.name.trim()}
+              className="flex items-center gap-2 px-6 py-2 bg-gradient-primary text-white rounded-xl hover:shadow-xl transition-all duration-300 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? <LoadingSpinner size="sm" /> : <Save className="w-4 h-4" />}
+              <span>{saving ? 'Saving...' : 'Save Author'}</span>
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex justify-end">
+          <button
+            onClick={() => setFormData({ ...emptyForm })}
+            className="flex items-center gap-2 px-5 py-2.5 bg-gradient-primary text-white rounded-xl hover:shadow-xl transition-all duration-300 font-medium"
+          >
+            <Plus className="w-4 h-4" />
+            New Author
+          </button>
+        </div>
+      )}
+
+      {authors.length === 0 ? (
+        <div className="text-center py-20">
+          <User className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-600">No authors yet.</p>
+        </div>
+      ) : (
+        <ul className="space-y-4">
+          {authors.map(author => (
+            <li
+              key={author._id}
+              className="bg-white/90 backdrop-blur-md rounded-2xl shadow-lg border border-white/20 p-6 flex items-center gap-4"
+            >
+              {author.avatar ? (
+                <img src={author.avatar} alt={author.name} className="w-14 h-14 rounded-full object-cover" />
+              ) : (
+                <div className="w-14 h-14 rounded-full bg-blue-100 text-blue-600 flex items-center justify-center">
+                  <User className="w-6 h-6" />
+                </div>
+              )}
+              <div className="flex-1 min-w-0">
+                <a href={`#/author/${author.slug}`} target="_blank" className="font-semibold text-gray-900 hover:text-blue-600">
+                  {author.name}
+                </a>
+                {author.bio && <p className="text-sm text-gray-500 truncate">{author.bio}</p>}
+              </div>
+              <label
+                title="Upload avatar"
+                className="p-2 text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors duration-200 cursor-pointer"
+              >
+                {uploadingId === author._id ? <LoadingSpinner size="sm" /> : <Upload className="w-5 h-5" />}
+                <input
+                  type="file"
+                  accept="image/*"
+                  onChange={(e) => handleAvatarUpload(author._id, e)}
+                  className="hidden"
+                />
+              </label>
+              <button
+                onClick={() => setFormData({
+                  _id: author._id,
+                  name: author.name,
+                  bio: author.bio || '',
+                  social_links: author.social_links || {},
+                })}
+                title="Edit author"
+                className="p-2 text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors duration-200"
+              >
+                <Edit className="w-5 h-5" />
+              </button>
+              {canDelete && (
+                <button
+                  onClick={() => handleDelete(author)}
+                  title="Delete author"
+                  className="p-2 text-gray-600 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors duration-200"
+                >
+                  <Trash2 className="w-5 h-5" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import { useState, useEffect } from 'react';
+import { Check, AlertTriangle } from 'lucide-react';
+
+interface AutosaveStatusProps {
+  savedAt: string | null;
+  error: string | null;
+}
+
+function formatSavedAgo(savedAt: string, now: number) {
+  const seconds = Math.max(0, Math.round((now - Date.parse(savedAt)) / 1000));
+  if (seconds < 5) return 'Draft saved just now';
+  if (seconds < 60) return `Draft saved ${seconds} seconds ago`;
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `Draft saved ${minutes} minute${minutes === 1 ? '' : 's'} ago`;
+  return `Draft saved at ${new Date(savedAt).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}`;
+}
+
+export function AutosaveStatus({ savedAt, error }: AutosaveStatusProps) {
+  const [now, setNow] = useState(Date.now());
+
+  // Keep the relative time current
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 5000);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (error) {
+    return (
+      <span className="flex items-center gap-1.5 text-sm text-amber-600" title={error}>
+        <AlertTriangle className="w-4 h-4" />
+        {savedAt ? `${formatSavedAgo(savedAt, now)} on this device` : error}
+      </span>
+    );
+  }
+
+  if (!savedAt) return null;
+
+  return (
+    <span className="flex items-center gap-1.5 text-sm text-gray-500">
+      <Check className="w-4 h-4 text-green-600" />
+      {formatSavedAgo(savedAt, now)}
+    </span>
+  );
+}
@@ -1,5 +1,8 @@
 import React from 'react';
-import { Calendar, Clock, Tag } from 'lucide-react';
+import { Calendar, Clock, Tag, MessageCircle } from 'lucide-react';
+import { SearchSnippet } from './SearchSnippet';
+import { AuthorByline } from './AuthorByline';
+import { ResponsiveImage } from './ResponsiveImage';
 import type { BlogPost } from '../lib/api';
 
 interface BlogCardProps {
@@ -25,9 +28,11 @@ export function BlogCard({ post, onClick }: BlogCardProps) {
     >
       {post.featured_image && (
         <div className="aspect-video overflow-hidden relative">
-          <img 
-            src={post.featured_image} 
+          <ResponsiveImage
+            src={post.featured_image}
             alt={post.title}
+            sizes="(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw"
+            placeholder={post.featured_image_meta}
             className="w-full h-full object-cover group-hover:scale-110 transition-transform duration-700 ease-out"
           />
           <div className="absolute inset-0 bg-gradient-to-t from-black/20 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300" />
@@ -46,18 +51,35 @@ export function BlogCard({ post, onClick }: BlogCardProps) {
             <Clock className="w-4 h-4 group-hover:animate-pulse" />
             <span>{readingTime} min read</span>
           </div>
+          {post.comment_count !== undefined && post.comment_count > 0 && (
+            <div className="flex items-center gap-2 group-hover:text-blue-600 transition-colors duration-300">
+              <MessageCircle className="w-4 h-4 group-hover:animate-pulse" />
+              <span>{post.comment_count}</span>
+            </div>
+          )}
         </div>
 
         <h2 className="text-2xl font-bold text-gray-900 mb-4 group-hover:text-blue-600 transition-colors duration-300 line-clamp-2 leading-tight">
           {post.title}
         </h2>
 
-        {post.excerpt && (
+        {post.search_snippet ? (
+          <SearchSnippet
+            snippet={post.search_snippet}
+            className="text-gray-600 mb-6 line-clamp-3 leading-relaxed text-base"
+          />
+        ) : post.excerpt && (
           <p className="text-gray-600 mb-6 line-clamp-3 leading-relaxed text-base">
             {post.excerpt}
           </p>
         )}
 
+        {post.author && (
+          <div className="mb-6">
+            <AuthorByline author={post.author} />
+          </div>
+        )}
+
         {post.tags && post.tags.length > 0 && (
           <div className="flex items-center gap-3 flex-wrap">
             <Tag className="w-4 h-4 text-gray-400 group-hover:text-blue-500 transition-colors duration-300" />
@@ -0,0 +1,176 @@
+import { useState, useEffect } from 'react';
+import { Plus, Edit, Trash2, Save, Folder } from 'lucide-react';
+import { LoadingSpinner } from './LoadingSpinner';
+import { BlogAPI, errorMessage, type Category } from '../lib/api';
+import { flattenCategoryTree, getDescendantIds } from '../lib/categories';
+
+interface CategoryFormData {
+  _id?: string;
+  name: string;
+  description: string;
+  parent_id: string;
+}
+
+const emptyForm: CategoryFormData = { name: '', description: '', parent_id: '' };
+
+export function CategoryManager() {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [formData, setFormData] = useState<CategoryFormData | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fetchCategories = async () => {
+    setLoading(true);
+    setCategories(await BlogAPI.getCategories());
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchCategories();
+  }, []);
+
+  const handleSave = async () => {
+    if (!formData) return;
+    try {
+      setSaving(true);
+      await BlogAPI.saveCategory({ ...formData, parent_id: formData.parent_id || null });
+      setFormData(null);
+      setError(null);
+      await fetchCategories();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to save category'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (category: Category) => {
+    if (!window.confirm(`Delete ${category.name}? Subcategories move up a level and its posts become uncategorized.`)) return;
+    try {
+      await BlogAPI.deleteCategory(category._id);
+      await fetchCategories();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to delete category'));
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-20">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  const tree = flattenCategoryTree(categories);
+  // A category cannot be nested under itself or one of its descendants
+  const excludedParents = formData?._id ? getDescendantIds(categories, formData._id) : new Set<string>();
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-xl p-4 text-red-600">{error}</div>
+      )}
+
+      {formData ? (
+        <div className="bg-white/90 backdrop-blur-md rounded-2xl shadow-lg border border-white/20 p-6 space-y-4">
+          <h3 className="text-lg font-semibold text-gray-900">{formData._id ? 'Edit Category' : 'New Category'}</h3>
+          <input
+            type="text"
+            value={formData.name}
+            onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+            placeholder="Name *"
+            className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+          />
+          <textarea
+            value={formData.description}
+            onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+            placeholder="Description"
+            rows={2}
+            className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+          />
+          <select
+            value={formData.parent_id}
+            onChange={(e) => setFormData({ ...formData, parent_id: e.target.value })}
+            className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+          >
+            <option value="">No parent (top level)</option>
+            {tree
+              .filter(({ category }) => !excludedParents.has(category._id))
+              .map(({ category, depth }) => (
+                <option key={category._id} value={category._id}>
+                  {'\u00A0\u00A0'.repeat(depth)}{category.name}
+                </option>
+              ))}
+          </select>
+          <div className="flex justify-end gap-3">
+            <button
+              onClick={() => setFormData(null)}
+              className="px-4 py-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-xl transition-all duration-200 font-medium"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving || !formData.name.trim()}
+              className="flex items-center gap-2 px-6 py-2 bg-gradient-primary text-white rounded-xl hover:shadow-xl transition-all duration-300 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? <LoadingSpinner size="sm" /> : <Save className="w-4 h-4" />}
+              <span>{saving ? 'Saving...' : 'Save Category'}</span>
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex justify-end">
+          <button
+            onClick={() => setFormData({ ...emptyForm })}
+            className="flex items-center gap-2 px-5 py-2.5 bg-gradient-primary text-white rounded-xl hover:shadow-xl transition-all duration-300 font-medium"
+          >
+            <Plus className="w-4 h-4" />
+            New Category
+          </button>
+        </div>
+      )}
+
+      {tree.length === 0 ? (
+        <div className="text-center py-20">
+          <Folder className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-600">No categories yet.</p>
+        </div>
+      ) : (
+        <ul className="bg-white/90 backdrop-blur-md rounded-2xl shadow-lg border border-white/20 divide-y divide-gray-100">
+          {tree.map(({ category, depth }) => (
+            <li key={category._id} className="flex items-center gap-4 px-6 py-4" style={{ paddingLeft: `${1.5 + depth * 1.5}rem` }}>
+              <Folder className="w-5 h-5 text-blue-500" />
+              <div className="flex-1 min-w-0">
+                <span className="font-semibold text-gray-900">{category.name}</span>
+                <span className="ml-2 text-sm text-gray-500">{category.post_count || 0} posts</span>
+                {category.description && <p className="text-sm text-gray-500 truncate">{category.description}</p>}
+              </div>
+              <button
+                onClick={() => setFormData({
+                  _id: category._id,
+                  name: category.name,
+                  description: category.description || '',
+                  parent_id: category.parent_id || '',
+                })}
+                title="Edit category"
+                className="p-2 text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors duration-200"
+              >
+                <Edit className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => handleDelete(category)}
+                title="Delete category"
+                className="p-2 text-gray-600 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors duration-200"
+              >
+                <Trash2 className="w-5 h-5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
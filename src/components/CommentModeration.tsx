@@ -0,0 +1,217 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Check, X, ShieldAlert, Trash2, MessageCircle } from 'lucide-react';
+import { LoadingSpinner } from './LoadingSpinner';
+import { Pagination } from './Pagination';
+import { BlogAPI, errorMessage, type CommentStatus, type ModerationCommentsResponse } from '../lib/api';
+import { renderCommentMarkdown } from '../lib/markdown';
+
+type StatusFilter = CommentStatus | 'all';
+type ModerationAction = CommentStatus | 'delete';
+
+const STATUS_FILTERS: { value: StatusFilter; label: string }[] = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'rejected', label: 'Rejected' },
+  { value: 'spam', label: 'Spam' },
+  { value: 'all', label: 'All' },
+];
+
+const statusStyles: Record<CommentStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-gray-100 text-gray-700',
+  spam: 'bg-red-100 text-red-800',
+};
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+export function CommentModeration() {
+  const [status, setStatus] = useState<StatusFilter>('pending');
+  const [page, setPage] = useState(1);
+  const [data, setData] = useState<ModerationCommentsResponse | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchComments = useCallback(async () => {
+    try {
+      setLoading(true);
+      setData(await BlogAPI.getModerationComments(status, page));
+      setSelected([]);
+      setError(null);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to load comments'));
+    } finally {
+      setLoading(false);
+    }
+  }, [status, page]);
+
+  useEffect(() => {
+    fetchComments();
+  }, [fetchComments]);
+
+  const applyAction = async (ids: string[], action: ModerationAction) => {
+    if (ids.length === 0) return;
+    if (action === 'delete' && !window.confirm(`Delete ${ids.length} comment${ids.length > 1 ? 's' : ''}?`)) return;
+
+    try {
+      setWorking(true);
+      await BlogAPI.moderateComments(ids, action);
+      await fetchComments();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to moderate comments'));
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const comments = data?.comments || [];
+  const allSelected = comments.length > 0 && selected.length === comments.length;
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => (prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]));
+  };
+
+  const actionButtons: { action: ModerationAction; label: string; icon: typeof Check; className: string }[] = [
+    { action: 'approved', label: 'Approve', icon: Check, className: 'text-green-700 hover:bg-green-50' },
+    { action: 'rejected', label: 'Reject', icon: X, className: 'text-gray-700 hover:bg-gray-100' },
+    { action: 'spam', label: 'Spam', icon: ShieldAlert, className: 'text-orange-700 hover:bg-orange-50' },
+    { action: 'delete', label: 'Delete', icon: Trash2, className: 'text-red-700 hover:bg-red-50' },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex flex-wrap gap-2">
+          {STATUS_FILTERS.map(filter => (
+            <button
+              key={filter.value}
+              onClick={() => {
+                setStatus(filter.value);
+                setPage(1);
+              }}
+              className={`px-4 py-2 rounded-xl text-sm font-medium transition-all duration-200 ${
+                status === filter.value ? 'bg-blue-100 text-blue-700 shadow-md' : 'text-gray-600 hover:text-blue-600 hover:bg-blue-50'
+              }`}
+            >
+              {filter.label}
+            </button>
+          ))}
+        </div>
+
+        {selected.length > 0 && (
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-gray-600">{selected.length} selected</span>
+            {actionButtons.map(({ action, label, icon: Icon, className }) => (
+              <button
+                key={action}
+                onClick={() => applyAction(selected, action)}
+                disabled={working}
+                className={`flex items-center gap-1 px-3 py-2 rounded-lg text-sm font-medium transition-colors duration-200 disabled:opacity-50 ${className}`}
+              >
+                <Icon className="w-4 h-4" />
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-xl p-4 text-red-600">{error}</div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-20">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : comments.length === 0 ? (
+        <div className="text-center py-20">
+          <MessageCircle className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-600">No comments to show.</p>
+        </div>
+      ) : (
+        <>
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={allSelected}
+              onChange={() => setSelected(allSelected ? [] : comments.map(c => c._id))}
+              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            />
+            Select all on this page
+          </label>
+
+          <ul className="space-y-4">
+            {comments.map(comment => (
+              <li
+                key={comment._id}
+                className="bg-white/90 backdrop-blur-md rounded-2xl shadow-lg border border-white/20 p-6 flex gap-4"
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.includes(comment._id)}
+                  onChange={() => toggleSelected(comment._id)}
+                  className="mt-1 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="flex flex-wrap items-center gap-3 mb-2">
+                    <span className="font-semibold text-gray-900">{comment.author_name}</span>
+                    {comment.author_email && <span className="text-sm text-gray-500">{comment.author_email}</span>}
+                    <span className={`px-3 py-1 rounded-full text-xs font-medium capitalize ${statusStyles[comment.status]}`}>
+                      {comment.status}
+                    </span>
+                    {comment.parent_id && <span className="text-xs text-gray-500">Reply</span>}
+                  </div>
+                  <p className="text-sm text-gray-500 mb-3">
+                    {formatDate(comment.created_at)}
+                    {comment.post && (
+                      <>
+                        {' on '}
+                        <a href={`#/post/${comment.post.slug}`} target="_blank" className="text-blue-600 hover:underline">
+                          {comment.post.title}
+                        </a>
+                      </>
+                    )}
+                  </p>
+                  <div
+                    className="text-gray-700 leading-relaxed space-y-2"
+                    dangerouslySetInnerHTML={{ __html: renderCommentMarkdown(comment.content) }}
+                  />
+                </div>
+                <div className="flex flex-col gap-1">
+                  {actionButtons
+                    .filter(({ action }) => action !== comment.status)
+                    .map(({ action, label, icon: Icon, className }) => (
+                      <button
+                        key={action}
+                        onClick={() => applyAction([comment._id], action)}
+                        disabled={working}
+                        title={label}
+                        className={`p-2 rounded-lg transition-colors duration-200 disabled:opacity-50 ${className}`}
+                      >
+                        <Icon className="w-5 h-5" />
+                      </button>
+                    ))}
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          {data && (
+            <Pagination currentPage={data.page} totalPages={data.totalPages} onPageChange={setPage} />
+          )}
+        </>
+      )}
+    </div>
+  );
+}
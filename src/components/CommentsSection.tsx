@@ -0,0 +1,264 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { MessageCircle, Reply, Send } from 'lucide-react';
+import { LoadingSpinner } from './LoadingSpinner';
+import { BlogAPI, errorMessage, type BlogComment } from '../lib/api';
+import { renderCommentMarkdown } from '../lib/markdown';
+
+interface CommentsSectionProps {
+  postId: string;
+  // From a shared preview link, for posts that are not public yet
+  previewToken?: string;
+}
+
+interface CommentNode extends BlogComment {
+  replies: CommentNode[];
+}
+
+// Builds the reply tree from the flat, oldest-first list the API returns
+function buildCommentTree(comments: BlogComment[]): CommentNode[] {
+  const nodes = new Map<string, CommentNode>();
+  comments.forEach(comment => nodes.set(comment._id, { ...comment, replies: [] }));
+
+  const roots: CommentNode[] = [];
+  nodes.forEach(node => {
+    const parent = node.parent_id ? nodes.get(node.parent_id) : undefined;
+    if (parent) {
+      parent.replies.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+  return roots;
+}
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  });
+};
+
+interface CommentFormProps {
+  postId: string;
+  parentId?: string;
+  onSubmitted: () => void;
+  onCancel?: () => void;
+}
+
+function CommentForm({ postId, parentId, onSubmitted, onCancel }: CommentFormProps) {
+  const [authorName, setAuthorName] = useState('');
+  const [authorEmail, setAuthorEmail] = useState('');
+  const [content, setContent] = useState('');
+  const [website, setWebsite] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      setSubmitting(true);
+      setError(null);
+      await BlogAPI.submitComment(postId, {
+        author_name: authorName,
+        author_email: authorEmail,
+        content,
+        parent_id: parentId || null,
+        website,
+      });
+      setContent('');
+      onSubmitted();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to submit comment'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-xl p-3 text-red-600 text-sm">{error}</div>
+      )}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <input
+          type="text"
+          value={authorName}
+          onChange={(e) => setAuthorName(e.target.value)}
+          placeholder="Your name *"
+          maxLength={100}
+          required
+          className="px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+        />
+        <input
+          type="email"
+          value={authorEmail}
+          onChange={(e) => setAuthorEmail(e.target.value)}
+          placeholder="Email (not published)"
+          className="px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+        />
+      </div>
+      {/* Honeypot field, hidden from readers */}
+      <input
+        type="text"
+        value={website}
+        onChange={(e) => setWebsite(e.target.value)}
+        tabIndex={-1}
+        autoComplete="off"
+        aria-hidden="true"
+        className="hidden"
+      />
+      <textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        placeholder="Share your thoughts... (**bold**, *italic*, `code` and [links](https://...) are supported)"
+        rows={4}
+        maxLength={5000}
+        required
+        className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+      />
+      <div className="flex justify-end gap-3">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-xl transition-all duration-200 font-medium"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={submitting || !authorName.trim() || !content.trim()}
+          className="flex items-center gap-2 px-6 py-2 bg-gradient-primary text-white rounded-xl hover:shadow-xl transition-all duration-300 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {submitting ? <LoadingSpinner size="sm" /> : <Send className="w-4 h-4" />}
+          <span>{submitting ? 'Sending...' : parentId ? 'Reply' : 'Post Comment'}</span>
+        </button>
+      </div>
+    </form>
+  );
+}
+
+interface CommentItemProps {
+  comment: CommentNode;
+  postId: string;
+  replyingTo: string | null;
+  onReply: (commentId: string | null) => void;
+  onSubmitted: () => void;
+}
+
+function CommentItem({ comment, postId, replyingTo, onReply, onSubmitted }: CommentItemProps) {
+  return (
+    <li className="space-y-4">
+      <div className="bg-white/80 rounded-2xl border border-gray-100 p-5">
+        <div className="flex items-center justify-between mb-2">
+          <span className="font-semibold text-gray-900">{comment.author_name}</span>
+          <time dateTime={comment.created_at} className="text-sm text-gray-500">
+            {formatDate(comment.created_at)}
+          </time>
+        </div>
+        <div
+          className="text-gray-700 leading-relaxed space-y-2"
+          dangerouslySetInnerHTML={{ __html: renderCommentMarkdown(comment.content) }}
+        />
+        <button
+          onClick={() => onReply(replyingTo === comment._id ? null : comment._id)}
+          className="mt-3 flex items-center gap-1 text-sm text-gray-500 hover:text-blue-600 transition-colors duration-200"
+        >
+          <Reply className="w-4 h-4" />
+          Reply
+        </button>
+      </div>
+
+      {replyingTo === comment._id && (
+        <div className="ml-6">
+          <CommentForm
+            postId={postId}
+            parentId={comment._id}
+            onSubmitted={onSubmitted}
+            onCancel={() => onReply(null)}
+          />
+        </div>
+      )}
+
+      {comment.replies.length > 0 && (
+        <ul className="ml-6 pl-4 border-l-2 border-blue-100 space-y-4">
+          {comment.replies.map(reply => (
+            <CommentItem
+              key={reply._id}
+              comment={reply}
+              postId={postId}
+              replyingTo={replyingTo}
+              onReply={onReply}
+              onSubmitted={onSubmitted}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+export function CommentsSection({ postId, previewToken }: CommentsSectionProps) {
+  const [comments, setComments] = useState<BlogComment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [submitted, setSubmitted] = useState(false);
+
+  useEffect(() => {
+    const fetchComments = async () => {
+      setLoading(true);
+      setComments(await BlogAPI.getComments(postId, previewToken));
+      setLoading(false);
+    };
+
+    fetchComments();
+  }, [postId, previewToken]);
+
+  const tree = useMemo(() => buildCommentTree(comments), [comments]);
+
+  const handleSubmitted = () => {
+    setReplyingTo(null);
+    setSubmitted(true);
+  };
+
+  return (
+    <section className="mt-12 bg-white/90 backdrop-blur-md rounded-3xl shadow-2xl border border-white/20 px-8 py-10 sm:px-12 animate-fadeInUp">
+      <h2 className="flex items-center gap-3 text-2xl font-bold text-gray-900 mb-8">
+        <MessageCircle className="w-6 h-6 text-blue-500" />
+        Comments {comments.length > 0 && <span className="text-gray-400 font-medium">({comments.length})</span>}
+      </h2>
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <LoadingSpinner size="md" />
+        </div>
+      ) : tree.length > 0 ? (
+        <ul className="space-y-6 mb-10">
+          {tree.map(comment => (
+            <CommentItem
+              key={comment._id}
+              comment={comment}
+              postId={postId}
+              replyingTo={replyingTo}
+              onReply={setReplyingTo}
+              onSubmitted={handleSubmitted}
+            />
+          ))}
+        </ul>
+      ) : (
+        <p className="text-gray-500 mb-10">No comments yet. Be the first to share your thoughts!</p>
+      )}
+
+      {submitted && (
+        <div className="bg-green-50 border border-green-200 rounded-xl p-4 text-green-700 mb-6">
+          Thanks! Your comment is awaiting moderation and will appear once approved.
+        </div>
+      )}
+
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">Leave a comment</h3>
+      <CommentForm postId={postId} onSubmitted={handleSubmitted} />
+    </section>
+  );
+}
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { ArrowLeft, Lock, LogIn } from 'lucide-react';
+import { LoadingSpinner } from './LoadingSpinner';
+import { BlogAPI, errorMessage, type AuthUser } from '../lib/api';
+
+interface LoginFormProps {
+  onLogin: (user: AuthUser) => void;
+  onBackClick: () => void;
+}
+
+export function LoginForm({ onLogin, onBackClick }: LoginFormProps) {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      setSubmitting(true);
+      setError(null);
+      const user = await BlogAPI.login(email, password);
+      onLogin(user);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to log in'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 flex items-center justify-center px-4">
+      <div className="w-full max-w-md animate-fadeInUp">
+        <button
+          onClick={onBackClick}
+          className="flex items-center space-x-2 text-gray-600 hover:text-blue-600 transition-all duration-300 font-medium mb-6"
+        >
+          <ArrowLeft className="w-5 h-5" />
+          <span>Back to Blog</span>
+        </button>
+
+        <form
+          onSubmit={handleSubmit}
+          className="bg-white/90 backdrop-blur-md rounded-2xl shadow-2xl border border-white/20 p-8 space-y-6"
+        >
+          <div className="text-center">
+            <div className="bg-gradient-primary p-3 rounded-xl shadow-lg inline-flex mb-4">
+              <Lock className="w-7 h-7 text-white" />
+            </div>
+            <h1 className="text-2xl font-bold text-gray-900">Admin Sign In</h1>
+            <p className="text-gray-600 mt-1">Sign in to manage blog content</p>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-xl p-4 text-red-600 text-sm">
+              {error}
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="login-email" className="block text-sm font-medium text-gray-700 mb-2">
+              Email
+            </label>
+            <input
+              id="login-email"
+              type="email"
+              autoComplete="username"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+              required
+            />
+          </div>
+
+          <div>
+            <label htmlFor="login-password" className="block text-sm font-medium text-gray-700 mb-2">
+              Password
+            </label>
+            <input
+              id="login-password"
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+              required
+            />
+          </div>
+
+          <button
+            type="submit"
+            disabled={submitting || !email || !password}
+            className="w-full flex items-center justify-center space-x-2 px-6 py-3 bg-gradient-primary text-white rounded-xl hover:shadow-xl transition-all duration-300 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {submitting ? <LoadingSpinner size="sm" /> : <LogIn className="w-5 h-5" />}
+            <span>{submitting ? 'Signing in...' : 'Sign In'}</span>
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -1,17 +1,45 @@
-import React, { useState } from 'react';
-import { Eye, CreditCard as Edit, Image, Bold, Italic, Code, List, Hash } from 'lucide-react';
+import React, { useState, useRef } from 'react';
+import { Eye, CreditCard as Edit, Image, Bold, Italic, Code, List, Hash, Strikethrough, ListChecks, Table, Superscript, Info, AlertTriangle, Images, Upload, X } from 'lucide-react';
+import { MarkdownRenderer } from './MarkdownRenderer';
+import { MediaPicker } from './MediaPicker';
+import { errorMessage, type MediaImage } from '../lib/api';
 
 interface MarkdownEditorProps {
   value: string;
   onChange: (value: string) => void;
   placeholder?: string;
+  // Adds a toolbar button for inserting images from the media library
+  mediaLibrary?: boolean;
+  // Enables dropping and pasting image files into the editor; resolves with the uploaded image
+  onUploadImage?: (file: File, altText: string, onProgress: (progress: number) => void) => Promise<MediaImage>;
 }
 
-export function MarkdownEditor({ value, onChange, placeholder = "Write your content here..." }: MarkdownEditorProps) {
+// "holiday-photo_2.jpg" -> "holiday photo 2"
+function altTextFromFileName(fileName: string) {
+  return fileName.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ').replace(/[[\]()]/g, '').trim() || 'image';
+}
+
+// Stands in for an image while it uploads; the id in the URL part finds it again after edits around it
+function uploadToken(id: number, fileName: string, progress: number) {
+  return `![Uploading ${fileName.replace(/[[\]()\n]/g, '')}… ${Math.round(progress * 100)}%](uploading-${id})`;
+}
+
+// Shared by every editor instance so tokens never collide, even with ones left over from an earlier mount
+let nextUploadId = 0;
+
+export function MarkdownEditor({ value, onChange, placeholder = "Write your content here...", mediaLibrary = false, onUploadImage }: MarkdownEditorProps) {
   const [isPreview, setIsPreview] = useState(false);
+  const [showMediaPicker, setShowMediaPicker] = useState(false);
+  const [dragActive, setDragActive] = useState(false);
+  const [uploadErrors, setUploadErrors] = useState<string[]>([]);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  // Uploads finish after later renders, so they must edit the latest content rather than the one they started with
+  const latest = useRef({ value, onChange, onUploadImage });
+  latest.current = { value, onChange, onUploadImage };
 
   const insertMarkdown = (before: string, after: string = '') => {
-    const textarea = document.querySelector('textarea') as HTMLTextAreaElement;
+    const textarea = textareaRef.current;
+    if (!textarea) return;
     const start = textarea.selectionStart;
     const end = textarea.selectionEnd;
     const text = value;
@@ -32,49 +60,113 @@ export function MarkdownEditor({ value, onChange, placeholder = "Write your cont
     }, 0);
   };
 
+  // Inserts a [^n] reference at the cursor and its definition at the end of the document
+  const insertFootnote = () => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const numbers = Array.from(value.matchAll(/\[\^(\d+)\]/g), match => Number(match[1]));
+    const label = `[^${Math.max(0, ...numbers) + 1}]`;
+    const position = textarea.selectionEnd;
+    const definition = `${value.trimEnd() ? '\n\n' : ''}${label}: `;
+
+    const withReference = value.substring(0, position) + label + value.substring(position);
+    onChange(withReference.trimEnd() + definition);
+
+    setTimeout(() => {
+      textarea.focus();
+      const end = withReference.trimEnd().length + definition.length;
+      textarea.setSelectionRange(end, end);
+    }, 0);
+  };
+
+  const handleInsertImage = (image: MediaImage) => {
+    setShowMediaPicker(false);
+    setIsPreview(false);
+    // The textarea is remounted when leaving preview, so insert once it is back
+    setTimeout(() => insertMarkdown(`![${image.alt_text || image.filename || 'image'}](${image.image_url})`), 0);
+  };
+
+  // Swaps an upload token for new text, keeping the cursor where it was relative to the surrounding text
+  const replaceUploadToken = (id: number, replacement: string) => {
+    const { value: current, onChange: change } = latest.current;
+    const match = new RegExp(`!\\[Uploading [^\\]]*\\]\\(uploading-${id}\\)`).exec(current);
+    if (!match || match[0] === replacement) return;
+
+    const tokenEnd = match.index + match[0].length;
+    const shift = (position: number) => (position >= tokenEnd ? position + replacement.length - match[0].length : position);
+    const textarea = textareaRef.current;
+    const selection = textarea && document.activeElement === textarea
+      ? [shift(textarea.selectionStart), shift(textarea.selectionEnd)]
+      : null;
+
+    change(current.substring(0, match.index) + replacement + current.substring(tokenEnd));
+    if (textarea && selection) {
+      setTimeout(() => textarea.setSelectionRange(selection[0], selection[1]), 0);
+    }
+  };
+
+  const uploadImages = async (files: File[]) => {
+    const uploads = files.map(file => ({ id: ++nextUploadId, file, altText: altTextFromFileName(file.name) }));
+    insertMarkdown(uploads.map(({ id, file }) => uploadToken(id, file.name, 0)).join('\n\n'));
+
+    // One at a time, so images are added to the post in the order they were dropped
+    for (const { id, file, altText } of uploads) {
+      try {
+        const upload = latest.current.onUploadImage;
+        if (!upload) throw new Error('Image uploads are not available');
+        const image = await upload(file, altText, progress => replaceUploadToken(id, uploadToken(id, file.name, progress)));
+        replaceUploadToken(id, `![${altText}](${image.image_url})`);
+      } catch (err) {
+        replaceUploadToken(id, '');
+        setUploadErrors(errors => [...errors, `${file.name}: ${errorMessage(err, 'Upload failed')}`]);
+      }
+    }
+  };
+
+  const getImageFiles = (fileList: FileList) => Array.from(fileList).filter(file => file.type.startsWith('image/'));
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = getImageFiles(e.clipboardData.files);
+    if (!onUploadImage || files.length === 0) return;
+    e.preventDefault();
+    uploadImages(files);
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLTextAreaElement>) => {
+    if (!onUploadImage || !e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setDragActive(true);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLTextAreaElement>) => {
+    setDragActive(false);
+    const files = getImageFiles(e.dataTransfer.files);
+    if (!onUploadImage || files.length === 0) return;
+    e.preventDefault();
+    uploadImages(files);
+  };
+
   const formatButtons = [
     { icon: Bold, label: 'Bold', action: () => insertMarkdown('**', '**') },
     { icon: Italic, label: 'Italic', action: () => insertMarkdown('*', '*') },
+    { icon: Strikethrough, label: 'Strikethrough', action: () => insertMarkdown('~~', '~~') },
     { icon: Code, label: 'Code', action: () => insertMarkdown('`', '`') },
     { icon: Hash, label: 'Header', action: () => insertMarkdown('## ', '') },
     { icon: List, label: 'List', action: () => insertMarkdown('- ', '') },
+    { icon: ListChecks, label: 'Task list', action: () => insertMarkdown('- [ ] ', '') },
+    { icon: Table, label: 'Table', action: () => insertMarkdown('\n\n| Column | Column |\n| ------ | ------ |\n| ', ' | Cell |\n') },
+    { icon: Superscript, label: 'Footnote', action: insertFootnote },
+    { icon: Info, label: 'Note', action: () => insertMarkdown('> [!NOTE]\n> ', '') },
+    { icon: AlertTriangle, label: 'Warning', action: () => insertMarkdown('> [!WARNING]\n> ', '') },
     { icon: Image, label: 'Image', action: () => insertMarkdown('![alt text](', ')') },
+    ...(mediaLibrary ? [{ icon: Images, label: 'Insert from media library', action: () => setShowMediaPicker(true) }] : []),
   ];
 
-  const renderPreview = (markdown: string) => {
-    let html = markdown;
-    
-    // Headers
-    html = html.replace(/^### (.*$)/gm, '<h3 class="text-xl font-semibold text-gray-900 mt-6 mb-3">$1</h3>');
-    html = html.replace(/^## (.*$)/gm, '<h2 class="text-2xl font-bold text-gray-900 mt-8 mb-4">$1</h2>');
-    html = html.replace(/^# (.*$)/gm, '<h1 class="text-3xl font-bold text-gray-900 mt-8 mb-6">$1</h1>');
-    
-    // Bold and italic
-    html = html.replace(/\*\*(.*?)\*\*/g, '<strong class="font-semibold">$1</strong>');
-    html = html.replace(/\*(.*?)\*/g, '<em class="italic">$1</em>');
-    
-    // Code
-    html = html.replace(/`([^`]+)`/g, '<code class="bg-gray-100 text-red-600 px-2 py-1 rounded font-mono text-sm">$1</code>');
-    
-    // Lists
-    html = html.replace(/^\- (.*$)/gm, '<li class="ml-6 mb-2">• $1</li>');
-    
-    // Images
-    html = html.replace(/!\[([^\]]*)\]\(([^)]+)\)/g, '<img src="$2" alt="$1" class="max-w-full h-auto rounded-lg my-4" />');
-    
-    // Paragraphs
-    html = html.replace(/^(?!<[hou]|<li)(.+)$/gm, '<p class="mb-4 leading-relaxed text-gray-700">$1</p>');
-    
-    // Line breaks
-    html = html.replace(/\n/g, '<br />');
-    
-    return html;
-  };
-
   return (
     <div className="border-2 border-gray-200 rounded-2xl overflow-hidden shadow-lg">
       <div className="flex items-center justify-between bg-gradient-to-r from-gray-50 to-blue-50 px-6 py-4 border-b border-gray-200">
-        <div className="flex items-center space-x-3">
+        <div className="flex flex-wrap items-center gap-1">
           {formatButtons.map(({ icon: Icon, label, action }) => (
             <button
               key={label}
@@ -113,7 +205,7 @@ export function MarkdownEditor({ value, onChange, placeholder = "Write your cont
         {isPreview ? (
           <div className="p-8 prose max-w-none animate-fadeInUp">
             {value ? (
-              <div dangerouslySetInnerHTML={{ __html: renderPreview(value) }} />
+              <MarkdownRenderer content={value} />
             ) : (
               <div className="text-center py-12 animate-fadeInUp">
                 <Eye className="w-12 h-12 text-gray-400 mx-auto mb-4 animate-float" />
@@ -122,14 +214,50 @@ export function MarkdownEditor({ value, onChange, placeholder = "Write your cont
             )}
           </div>
         ) : (
-          <textarea
-            value={value}
-            onChange={(e) => onChange(e.target.value)}
-            placeholder={placeholder}
-            className="w-full h-96 p-8 resize-none border-0 focus:ring-0 focus:outline-none font-mono text-base leading-relaxed transition-all duration-300"
-          />
+          <div className="relative">
+            <textarea
+              ref={textareaRef}
+              value={value}
+              onChange={(e) => onChange(e.target.value)}
+              onPaste={handlePaste}
+              onDragOver={handleDragOver}
+              onDragLeave={() => setDragActive(false)}
+              onDrop={handleDrop}
+              placeholder={placeholder}
+              className="w-full h-96 p-8 resize-none border-0 focus:ring-0 focus:outline-none font-mono text-base leading-relaxed transition-all duration-300"
+            />
+            {dragActive && (
+              <div className="absolute inset-2 flex items-center justify-center gap-2 border-2 border-dashed border-blue-400 bg-blue-50/80 rounded-xl text-blue-700 font-semibold pointer-events-none">
+                <Upload className="w-5 h-5" />
+                Drop images to upload
+              </div>
+            )}
+          </div>
         )}
       </div>
+
+      {onUploadImage && (
+        <div className="px-6 py-3 border-t border-gray-200 bg-gray-50 text-sm space-y-2">
+          {uploadErrors.map((message, index) => (
+            <div key={index} role="alert" className="flex items-center justify-between gap-3 text-red-600">
+              <span>Upload failed - {message}</span>
+              <button
+                type="button"
+                onClick={() => setUploadErrors(uploadErrors.filter((_, i) => i !== index))}
+                title="Dismiss"
+                className="p-1 hover:bg-red-50 rounded-lg transition-colors duration-200"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <p className="text-gray-500">Drop or paste images into the editor to upload them.</p>
+        </div>
+      )}
+
+      {showMediaPicker && (
+        <MediaPicker title="Insert an image" onSelect={handleInsertImage} onClose={() => setShowMediaPicker(false)} />
+      )}
     </div>
   );
 }
\ No newline at end of file
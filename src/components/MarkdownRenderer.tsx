@@ -1,54 +1,69 @@
-import React from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { createPortal } from 'react-dom';
+import { Check, Copy } from 'lucide-react';
+import { renderMarkdown } from '../lib/markdown';
+import { decodeSectionId, goToSection } from '../lib/anchors';
 
 interface MarkdownRendererProps {
   content: string;
   className?: string;
+  copyableCode?: boolean;
 }
 
-export function MarkdownRenderer({ content, className = '' }: MarkdownRendererProps) {
-  const renderContent = (markdown: string) => {
-    // Simple markdown parsing - in production, you'd use a library like react-markdown
-    let html = markdown;
-    
-    // Headers
-    html = html.replace(/^### (.*$)/gm, '<h3 class="text-xl font-semibold text-gray-900 mt-6 mb-3">$1</h3>');
-    html = html.replace(/^## (.*$)/gm, '<h2 class="text-2xl font-bold text-gray-900 mt-8 mb-4">$1</h2>');
-    html = html.replace(/^# (.*$)/gm, '<h1 class="text-3xl font-bold text-gray-900 mt-8 mb-6">$1</h1>');
-    
-    // Bold and italic
-    html = html.replace(/\*\*\*(.*?)\*\*\*/g, '<strong><em class="font-bold italic">$1</em></strong>');
-    html = html.replace(/\*\*(.*?)\*\*/g, '<strong class="font-semibold">$1</strong>');
-    html = html.replace(/\*(.*?)\*/g, '<em class="italic">$1</em>');
-    
-    // Code blocks
-    html = html.replace(/```(\w+)?\n([\s\S]*?)```/g, (match, lang, code) => {
-      return `<pre class="bg-gray-100 rounded-lg p-4 overflow-x-auto my-4"><code class="text-sm font-mono">${code.trim()}</code></pre>`;
-    });
-    
-    // Inline code
-    html = html.replace(/`([^`]+)`/g, '<code class="bg-gray-100 text-red-600 px-2 py-1 rounded font-mono text-sm">$1</code>');
-    
-    // Lists
-    html = html.replace(/^\- (.*$)/gm, '<li class="ml-6 mb-2 list-disc">$1</li>');
-    html = html.replace(/^(\d+)\. (.*$)/gm, '<li class="ml-6 mb-2 list-decimal">$1. $2</li>');
-    
-    // Wrap lists in ul/ol tags
-    html = html.replace(/(<li[^>]*class="[^"]*list-disc[^"]*"[^>]*>.*<\/li>)/gs, '<ul class="my-4">$1</ul>');
-    html = html.replace(/(<li[^>]*class="[^"]*list-decimal[^"]*"[^>]*>.*<\/li>)/gs, '<ol class="my-4">$1</ol>');
-    
-    // Paragraphs
-    html = html.replace(/^(?!<[hou]|<li|<pre)(.+)$/gm, '<p class="mb-4 leading-relaxed text-gray-700">$1</p>');
-    
-    // Line breaks
-    html = html.replace(/\n/g, '<br />');
-    
-    return html;
+function CopyCodeButton({ block }: { block: HTMLElement }) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(block.querySelector('code')?.textContent || '');
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Error copying code:', error);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleCopy}
+      title={copied ? 'Copied!' : 'Copy code'}
+      className="absolute top-2 right-2 p-2 rounded-lg bg-white/80 text-gray-500 hover:text-blue-600 hover:bg-white shadow-sm transition-colors duration-200"
+    >
+      {copied ? <Check className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+    </button>
+  );
+}
+
+export function MarkdownRenderer({ content, className = '', copyableCode = false }: MarkdownRendererProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [codeBlocks, setCodeBlocks] = useState<HTMLElement[]>([]);
+  const html = useMemo(() => renderMarkdown(content), [content]);
+
+  // Copy buttons are portalled into the rendered code blocks once the HTML is in the DOM
+  useEffect(() => {
+    const container = containerRef.current;
+    setCodeBlocks(copyableCode && container ? Array.from(container.querySelectorAll<HTMLElement>('figure.code-block')) : []);
+  }, [html, copyableCode]);
+
+  // Plain #section links would replace the hash route, so in-document anchors scroll instead
+  const handleClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    const link = (event.target as HTMLElement).closest('a');
+    const href = link?.getAttribute('href');
+    if (!href || !href.startsWith('#') || href.startsWith('#/')) return;
+    event.preventDefault();
+    goToSection(decodeSectionId(href.slice(1)));
   };
 
   return (
-    <div 
-      className={`prose prose-lg max-w-none ${className}`}
-      dangerouslySetInnerHTML={{ __html: renderContent(content) }}
-    />
+    <>
+      <div
+        ref={containerRef}
+        onClick={handleClick}
+        className={`prose prose-lg max-w-none ${className}`}
+        dangerouslySetInnerHTML={{ __html: html }}
+      />
+      {codeBlocks.map((block, index) => createPortal(<CopyCodeButton block={block} />, block, `copy-${index}`))}
+    </>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,228 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Search, Edit, Trash2, Save, X, Image, FileText } from 'lucide-react';
+import { LoadingSpinner } from './LoadingSpinner';
+import { Pagination } from './Pagination';
+import { ResponsiveImage } from './ResponsiveImage';
+import { BlogAPI, errorMessage, type MediaImage } from '../lib/api';
+
+interface MediaLibraryProps {
+  // Picker mode: clicking an image selects it, and editing and deleting are hidden
+  onSelect?: (image: MediaImage) => void;
+}
+
+export function MediaLibrary({ onSelect }: MediaLibraryProps) {
+  const [images, setImages] = useState<MediaImage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [search, setSearch] = useState('');
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [editing, setEditing] = useState<{ _id: string; alt_text: string; caption: string } | null>(null);
+  const [working, setWorking] = useState(false);
+
+  const fetchImages = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await BlogAPI.getMediaImages(search, page);
+      setImages(response.images);
+      setTotalPages(response.totalPages);
+      setError(null);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to fetch images'));
+    } finally {
+      setLoading(false);
+    }
+  }, [search, page]);
+
+  useEffect(() => {
+    fetchImages();
+  }, [fetchImages]);
+
+  // Search as the user types, once they pause
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setSearch(query);
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const handleSave = async () => {
+    if (!editing) return;
+    try {
+      setWorking(true);
+      const updated = await BlogAPI.updateImage(editing._id, { alt_text: editing.alt_text, caption: editing.caption });
+      setImages(images.map(image => (image._id === updated._id ? { ...updated, used_in: image.used_in } : image)));
+      setEditing(null);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to update image'));
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleDelete = async (image: MediaImage) => {
+    const usage = image.used_in?.length
+      ? `It is still used in ${image.used_in.map(post => `"${post.title}"`).join(', ')}, which will show a broken image.`
+      : 'It is not used in any post.';
+    if (!window.confirm(`Delete ${image.filename || 'this image'} and all its files? ${usage}`)) return;
+    try {
+      setWorking(true);
+      await BlogAPI.deleteImage(image._id);
+      await fetchImages();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to delete image'));
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-xl p-4 text-red-600">{error}</div>
+      )}
+
+      <div className="relative">
+        <Search className="w-5 h-5 text-gray-400 absolute left-4 top-1/2 -translate-y-1/2" />
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search by file name, alt text or caption..."
+          className="w-full pl-12 pr-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+        />
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-20">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : images.length === 0 ? (
+        <div className="text-center py-20">
+          <Image className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-600">{search ? 'No images match your search.' : 'No images uploaded yet.'}</p>
+        </div>
+      ) : (
+        <div className={`grid gap-6 ${onSelect ? 'grid-cols-2 sm:grid-cols-3 lg:grid-cols-4' : 'grid-cols-1 sm:grid-cols-2 lg:grid-cols-3'}`}>
+          {images.map(image => (
+            <div
+              key={image._id}
+              className="bg-white/90 backdrop-blur-md rounded-2xl shadow-lg border border-white/20 overflow-hidden flex flex-col"
+            >
+              <button
+                type="button"
+                onClick={() => onSelect?.(image)}
+                disabled={!onSelect}
+                title={onSelect ? 'Insert this image' : undefined}
+                className={`aspect-video bg-gray-100 overflow-hidden ${onSelect ? 'hover:ring-4 hover:ring-blue-400 transition-shadow duration-200' : 'cursor-default'}`}
+              >
+                <ResponsiveImage
+                  src={image.image_url}
+                  alt={image.alt_text || image.filename || ''}
+                  sizes="320px"
+                  placeholder={image}
+                  className="w-full h-full object-cover"
+                />
+              </button>
+
+              <div className="p-4 space-y-2 text-sm flex-1">
+                <p className="font-medium text-gray-900 truncate" title={image.filename}>{image.filename || image.image_url}</p>
+                {image.width && image.height && (
+                  <p className="text-gray-500">{image.width} × {image.height}</p>
+                )}
+
+                {editing?._id === image._id ? (
+                  <div className="space-y-2">
+                    <input
+                      type="text"
+                      value={editing.alt_text}
+                      onChange={(e) => setEditing({ ...editing, alt_text: e.target.value })}
+                      placeholder="Alt text"
+                      className="w-full px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <input
+                      type="text"
+                      value={editing.caption}
+                      onChange={(e) => setEditing({ ...editing, caption: e.target.value })}
+                      placeholder="Caption"
+                      className="w-full px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                ) : (
+                  <>
+                    {image.alt_text && <p className="text-gray-600">Alt: {image.alt_text}</p>}
+                    {image.caption && <p className="text-gray-600 italic">{image.caption}</p>}
+                  </>
+                )}
+
+                {!onSelect && (
+                  <div className="text-gray-500">
+                    {image.used_in?.length ? (
+                      <ul className="space-y-1">
+                        {image.used_in.map(post => (
+                          <li key={post._id} className="flex items-center gap-1.5 truncate">
+                            <FileText className="w-3.5 h-3.5 flex-shrink-0" />
+                            <a href={`#/post/${post.slug}`} className="text-blue-600 hover:underline truncate">{post.title}</a>
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <span>Not used in any post</span>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {!onSelect && (
+                <div className="flex justify-end gap-1 px-4 pb-4">
+                  {editing?._id === image._id ? (
+                    <>
+                      <button
+                        onClick={handleSave}
+                        disabled={working}
+                        title="Save"
+                        className="p-2 text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors duration-200 disabled:opacity-50"
+                      >
+                        <Save className="w-5 h-5" />
+                      </button>
+                      <button
+                        onClick={() => setEditing(null)}
+                        title="Cancel"
+                        className="p-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-lg transition-colors duration-200"
+                      >
+                        <X className="w-5 h-5" />
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <button
+                        onClick={() => setEditing({ _id: image._id, alt_text: image.alt_text || '', caption: image.caption || '' })}
+                        disabled={working}
+                        title="Edit alt text and caption"
+                        className="p-2 text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors duration-200"
+                      >
+                        <Edit className="w-5 h-5" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(image)}
+                        disabled={working}
+                        title="Delete image"
+                        className="p-2 text-gray-600 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors duration-200"
+                      >
+                        <Trash2 className="w-5 h-5" />
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Pagination currentPage={page} totalPages={totalPages} onPageChange={setPage} />
+    </div>
+  );
+}
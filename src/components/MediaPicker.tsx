@@ -0,0 +1,41 @@
+import { X } from 'lucide-react';
+import { MediaLibrary } from './MediaLibrary';
+import type { MediaImage } from '../lib/api';
+
+interface MediaPickerProps {
+  title?: string;
+  onSelect: (image: MediaImage) => void;
+  onClose: () => void;
+}
+
+export function MediaPicker({ title = 'Choose an image', onSelect, onClose }: MediaPickerProps) {
+  return (
+    <div
+      className="fixed inset-0 bg-black/40 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label={title}
+        className="bg-white rounded-3xl shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-8 py-5 border-b border-gray-200">
+          <h2 className="text-xl font-bold text-gray-900">{title}</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            title="Close"
+            className="p-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-lg transition-colors duration-200"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="p-8 overflow-y-auto">
+          <MediaLibrary onSelect={onSelect} />
+        </div>
+      </div>
+    </div>
+  );
+}
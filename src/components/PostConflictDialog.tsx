@@ -0,0 +1,163 @@
+import { useMemo } from 'react';
+import { AlertTriangle, GitMerge, Save } from 'lucide-react';
+import { LoadingSpinner } from './LoadingSpinner';
+import { diffLines, mergeLines } from '../lib/diff';
+import type { PostFormData } from '../lib/api';
+
+interface PostConflictDialogProps {
+  // The version this editor loaded, your edits of it, and the version someone else saved since
+  base: PostFormData;
+  mine: PostFormData;
+  theirs: PostFormData;
+  theirsSavedAt?: Date | string;
+  saving: boolean;
+  onMerge: (merged: PostFormData, conflicts: string[]) => void;
+  onOverwrite: () => void;
+  onCancel: () => void;
+}
+
+const FIELD_LABELS: Record<keyof PostFormData, string> = {
+  title: 'Title',
+  slug: 'Slug',
+  excerpt: 'Excerpt',
+  content: 'Content',
+  tags: 'Tags',
+  featured_image: 'Featured image',
+  published: 'Published',
+  published_at: 'Publish date',
+  author_id: 'Author',
+  category_id: 'Category',
+  show_toc: 'Table of contents',
+};
+
+const FIELDS = Object.keys(FIELD_LABELS) as (keyof PostFormData)[];
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Field-level three-way merge; the content is merged line by line, and any other field changed on both
+// sides keeps your value. Returns the labels of the fields that needed a decision.
+function mergePostForms(base: PostFormData, mine: PostFormData, theirs: PostFormData) {
+  const merged = { ...mine };
+  const conflicts: string[] = [];
+
+  FIELDS.forEach(field => {
+    if (sameValue(mine[field], theirs[field]) || sameValue(theirs[field], base[field])) return;
+    if (sameValue(mine[field], base[field])) {
+      Object.assign(merged, { [field]: theirs[field] });
+    } else if (field === 'content') {
+      const result = mergeLines(base.content, mine.content, theirs.content);
+      merged.content = result.text;
+      if (result.conflicts > 0) conflicts.push(`${FIELD_LABELS.content} (${result.conflicts} marked)`);
+    } else {
+      conflicts.push(FIELD_LABELS[field]);
+    }
+  });
+
+  return { merged, conflicts };
+}
+
+export function PostConflictDialog({ base, mine, theirs, theirsSavedAt, saving, onMerge, onOverwrite, onCancel }: PostConflictDialogProps) {
+  const changedBy = (version: PostFormData) => FIELDS.filter(field => !sameValue(version[field], base[field]));
+  const theirChanges = changedBy(theirs);
+  const myChanges = changedBy(mine);
+
+  const { merged, conflicts } = useMemo(() => mergePostForms(base, mine, theirs), [base, mine, theirs]);
+  const contentDiff = useMemo(() => diffLines(theirs.content, mine.content), [theirs.content, mine.content]);
+
+  return (
+    <div className="fixed inset-0 bg-black/40 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Post changed by someone else"
+        className="bg-white rounded-3xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col"
+      >
+        <div className="flex items-center gap-3 px-8 py-5 border-b border-gray-200">
+          <AlertTriangle className="w-6 h-6 text-amber-500" />
+          <h2 className="text-xl font-bold text-gray-900">This post was changed by someone else</h2>
+        </div>
+
+        <div className="p-8 overflow-y-auto space-y-6 text-sm">
+          <p className="text-gray-700">
+            Another version was saved
+            {theirsSavedAt && ` on ${new Date(theirsSavedAt).toLocaleString('en-US')}`} while you were editing.
+            Your changes have not been saved yet.
+          </p>
+
+          <dl className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="bg-gray-50 rounded-xl p-4">
+              <dt className="font-medium text-gray-900 mb-1">They changed</dt>
+              <dd className="text-gray-600">{theirChanges.map(field => FIELD_LABELS[field]).join(', ') || 'Nothing in the editor'}</dd>
+            </div>
+            <div className="bg-gray-50 rounded-xl p-4">
+              <dt className="font-medium text-gray-900 mb-1">You changed</dt>
+              <dd className="text-gray-600">{myChanges.map(field => FIELD_LABELS[field]).join(', ') || 'Nothing'}</dd>
+            </div>
+          </dl>
+
+          {conflicts.length > 0 && (
+            <p className="bg-amber-50 border border-amber-200 rounded-xl p-4 text-amber-800">
+              Both of you changed: {conflicts.join(', ')}. Merging keeps your value for these fields and marks
+              conflicting content with <code>&lt;&lt;&lt;&lt;&lt;&lt;&lt;</code> / <code>&gt;&gt;&gt;&gt;&gt;&gt;&gt;</code> for you to resolve.
+            </p>
+          )}
+
+          {theirs.content !== mine.content && (
+            <div>
+              <h3 className="font-medium text-gray-900 mb-2">Content: their version compared to yours</h3>
+              <div className="border border-gray-200 rounded-xl overflow-x-auto max-h-80 overflow-y-auto">
+                <table className="w-full font-mono text-xs">
+                  <tbody>
+                    {contentDiff.map((line, index) => (
+                      <tr
+                        key={index}
+                        className={
+                          line.type === 'added'
+                            ? 'bg-green-50 text-green-800'
+                            : line.type === 'removed'
+                            ? 'bg-red-50 text-red-800'
+                            : 'text-gray-600'
+                        }
+                      >
+                        <td className="px-2 py-0.5 select-none w-4">
+                          {line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}
+                        </td>
+                        <td className="px-2 py-0.5 whitespace-pre-wrap">{line.text}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-wrap justify-end gap-3 px-8 py-5 border-t border-gray-200">
+          <button
+            onClick={onCancel}
+            disabled={saving}
+            className="px-5 py-2.5 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-xl transition-all duration-200 font-medium"
+          >
+            Keep editing
+          </button>
+          <button
+            onClick={() => onMerge(merged, conflicts)}
+            disabled={saving}
+            className="flex items-center gap-2 px-5 py-2.5 bg-blue-50 text-blue-700 hover:bg-blue-100 rounded-xl transition-all duration-200 font-medium disabled:opacity-50"
+          >
+            <GitMerge className="w-5 h-5" />
+            Merge into editor
+          </button>
+          <button
+            onClick={onOverwrite}
+            disabled={saving}
+            className="flex items-center gap-2 px-5 py-2.5 bg-red-600 text-white hover:bg-red-700 rounded-xl transition-all duration-200 font-medium disabled:opacity-50"
+          >
+            {saving ? <LoadingSpinner size="sm" /> : <Save className="w-5 h-5" />}
+            Overwrite with mine
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
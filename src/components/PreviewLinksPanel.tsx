@@ -0,0 +1,193 @@
+import { useState, useEffect } from 'react';
+import { Link2, Copy, Check, Trash2, Plus, X } from 'lucide-react';
+import { LoadingSpinner } from './LoadingSpinner';
+import { BlogAPI, errorMessage, type PreviewToken } from '../lib/api';
+
+interface PreviewLinksPanelProps {
+  postId: string;
+  onClose: () => void;
+}
+
+const EXPIRY_OPTIONS = [
+  { hours: 24, label: '1 day' },
+  { hours: 72, label: '3 days' },
+  { hours: 7 * 24, label: '1 week' },
+  { hours: 30 * 24, label: '30 days' },
+];
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+export function PreviewLinksPanel({ postId, onClose }: PreviewLinksPanelProps) {
+  const [tokens, setTokens] = useState<PreviewToken[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expiresInHours, setExpiresInHours] = useState(72);
+  const [working, setWorking] = useState(false);
+  // The link is only shown right after it is created; the server does not keep it
+  const [createdLink, setCreatedLink] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    const fetchTokens = async () => {
+      try {
+        setLoading(true);
+        setTokens(await BlogAPI.getPreviewTokens(postId));
+        setError(null);
+      } catch (err) {
+        setError(errorMessage(err, 'Failed to load preview links'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchTokens();
+  }, [postId]);
+
+  const handleCreate = async () => {
+    try {
+      setWorking(true);
+      const token = await BlogAPI.createPreviewToken(postId, expiresInHours);
+      setTokens([token, ...tokens]);
+      setCreatedLink(token.url || null);
+      setCopied(false);
+      setError(null);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to create preview link'));
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!createdLink) return;
+    try {
+      await navigator.clipboard.writeText(createdLink);
+      setCopied(true);
+    } catch {
+      setError('Could not copy the link - select it and copy it by hand');
+    }
+  };
+
+  const handleRevoke = async (token: PreviewToken) => {
+    if (!window.confirm('Revoke this preview link? Anyone using it will lose access.')) return;
+    try {
+      setWorking(true);
+      await BlogAPI.revokePreviewToken(postId, token._id);
+      setTokens(tokens.filter(t => t._id !== token._id));
+      if (token.url && token.url === createdLink) setCreatedLink(null);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to revoke preview link'));
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <div className="border-2 border-gray-200 rounded-2xl overflow-hidden shadow-lg">
+      <div className="flex items-center justify-between bg-gradient-to-r from-gray-50 to-blue-50 px-6 py-4 border-b border-gray-200">
+        <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+          <Link2 className="w-5 h-5 text-blue-500" />
+          Preview Links
+        </h3>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-all duration-200"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="p-6 bg-white space-y-6">
+        <p className="text-sm text-gray-600">
+          Anyone with a preview link can read this post before it is published, without signing in.
+          Links show the last saved version and stop working when they expire or are revoked.
+        </p>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-xl p-4 text-red-600 text-sm">{error}</div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="text-sm font-medium text-gray-700">
+            Expires after{' '}
+            <select
+              value={expiresInHours}
+              onChange={(e) => setExpiresInHours(Number(e.target.value))}
+              className="ml-2 px-3 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500"
+            >
+              {EXPIRY_OPTIONS.map(option => (
+                <option key={option.hours} value={option.hours}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          <button
+            type="button"
+            onClick={handleCreate}
+            disabled={working}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-xl hover:bg-blue-700 transition-colors duration-200 disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4" />
+            Create link
+          </button>
+        </div>
+
+        {createdLink && (
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              readOnly
+              value={createdLink}
+              onFocus={(e) => e.target.select()}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-xl font-mono text-xs bg-gray-50"
+            />
+            <button
+              type="button"
+              onClick={handleCopy}
+              className="flex items-center gap-1 px-3 py-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors duration-200"
+            >
+              {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+              {copied ? 'Copied' : 'Copy'}
+            </button>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner size="md" />
+          </div>
+        ) : tokens.length === 0 ? (
+          <p className="text-gray-500 text-center py-4 text-sm">No active preview links.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100 border border-gray-200 rounded-xl">
+            {tokens.map(token => (
+              <li key={token._id} className="flex items-center justify-between px-4 py-3 text-sm">
+                <div>
+                  <p className="font-medium text-gray-900">Created {formatDate(token.created_at)}</p>
+                  <p className="text-gray-500">Expires {formatDate(token.expires_at)}</p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleRevoke(token)}
+                  disabled={working}
+                  className="flex items-center gap-1 px-3 py-1.5 text-red-600 hover:bg-red-50 rounded-lg transition-colors duration-200 disabled:opacity-50"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Revoke
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
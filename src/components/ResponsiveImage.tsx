@@ -0,0 +1,68 @@
+import { useState } from 'react';
+import type { CSSProperties } from 'react';
+import { parseResponsiveImage } from '../lib/images';
+import type { ImagePlaceholder } from '../lib/api';
+
+interface ResponsiveImageProps {
+  src: string;
+  alt: string;
+  sizes: string;
+  className?: string;
+  loading?: 'lazy' | 'eager';
+  placeholder?: ImagePlaceholder | null;
+}
+
+// Serves uploads as <picture> with AVIF/WebP sources and intrinsic dimensions; other URLs render a plain <img>.
+// With a placeholder, the dominant color and blurred preview fill the image box until the image has loaded.
+export function ResponsiveImage({ src, alt, sizes, className = '', loading = 'lazy', placeholder }: ResponsiveImageProps) {
+  const [loadedSrc, setLoadedSrc] = useState<string | null>(null);
+  const image = parseResponsiveImage(src);
+
+  // Cleared once loaded so it never shows through transparent images
+  const placeholderStyle: CSSProperties | undefined = placeholder && loadedSrc !== src
+    ? {
+        backgroundColor: placeholder.dominant_color,
+        backgroundImage: placeholder.placeholder ? `url("${placeholder.placeholder}")` : undefined,
+        backgroundSize: 'cover',
+        backgroundPosition: 'center',
+      }
+    : undefined;
+  const handleLoad = () => setLoadedSrc(src);
+
+  if (!image) {
+    return (
+      <img
+        src={src}
+        width={placeholder?.width}
+        height={placeholder?.height}
+        alt={alt}
+        className={className}
+        style={placeholderStyle}
+        loading={loading}
+        decoding="async"
+        onLoad={handleLoad}
+      />
+    );
+  }
+
+  return (
+    <picture>
+      {image.sources.map(source => (
+        <source key={source.type} type={source.type} srcSet={source.srcset} sizes={sizes} />
+      ))}
+      <img
+        src={image.src}
+        srcSet={image.srcset}
+        sizes={sizes}
+        width={image.width}
+        height={image.height}
+        alt={alt}
+        className={className}
+        style={placeholderStyle}
+        loading={loading}
+        decoding="async"
+        onLoad={handleLoad}
+      />
+    </picture>
+  );
+}
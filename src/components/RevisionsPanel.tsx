@@ -0,0 +1,199 @@
+import { useState, useEffect, useMemo } from 'react';
+import { History, RotateCcw, X } from 'lucide-react';
+import { LoadingSpinner } from './LoadingSpinner';
+import { BlogAPI, errorMessage, type BlogPost, type PostRevision } from '../lib/api';
+import { diffLines } from '../lib/diff';
+
+interface RevisionsPanelProps {
+  postId: string;
+  // ETag of the post as the editor has it, so a restore cannot overwrite newer changes
+  version: string | undefined;
+  onRestore: (post: BlogPost) => void;
+  onClose: () => void;
+}
+
+// Flattens a revision into plain text so metadata changes show up in the diff alongside content
+function revisionToText(revision: PostRevision): string {
+  return [
+    `Title: ${revision.title}`,
+    `Excerpt: ${revision.excerpt || ''}`,
+    `Tags: ${(revision.tags || []).join(', ')}`,
+    `Featured image: ${revision.featured_image || ''}`,
+    '',
+    revision.content,
+  ].join('\n');
+}
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+};
+
+export function RevisionsPanel({ postId, version, onRestore, onClose }: RevisionsPanelProps) {
+  const [revisions, setRevisions] = useState<PostRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+  const [restoring, setRestoring] = useState(false);
+
+  useEffect(() => {
+    const fetchRevisions = async () => {
+      try {
+        setLoading(true);
+        const data = await BlogAPI.getPostRevisions(postId);
+        setRevisions(data);
+        // Default to comparing the two most recent revisions
+        setToId(data[0]?._id || '');
+        setFromId(data[1]?._id || data[0]?._id || '');
+        setError(null);
+      } catch (err) {
+        setError(errorMessage(err, 'Failed to load revisions'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchRevisions();
+  }, [postId]);
+
+  const fromRevision = revisions.find(r => r._id === fromId);
+  const toRevision = revisions.find(r => r._id === toId);
+
+  const diff = useMemo(() => {
+    if (!fromRevision || !toRevision) return [];
+    return diffLines(revisionToText(fromRevision), revisionToText(toRevision));
+  }, [fromRevision, toRevision]);
+
+  const handleRestore = async (revision: PostRevision) => {
+    if (!window.confirm(`Restore the version from ${formatDate(revision.created_at)}?`)) return;
+
+    try {
+      setRestoring(true);
+      const restoredPost = await BlogAPI.restorePostRevision(postId, revision._id, version);
+      onRestore(restoredPost);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to restore revision'));
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const revisionLabel = (revision: PostRevision, index: number) =>
+    `${formatDate(revision.created_at)}${revision.author ? ` – ${revision.author.name}` : ''}${index === 0 ? ' (current)' : ''}`;
+
+  return (
+    <div className="border-2 border-gray-200 rounded-2xl overflow-hidden shadow-lg">
+      <div className="flex items-center justify-between bg-gradient-to-r from-gray-50 to-blue-50 px-6 py-4 border-b border-gray-200">
+        <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+          <History className="w-5 h-5 text-blue-500" />
+          Revision History
+        </h3>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-all duration-200"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="p-6 bg-white space-y-6">
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-xl p-4 text-red-600 text-sm">{error}</div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner size="md" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-gray-500 text-center py-8">No revisions have been saved for this post yet.</p>
+        ) : (
+          <>
+            <ul className="divide-y divide-gray-100 max-h-64 overflow-y-auto border border-gray-200 rounded-xl">
+              {revisions.map((revision, index) => (
+                <li key={revision._id} className="flex items-center justify-between px-4 py-3 text-sm">
+                  <div>
+                    <p className="font-medium text-gray-900">{revision.title}</p>
+                    <p className="text-gray-500">{revisionLabel(revision, index)}</p>
+                  </div>
+                  {index > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => handleRestore(revision)}
+                      disabled={restoring}
+                      className="flex items-center gap-1 px-3 py-1.5 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors duration-200 disabled:opacity-50"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                      Restore
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <label className="block text-sm font-medium text-gray-700">
+                Compare from
+                <select
+                  value={fromId}
+                  onChange={(e) => setFromId(e.target.value)}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500"
+                >
+                  {revisions.map((revision, index) => (
+                    <option key={revision._id} value={revision._id}>{revisionLabel(revision, index)}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                Compare to
+                <select
+                  value={toId}
+                  onChange={(e) => setToId(e.target.value)}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500"
+                >
+                  {revisions.map((revision, index) => (
+                    <option key={revision._id} value={revision._id}>{revisionLabel(revision, index)}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <div className="border border-gray-200 rounded-xl overflow-x-auto max-h-96 overflow-y-auto">
+              <table className="w-full font-mono text-xs">
+                <tbody>
+                  {diff.map((line, index) => (
+                    <tr
+                      key={index}
+                      className={
+                        line.type === 'added'
+                          ? 'bg-green-50 text-green-800'
+                          : line.type === 'removed'
+                          ? 'bg-red-50 text-red-800'
+                          : 'text-gray-600'
+                      }
+                    >
+                      <td className="px-2 py-0.5 text-right text-gray-400 select-none w-10">{line.oldNumber ?? ''}</td>
+                      <td className="px-2 py-0.5 text-right text-gray-400 select-none w-10">{line.newNumber ?? ''}</td>
+                      <td className="px-2 py-0.5 select-none w-4">
+                        {line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}
+                      </td>
+                      <td className="px-2 py-0.5 whitespace-pre-wrap">{line.text}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import { Search, X, Filter } from 'lucide-react';
+import type { TagCount } from '../lib/api';
 
 interface SearchBarProps {
   onSearch: (query: string) => void;
   onTagFilter: (tags: string[]) => void;
-  availableTags: string[];
+  availableTags: TagCount[];
   placeholder?: string;
 }
 
@@ -78,17 +79,18 @@ export function SearchBar({ onSearch, onTagFilter, availableTags, placeholder =
             Filter by Tags
           </h3>
           <div className="flex flex-wrap gap-3">
-            {availableTags.map((tag) => (
+            {availableTags.map(({ name, count }) => (
               <button
-                key={tag}
-                onClick={() => handleTagToggle(tag)}
+                key={name}
+                onClick={() => handleTagToggle(name)}
                 className={`px-4 py-2.5 rounded-full text-sm font-medium transition-all duration-300 hover-lift ${
-                  selectedTags.includes(tag)
+                  selectedTags.includes(name)
                     ? 'bg-gradient-primary text-white shadow-lg animate-glow'
                     : 'bg-white text-gray-700 border-2 border-gray-200 hover:border-blue-300 hover:bg-blue-50 hover:shadow-md'
                 }`}
               >
-                {tag}
+                {name}
+                <span className="ml-1.5 opacity-70">{count}</span>
               </button>
             ))}
           </div>
@@ -0,0 +1,29 @@
+import type { SearchSnippet as SearchSnippetData } from '../lib/api';
+
+interface SearchSnippetProps {
+  snippet: SearchSnippetData;
+  className?: string;
+}
+
+// Renders a search snippet with its matches wrapped in <mark>, without touching innerHTML
+export function SearchSnippet({ snippet, className = '' }: SearchSnippetProps) {
+  const parts: JSX.Element[] = [];
+  let cursor = 0;
+
+  snippet.highlights.forEach(([start, end], index) => {
+    if (start > cursor) {
+      parts.push(<span key={`text-${index}`}>{snippet.text.slice(cursor, start)}</span>);
+    }
+    parts.push(
+      <mark key={`mark-${index}`} className="bg-yellow-200 text-gray-900 rounded px-0.5">
+        {snippet.text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  if (cursor < snippet.text.length) {
+    parts.push(<span key="text-end">{snippet.text.slice(cursor)}</span>);
+  }
+
+  return <p className={className}>{parts}</p>;
+}
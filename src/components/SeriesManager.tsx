@@ -0,0 +1,226 @@
+import { useState, useEffect } from 'react';
+import { Plus, Edit, Trash2, Save, Layers, ArrowUp, ArrowDown, X } from 'lucide-react';
+import { LoadingSpinner } from './LoadingSpinner';
+import { BlogAPI, errorMessage, type BlogPost, type Series } from '../lib/api';
+
+interface SeriesManagerProps {
+  posts: BlogPost[];
+}
+
+interface SeriesFormData {
+  _id?: string;
+  title: string;
+  description: string;
+  post_ids: string[];
+}
+
+const emptyForm: SeriesFormData = { title: '', description: '', post_ids: [] };
+
+export function SeriesManager({ posts }: SeriesManagerProps) {
+  const [seriesList, setSeriesList] = useState<Series[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [formData, setFormData] = useState<SeriesFormData | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fetchSeries = async () => {
+    setLoading(true);
+    setSeriesList(await BlogAPI.getSeriesList());
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchSeries();
+  }, []);
+
+  const postsById = new Map(posts.map(post => [post.id, post]));
+
+  const handleSave = async () => {
+    if (!formData) return;
+    try {
+      setSaving(true);
+      await BlogAPI.saveSeries(formData);
+      setFormData(null);
+      setError(null);
+      // Saving can move posts out of other series, so reload them all
+      await fetchSeries();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to save series'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (series: Series) => {
+    if (!window.confirm(`Delete the series ${series.title}? Its posts are kept.`)) return;
+    try {
+      await BlogAPI.deleteSeries(series._id);
+      setSeriesList(seriesList.filter(s => s._id !== series._id));
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to delete series'));
+    }
+  };
+
+  const movePart = (index: number, offset: number) => {
+    if (!formData) return;
+    const postIds = [...formData.post_ids];
+    const [moved] = postIds.splice(index, 1);
+    postIds.splice(index + offset, 0, moved);
+    setFormData({ ...formData, post_ids: postIds });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-20">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-xl p-4 text-red-600">{error}</div>
+      )}
+
+      {formData ? (
+        <div className="bg-white/90 backdrop-blur-md rounded-2xl shadow-lg border border-white/20 p-6 space-y-4">
+          <h3 className="text-lg font-semibold text-gray-900">{formData._id ? 'Edit Series' : 'New Series'}</h3>
+          <input
+            type="text"
+            value={formData.title}
+            onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+            placeholder="Title *"
+            className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+          />
+          <textarea
+            value={formData.description}
+            onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+            placeholder="Description"
+            rows={2}
+            className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+          />
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Parts</label>
+            {formData.post_ids.length > 0 && (
+              <ol className="space-y-2 mb-3">
+                {formData.post_ids.map((postId, index) => (
+                  <li key={postId} className="flex items-center gap-3 bg-gray-50 rounded-xl px-4 py-2">
+                    <span className="text-sm font-semibold text-gray-500 w-14">Part {index + 1}</span>
+                    <span className="flex-1 text-gray-900 truncate">{postsById.get(postId)?.title || 'Unknown post'}</span>
+                    <button
+                      onClick={() => movePart(index, -1)}
+                      disabled={index === 0}
+                      title="Move up"
+                      className="p-1 text-gray-500 hover:text-blue-600 disabled:opacity-30"
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => movePart(index, 1)}
+                      disabled={index === formData.post_ids.length - 1}
+                      title="Move down"
+                      className="p-1 text-gray-500 hover:text-blue-600 disabled:opacity-30"
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => setFormData({ ...formData, post_ids: formData.post_ids.filter(id => id !== postId) })}
+                      title="Remove from series"
+                      className="p-1 text-gray-500 hover:text-red-600"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            )}
+            <select
+              value=""
+              onChange={(e) => e.target.value && setFormData({ ...formData, post_ids: [...formData.post_ids, e.target.value] })}
+              className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+            >
+              <option value="">Add a post...</option>
+              {posts
+                .filter(post => !formData.post_ids.includes(post.id))
+                .map(post => (
+                  <option key={post.id} value={post.id}>{post.title}</option>
+                ))}
+            </select>
+            <p className="mt-1 text-sm text-gray-500">A post can belong to one series; adding it here removes it from any other.</p>
+          </div>
+
+          <div className="flex justify-end gap-3">
+            <button
+              onClick={() => setFormData(null)}
+              className="px-4 py-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-xl transition-all duration-200 font-medium"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving || !formData.title.trim()}
+              className="flex items-center gap-2 px-6 py-2 bg-gradient-primary text-white rounded-xl hover:shadow-xl transition-all duration-300 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? <LoadingSpinner size="sm" /> : <Save className="w-4 h-4" />}
+              <span>{saving ? 'Saving...' : 'Save Series'}</span>
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex justify-end">
+          <button
+            onClick={() => setFormData({ ...emptyForm })}
+            className="flex items-center gap-2 px-5 py-2.5 bg-gradient-primary text-white rounded-xl hover:shadow-xl transition-all duration-300 font-medium"
+          >
+            <Plus className="w-4 h-4" />
+            New Series
+          </button>
+        </div>
+      )}
+
+      {seriesList.length === 0 ? (
+        <div className="text-center py-20">
+          <Layers className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-600">No series yet.</p>
+        </div>
+      ) : (
+        <ul className="space-y-4">
+          {seriesList.map(series => (
+            <li
+              key={series._id}
+              className="bg-white/90 backdrop-blur-md rounded-2xl shadow-lg border border-white/20 p-6 flex items-center gap-4"
+            >
+              <Layers className="w-6 h-6 text-blue-500" />
+              <div className="flex-1 min-w-0">
+                <span className="font-semibold text-gray-900">{series.title}</span>
+                <span className="ml-2 text-sm text-gray-500">{series.post_ids.length} parts</span>
+                {series.description && <p className="text-sm text-gray-500 truncate">{series.description}</p>}
+              </div>
+              <button
+                onClick={() => setFormData({
+                  _id: series._id,
+                  title: series.title,
+                  description: series.description || '',
+                  post_ids: series.post_ids,
+                })}
+                title="Edit series"
+                className="p-2 text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors duration-200"
+              >
+                <Edit className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => handleDelete(series)}
+                title="Delete series"
+                className="p-2 text-gray-600 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors duration-200"
+              >
+                <Trash2 className="w-5 h-5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
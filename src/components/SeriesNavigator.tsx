@@ -0,0 +1,57 @@
+import { ChevronLeft, ChevronRight, Layers } from 'lucide-react';
+import type { SeriesNavigation } from '../lib/api';
+
+interface SeriesNavigatorProps {
+  series: SeriesNavigation;
+  onPostClick: (slug: string) => void;
+}
+
+export function SeriesNavigator({ series, onPostClick }: SeriesNavigatorProps) {
+  const previous = series.parts[series.position - 2];
+  const next = series.parts[series.position];
+
+  return (
+    <nav className="mb-10 bg-blue-50/70 border border-blue-100 rounded-2xl p-6" aria-label="Series navigation">
+      <div className="flex items-center gap-2 text-sm font-semibold text-blue-700 mb-1">
+        <Layers className="w-4 h-4" />
+        Part {series.position} of {series.total}
+      </div>
+      <h2 className="text-lg font-bold text-gray-900 mb-4">{series.title}</h2>
+
+      <ol className="space-y-1 mb-4 list-decimal list-inside">
+        {series.parts.map((part, index) => (
+          <li key={part._id} className="text-gray-700">
+            {index + 1 === series.position ? (
+              <span className="font-semibold text-gray-900">{part.title}</span>
+            ) : (
+              <button onClick={() => onPostClick(part.slug)} className="text-blue-600 hover:underline text-left">
+                {part.title}
+              </button>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      <div className="flex justify-between gap-4 text-sm">
+        {previous ? (
+          <button
+            onClick={() => onPostClick(previous.slug)}
+            className="flex items-center gap-1 text-gray-600 hover:text-blue-600 transition-colors duration-200"
+          >
+            <ChevronLeft className="w-4 h-4" />
+            Previous part
+          </button>
+        ) : <span />}
+        {next && (
+          <button
+            onClick={() => onPostClick(next.slug)}
+            className="flex items-center gap-1 text-gray-600 hover:text-blue-600 transition-colors duration-200"
+          >
+            Next part
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+    </nav>
+  );
+}
@@ -0,0 +1,70 @@
+import { useState, useEffect } from 'react';
+import { List } from 'lucide-react';
+import { goToSection } from '../lib/anchors';
+import type { MarkdownHeading } from '../lib/markdown';
+
+interface TableOfContentsProps {
+  headings: MarkdownHeading[];
+}
+
+// Distance from the top of the viewport (below the sticky header) at which a heading becomes current
+const ACTIVE_OFFSET = 120;
+
+export function TableOfContents({ headings }: TableOfContentsProps) {
+  const [activeId, setActiveId] = useState(headings[0]?.id || '');
+
+  // The current section is the last heading scrolled past the offset line
+  useEffect(() => {
+    let frame = 0;
+    const updateActive = () => {
+      frame = 0;
+      let current = headings[0]?.id || '';
+      for (const heading of headings) {
+        const element = document.getElementById(heading.id);
+        if (!element || element.getBoundingClientRect().top > ACTIVE_OFFSET) break;
+        current = heading.id;
+      }
+      setActiveId(current);
+    };
+    const handleScroll = () => {
+      if (!frame) frame = window.requestAnimationFrame(updateActive);
+    };
+
+    updateActive();
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    return () => {
+      window.removeEventListener('scroll', handleScroll);
+      if (frame) window.cancelAnimationFrame(frame);
+    };
+  }, [headings]);
+
+  return (
+    <nav aria-label="Table of contents" className="bg-white/90 backdrop-blur-md rounded-2xl shadow-lg border border-white/20 p-6">
+      <h2 className="flex items-center gap-2 text-sm font-semibold text-gray-900 uppercase tracking-wide mb-4">
+        <List className="w-4 h-4 text-blue-600" />
+        On this page
+      </h2>
+      <ul className="space-y-1 text-sm">
+        {headings.map(heading => (
+          <li key={heading.id} className={heading.level === 3 ? 'pl-4' : ''}>
+            <a
+              href={`#${heading.id}`}
+              onClick={(e) => {
+                e.preventDefault();
+                goToSection(heading.id);
+              }}
+              aria-current={heading.id === activeId ? 'location' : undefined}
+              className={`block border-l-2 pl-3 py-1 transition-colors duration-200 ${
+                heading.id === activeId
+                  ? 'border-blue-600 text-blue-600 font-medium'
+                  : 'border-transparent text-gray-600 hover:text-gray-900 hover:border-gray-300'
+              }`}
+            >
+              {heading.text}
+            </a>
+          </li>
+        ))}
+      </ul>
+    </nav>
+  );
+}
@@ -0,0 +1,173 @@
+import { useState, useEffect } from 'react';
+import { Edit, Trash2, Save, Tag, Merge, X } from 'lucide-react';
+import { LoadingSpinner } from './LoadingSpinner';
+import { BlogAPI, errorMessage, type TagCount } from '../lib/api';
+
+export function TagManager() {
+  const [tags, setTags] = useState<TagCount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [renaming, setRenaming] = useState<{ tag: string; name: string } | null>(null);
+  const [mergeTarget, setMergeTarget] = useState('');
+  const [working, setWorking] = useState(false);
+
+  const fetchTags = async () => {
+    setLoading(true);
+    setTags(await BlogAPI.getTags(true));
+    setSelected([]);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchTags();
+  }, []);
+
+  // Renames, merges and deletes rewrite every post using the tag, so reload the counts afterwards
+  const runChange = async (change: () => Promise<void>, fallbackMessage: string) => {
+    try {
+      setWorking(true);
+      await change();
+      setError(null);
+      setRenaming(null);
+      setMergeTarget('');
+      await fetchTags();
+    } catch (err) {
+      setError(errorMessage(err, fallbackMessage));
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleRename = () => {
+    if (!renaming) return;
+    runChange(() => BlogAPI.renameTag(renaming.tag, renaming.name), 'Failed to rename tag');
+  };
+
+  const handleMerge = () => {
+    const target = BlogAPI.normalizeTag(mergeTarget);
+    if (!target) return;
+    if (!window.confirm(`Merge ${selected.length} tags into "${target}"?`)) return;
+    runChange(() => BlogAPI.mergeTags(selected, target), 'Failed to merge tags');
+  };
+
+  const handleDelete = (tag: TagCount) => {
+    if (!window.confirm(`Remove "${tag.name}" from ${tag.count} post${tag.count === 1 ? '' : 's'}?`)) return;
+    runChange(() => BlogAPI.deleteTag(tag.name), 'Failed to delete tag');
+  };
+
+  const toggleSelected = (name: string) => {
+    setSelected(prev => (prev.includes(name) ? prev.filter(t => t !== name) : [...prev, name]));
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-20">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-xl p-4 text-red-600">{error}</div>
+      )}
+
+      {selected.length > 1 && (
+        <div className="bg-white/90 backdrop-blur-md rounded-2xl shadow-lg border border-white/20 p-6 flex flex-wrap items-center gap-3">
+          <span className="text-sm text-gray-600">Merge {selected.length} selected tags into</span>
+          <input
+            type="text"
+            value={mergeTarget}
+            onChange={(e) => setMergeTarget(e.target.value)}
+            list="tag-merge-targets"
+            placeholder="Target tag"
+            className="flex-1 min-w-[12rem] px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+          />
+          <datalist id="tag-merge-targets">
+            {selected.map(name => <option key={name} value={name} />)}
+          </datalist>
+          <button
+            onClick={handleMerge}
+            disabled={working || !mergeTarget.trim()}
+            className="flex items-center gap-2 px-5 py-2 bg-gradient-primary text-white rounded-xl hover:shadow-xl transition-all duration-300 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Merge className="w-4 h-4" />
+            Merge
+          </button>
+        </div>
+      )}
+
+      {tags.length === 0 ? (
+        <div className="text-center py-20">
+          <Tag className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-600">No tags yet.</p>
+        </div>
+      ) : (
+        <ul className="bg-white/90 backdrop-blur-md rounded-2xl shadow-lg border border-white/20 divide-y divide-gray-100">
+          {tags.map(tag => (
+            <li key={tag.name} className="flex items-center gap-4 px-6 py-4">
+              <input
+                type="checkbox"
+                checked={selected.includes(tag.name)}
+                onChange={() => toggleSelected(tag.name)}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              {renaming?.tag === tag.name ? (
+                <>
+                  <input
+                    type="text"
+                    value={renaming.name}
+                    onChange={(e) => setRenaming({ ...renaming, name: e.target.value })}
+                    onKeyDown={(e) => e.key === 'Enter' && handleRename()}
+                    autoFocus
+                    className="flex-1 px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <button
+                    onClick={handleRename}
+                    disabled={working || !renaming.name.trim()}
+                    title="Save"
+                    className="p-2 text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors duration-200 disabled:opacity-50"
+                  >
+                    <Save className="w-5 h-5" />
+                  </button>
+                  <button
+                    onClick={() => setRenaming(null)}
+                    title="Cancel"
+                    className="p-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-lg transition-colors duration-200"
+                  >
+                    <X className="w-5 h-5" />
+                  </button>
+                </>
+              ) : (
+                <>
+                  <div className="flex-1 min-w-0">
+                    <span className="font-medium text-gray-900">{tag.name}</span>
+                    <span className="ml-2 text-sm text-gray-500">{tag.count} post{tag.count === 1 ? '' : 's'}</span>
+                  </div>
+                  <button
+                    onClick={() => setRenaming({ tag: tag.name, name: tag.name })}
+                    disabled={working}
+                    title="Rename tag"
+                    className="p-2 text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors duration-200"
+                  >
+                    <Edit className="w-5 h-5" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(tag)}
+                    disabled={working}
+                    title="Delete tag"
+                    className="p-2 text-gray-600 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors duration-200"
+                  >
+                    <Trash2 className="w-5 h-5" />
+                  </button>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
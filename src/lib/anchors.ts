@@ -0,0 +1,27 @@
+// In-page section links for hash-routed pages: the route and the section share the URL
+// hash, e.g. #/post/my-post#getting-started
+
+// Fragments may arrive percent-encoded (Markdown links, copied URLs); malformed ones are used as-is
+export function decodeSectionId(fragment: string): string {
+  try {
+    return decodeURIComponent(fragment);
+  } catch {
+    return fragment;
+  }
+}
+
+// The section id after the route, or '' when there is none
+export function getSectionId(): string {
+  const [, , section = ''] = window.location.hash.split('#');
+  return decodeSectionId(section);
+}
+
+// Scrolls to a section and records it in the URL without triggering a route change
+export function goToSection(id: string, behavior: ScrollBehavior = 'smooth') {
+  const target = document.getElementById(id);
+  if (!target) return;
+  target.scrollIntoView({ behavior, block: 'start' });
+
+  const [, route = ''] = window.location.hash.split('#');
+  window.history.replaceState(null, '', `#${route}#${encodeURIComponent(id)}`);
+}
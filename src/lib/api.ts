@@ -1,16 +1,100 @@
 // Client-side API layer that communicates with backend via HTTP requests
+import type { FieldErrors, ImageInput, PostInput, PostQuery } from './schemas';
+
 export interface BlogPost {
   id: string;
   title: string;
   slug: string;
+  previous_slugs?: string[];
   content: string;
   excerpt?: string;
   featured_image?: string;
+  featured_image_meta?: ImagePlaceholder | null;
   tags?: string[];
   published?: boolean;
   published_at?: Date;
+  scheduled_at?: Date | null;
   created_at?: Date;
   updated_at?: Date;
+  search_snippet?: SearchSnippet | null;
+  comment_count?: number;
+  author_id?: string | null;
+  author?: AuthorSummary | null;
+  category_id?: string | null;
+  category?: CategorySummary | null;
+  series?: SeriesNavigation | null;
+  show_toc?: boolean;
+}
+
+export interface TagCount {
+  name: string;
+  count: number;
+}
+
+export interface CategorySummary {
+  _id: string;
+  name: string;
+  slug: string;
+}
+
+// Categories come back as a flat list; parent_id links a child to its parent
+export interface Category extends CategorySummary {
+  description?: string;
+  parent_id: string | null;
+  post_count?: number;
+}
+
+export interface SeriesPart {
+  _id: string;
+  title: string;
+  slug: string;
+}
+
+export interface Series {
+  _id: string;
+  title: string;
+  slug: string;
+  description?: string;
+  post_ids: string[];
+  parts?: SeriesPart[];
+}
+
+// Where a post sits within its series; position is 1-based
+export interface SeriesNavigation {
+  _id: string;
+  title: string;
+  slug: string;
+  position: number;
+  total: number;
+  parts: SeriesPart[];
+}
+
+export type AuthorSocialNetwork = 'website' | 'twitter' | 'github' | 'linkedin' | 'mastodon';
+
+// Byline embedded on posts
+export interface AuthorSummary {
+  _id: string;
+  name: string;
+  slug: string;
+  avatar?: string;
+}
+
+export interface Author extends AuthorSummary {
+  bio?: string;
+  social_links?: Partial<Record<AuthorSocialNetwork, string>>;
+  user_id?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface AuthorPostsResponse extends BlogPostsResponse {
+  author: Author;
+}
+
+// Plain-text excerpt around a search match; highlights are [start, end) character offsets
+export interface SearchSnippet {
+  text: string;
+  highlights: [number, number][];
 }
 
 export interface BlogPostsResponse {
@@ -21,21 +105,317 @@ export interface BlogPostsResponse {
   totalPages: number;
 }
 
-export interface BlogPostQuery {
-  page?: number;
-  pageSize?: number;
-  search?: string;
+export type BlogPostQuery = PostQuery;
+
+export interface PostRevision {
+  _id: string;
+  post_id: string;
+  title: string;
+  content: string;
+  excerpt?: string;
   tags?: string[];
+  featured_image?: string;
+  author?: { _id: string; name: string } | null;
+  created_at: string;
+}
+
+export interface PreviewToken {
+  _id: string;
+  post_id: string;
+  created_at: string;
+  expires_at: string;
+  // Only returned when the link is created
+  token?: string;
+  url?: string;
+}
+
+// The post editor's form state, which is also what autosaved drafts hold
+export interface PostFormData {
+  title: string;
+  slug: string;
+  excerpt: string;
+  content: string;
+  tags: string[];
+  featured_image: string;
+  published: boolean;
+  published_at: string;
+  author_id: string;
+  category_id: string;
+  show_toc: boolean;
+}
+
+export interface PostDraft {
+  post_id: string | null;
+  data: Partial<PostFormData>;
+  saved_at: string;
+}
+
+export interface ImageVariant {
+  format: 'avif' | 'webp' | 'jpeg' | 'png';
+  width: number;
+  height: number;
+  url: string;
+}
+
+// An upload in the media library; image_url is the largest JPEG/PNG fallback of its variants
+// Shown while an image loads; only uploads processed by the server have one
+export interface ImagePlaceholder {
+  width?: number;
+  height?: number;
+  dominant_color?: string;
+  placeholder?: string;
+}
+
+export interface MediaImage {
+  _id: string;
+  post_id: string | null;
+  // Set on an author's uploaded avatar
+  author_id?: string | null;
+  image_url: string;
+  filename?: string;
+  width?: number;
+  height?: number;
+  dominant_color?: string;
+  placeholder?: string;
+  variants?: ImageVariant[];
+  original_path?: string;
+  alt_text: string;
+  caption: string;
+  position: number;
+  created_at: string;
+  used_in?: { _id: string; title: string; slug: string }[];
+}
+
+export interface MediaImagesResponse {
+  images: MediaImage[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+export type MediaImageUpdate = ImageInput;
+
+export type CommentStatus = 'pending' | 'approved' | 'rejected' | 'spam';
+
+export interface BlogComment {
+  _id: string;
+  post_id: string;
+  parent_id: string | null;
+  author_name: string;
+  content: string;
+  created_at: string;
+}
+
+// Moderation view of a comment, including private fields and the post it belongs to
+export interface ModerationComment extends BlogComment {
+  author_email: string;
+  status: CommentStatus;
+  post?: { _id: string; title: string; slug: string };
+}
+
+export interface ModerationCommentsResponse {
+  comments: ModerationComment[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+export interface NewComment {
+  author_name: string;
+  author_email?: string;
+  content: string;
+  parent_id?: string | null;
+  website?: string;
+}
+
+export type UserRole = 'admin' | 'editor' | 'author';
+
+export interface AuthUser {
+  _id: string;
+  email: string;
+  name: string;
+  role: UserRole;
+  created_at?: Date;
+}
+
+export interface AuthSession {
+  token: string;
+  user: AuthUser;
+}
+
+const SESSION_STORAGE_KEY = 'blog_auth_session';
+
+// The API's error format; `fields` maps request fields to what is wrong with them
+export interface ApiErrorBody {
+  code: string;
+  message: string;
+  fields?: FieldErrors;
+}
+
+// Thrown by API calls whose callers can act on the reason, e.g. show field errors next to a form
+export class ApiError extends Error {
+  status: number;
+  code: string;
+  fields: FieldErrors;
+
+  constructor(status: number, { code, message, fields }: ApiErrorBody) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.fields = fields || {};
+  }
+}
+
+// Thrown by updatePost when someone else saved the post after the edited version was loaded
+export class PostConflictError extends ApiError {
+  current: BlogPost;
+
+  constructor(current: BlogPost) {
+    super(409, { code: 'conflict', message: 'This post was changed by someone else since you opened it' });
+    this.name = 'PostConflictError';
+    this.current = current;
+  }
+}
+
+// What to tell the user about a failed call: the message of each rejected field when the API names them
+export function errorMessage(error: unknown, fallbackMessage: string): string {
+  if (error instanceof ApiError && Object.keys(error.fields).length > 0) {
+    return Object.values(error.fields).join('; ');
+  }
+  return error instanceof Error ? error.message : fallbackMessage;
 }
 
 export class BlogAPI {
   private static baseUrl = '/api';
+  private static authListeners = new Set<(session: AuthSession | null) => void>();
+
+  // Authentication
+  static getSession(): AuthSession | null {
+    try {
+      const stored = localStorage.getItem(SESSION_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private static setSession(session: AuthSession | null) {
+    if (session) {
+      localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+    } else {
+      localStorage.removeItem(SESSION_STORAGE_KEY);
+    }
+    this.authListeners.forEach(listener => listener(session));
+  }
+
+  static onAuthChange(listener: (session: AuthSession | null) => void): () => void {
+    this.authListeners.add(listener);
+    return () => {
+      this.authListeners.delete(listener);
+    };
+  }
+
+  // Sends the stored token with every request and drops the session when the server rejects it. A rejected
+  // read is repeated without the token, so an expired session never hides content anyone may see.
+  private static async authorizedFetch(url: string, init: RequestInit = {}): Promise<Response> {
+    const session = this.getSession();
+    const headers = new Headers(init.headers);
+    if (session) headers.set('Authorization', `Bearer ${session.token}`);
+
+    const response = await fetch(url, { ...init, headers });
+    if (response.status === 401 && session) {
+      this.setSession(null);
+      if (!init.method || init.method === 'GET') return fetch(url, init);
+    }
+    return response;
+  }
+
+  // Like authorizedFetch for multipart uploads, but over XMLHttpRequest so upload progress (0 to 1) can be reported
+  private static authorizedUpload(url: string, body: FormData, onProgress?: (progress: number) => void): Promise<Response> {
+    const session = this.getSession();
+    return new Promise((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      xhr.open('POST', url);
+      if (session) xhr.setRequestHeader('Authorization', `Bearer ${session.token}`);
+      xhr.upload.onprogress = (event) => {
+        if (event.lengthComputable) onProgress?.(event.loaded / event.total);
+      };
+      xhr.onload = () => {
+        if (xhr.status === 401 && session) {
+          this.setSession(null);
+        }
+        resolve(new Response(xhr.responseText, { status: xhr.status }));
+      };
+      xhr.onerror = () => reject(new Error('Network error'));
+      xhr.send(body);
+    });
+  }
+
+  // Reads the API's error body; a response without one (e.g. from a proxy) gets the fallback message
+  private static async toApiError(response: Response, fallbackMessage: string): Promise<ApiError> {
+    const data = await response.json().catch(() => ({}));
+    if (data.error && typeof data.error.message === 'string') {
+      return new ApiError(response.status, data.error);
+    }
+    return new ApiError(response.status, { code: 'http_error', message: fallbackMessage });
+  }
+
+  // True when the backend answered with an error of its own; the mock data only stands in when it is unreachable
+  private static isBackendError(error: unknown): error is ApiError {
+    return error instanceof ApiError && error.code !== 'http_error';
+  }
+
+  static async login(email: string, password: string): Promise<AuthUser> {
+    const response = await fetch(`${this.baseUrl}/auth/login`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ email, password }),
+    });
+
+    if (!response.ok) {
+      throw await this.toApiError(response, 'Failed to log in');
+    }
+
+    const session: AuthSession = await response.json();
+    this.setSession(session);
+    return session.user;
+  }
+
+  static logout() {
+    this.setSession(null);
+  }
+
+  // Re-validates the stored token against the server
+  static async getCurrentUser(): Promise<AuthUser | null> {
+    if (!this.getSession()) return null;
+
+    try {
+      const response = await this.authorizedFetch(`${this.baseUrl}/auth/me`);
+      if (!response.ok) return null;
+      return await response.json();
+    } catch (error) {
+      console.error('Error fetching current user:', error);
+      return null;
+    }
+  }
+
+  // The server sends MongoDB's _id; the client works with id
+  private static normalizePost(post: BlogPost & { _id?: string }): BlogPost {
+    return { ...post, id: post.id ?? post._id ?? '' };
+  }
 
   static async getPosts({ 
     page = 1, 
     pageSize = 10, 
     search, 
-    tags 
+    tags,
+    category,
+    sort
   }: BlogPostQuery = {}): Promise<BlogPostsResponse> {
     try {
       const params = new URLSearchParams({
@@ -44,64 +424,74 @@ export class BlogAPI {
       });
       
       if (search) params.append('search', search);
+      if (sort) params.append('sort', sort);
+      if (category) params.append('category', category);
       if (tags && tags.length > 0) {
         tags.forEach(tag => params.append('tags', tag));
       }
 
-      const response = await fetch(`${this.baseUrl}/posts?${params}`);
+      const response = await this.authorizedFetch(`${this.baseUrl}/posts?${params}`);
       
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+        throw await this.toApiError(response, 'Failed to fetch posts');
       }
       
-      return await response.json();
+      const data: BlogPostsResponse = await response.json();
+      return { ...data, posts: data.posts.map(post => this.normalizePost(post)) };
     } catch (error) {
+      if (this.isBackendError(error)) throw error;
       console.error('Error fetching posts:', error);
       // Fallback to mock data if backend is not available
       return this.getMockPosts({ page, pageSize, search, tags });
     }
   }
 
-  static async getPostBySlug(slug: string): Promise<BlogPost | null> {
+  // `previewToken` comes from a shared preview link and unlocks an unpublished post
+  static async getPostBySlug(slug: string, previewToken?: string): Promise<BlogPost | null> {
     try {
-      const response = await fetch(`${this.baseUrl}/posts/slug/${slug}`);
+      const query = previewToken ? `?${new URLSearchParams({ preview: previewToken })}` : '';
+      const response = await this.authorizedFetch(`${this.baseUrl}/posts/slug/${slug}${query}`);
       
       if (response.status === 404) {
         return null;
       }
       
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+        throw await this.toApiError(response, 'Failed to fetch post');
       }
       
-      return await response.json();
+      return this.normalizePost(await response.json());
     } catch (error) {
+      if (this.isBackendError(error)) throw error;
       console.error('Error fetching post by slug:', error);
       // Fallback to mock data if backend is not available
       return this.getMockPostBySlug(slug);
     }
   }
 
-  static async getAllPosts(): Promise<BlogPost[]> {
+  // Every post, including drafts and scheduled posts; the public listing only returns published ones
+  static async getAdminPosts(): Promise<BlogPost[]> {
     try {
-      const response = await fetch(`${this.baseUrl}/posts?pageSize=1000`);
+      const response = await this.authorizedFetch(`${this.baseUrl}/admin/posts?pageSize=1000`);
       
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+        throw await this.toApiError(response, 'Failed to fetch posts');
       }
       
-      const data = await response.json();
-      return data.posts;
+      const data: BlogPostsResponse = await response.json();
+      return data.posts.map(post => this.normalizePost(post));
     } catch (error) {
+      if (this.isBackendError(error)) throw error;
       console.error('Error fetching all posts:', error);
       // Fallback to mock data if backend is not available
       return this.getMockAllPosts();
     }
   }
 
-  static async createPost(postData: Omit<BlogPost, 'id' | 'created_at' | 'updated_at'>): Promise<BlogPost> {
+  // Rejected input comes back as an ApiError with a message per field
+  static async createPost(postData: PostInput): Promise<BlogPost> {
     try {
-      const response = await fetch(`${this.baseUrl}/posts`, {
+      const response = await this.authorizedFetch(`${this.baseUrl}/posts`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -110,32 +500,51 @@ export class BlogAPI {
       });
       
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+        throw await this.toApiError(response, 'Failed to create post');
       }
       
-      return await response.json();
+      return this.normalizePost(await response.json());
     } catch (error) {
+      if (error instanceof ApiError) throw error;
       console.error('Error creating post:', error);
       throw new Error('Failed to create post');
     }
   }
 
-  static async updatePost(id: string, updates: Partial<BlogPost>): Promise<BlogPost> {
+  // The post's ETag as the server builds it, from the time it was last saved
+  static getPostVersion(post: BlogPost): string | undefined {
+    const savedAt = post.updated_at || post.created_at;
+    return savedAt ? `"${new Date(savedAt).getTime()}"` : undefined;
+  }
+
+  // The server requires the version that was edited (see getPostVersion) and only applies the update if the
+  // post is still at that version; otherwise a PostConflictError carries the post as it is now.
+  // Rejected input comes back as an ApiError.
+  static async updatePost(id: string, updates: Partial<PostInput>, version: string | undefined): Promise<BlogPost> {
     try {
-      const response = await fetch(`${this.baseUrl}/posts/${id}`, {
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+      };
+      if (version) headers['If-Match'] = version;
+
+      const response = await this.authorizedFetch(`${this.baseUrl}/posts/${id}`, {
         method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
+        headers,
         body: JSON.stringify(updates),
       });
+
+      if (response.status === 409) {
+        const data = await response.clone().json().catch(() => ({}));
+        if (data.current) throw new PostConflictError(this.normalizePost(data.current));
+      }
       
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+        throw await this.toApiError(response, 'Failed to update post');
       }
       
-      return await response.json();
+      return this.normalizePost(await response.json());
     } catch (error) {
+      if (error instanceof ApiError) throw error;
       console.error('Error updating post:', error);
       throw new Error('Failed to update post');
     }
@@ -143,14 +552,15 @@ export class BlogAPI {
 
   static async deletePost(id: string): Promise<void> {
     try {
-      const response = await fetch(`${this.baseUrl}/posts/${id}`, {
+      const response = await this.authorizedFetch(`${this.baseUrl}/posts/${id}`, {
         method: 'DELETE',
       });
       
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+        throw await this.toApiError(response, 'Failed to delete post');
       }
     } catch (error) {
+      if (error instanceof ApiError) throw error;
       console.error('Error deleting post:', error);
       throw new Error('Failed to delete post');
     }
@@ -162,32 +572,43 @@ export class BlogAPI {
       .replace(/[^a-z0-9\s-]/g, '')
       .replace(/\s+/g, '-')
       .replace(/-+/g, '-')
+      .replace(/^-|-$/g, '')
       .trim();
   }
 
+  // Mirrors the server's tag normalization: trimmed, single-spaced and lower case
+  static normalizeTag(tag: string): string {
+    return tag.trim().replace(/\s+/g, ' ').toLowerCase();
+  }
+
   // Image upload functionality
-  static async uploadImage(file: File): Promise<{ imageUrl: string }> {
+  static async uploadImage(file: File, onProgress?: (progress: number) => void): Promise<{ imageUrl: string; image: MediaImage }> {
     try {
       const formData = new FormData();
       formData.append('image', file);
 
-      const response = await fetch(`${this.baseUrl}/upload`, {
-        method: 'POST',
-        body: formData,
-      });
+      const response = await this.authorizedUpload(`${this.baseUrl}/upload`, formData, onProgress);
       
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+        throw await this.toApiError(response, 'Failed to upload image');
       }
       
       return await response.json();
     } catch (error) {
+      if (error instanceof ApiError) throw error;
       console.error('Error uploading image:', error);
       throw new Error('Failed to upload image');
     }
   }
 
-  static async addImageToPost(postId: string, file: File, altText?: string, caption?: string, position?: number): Promise<any> {
+  static async addImageToPost(
+    postId: string,
+    file: File,
+    altText?: string,
+    caption?: string,
+    position?: number,
+    onProgress?: (progress: number) => void
+  ): Promise<MediaImage> {
     try {
       const formData = new FormData();
       formData.append('image', file);
@@ -195,28 +616,26 @@ export class BlogAPI {
       if (caption) formData.append('caption', caption);
       if (position !== undefined) formData.append('position', position.toString());
 
-      const response = await fetch(`${this.baseUrl}/posts/${postId}/images`, {
-        method: 'POST',
-        body: formData,
-      });
+      const response = await this.authorizedUpload(`${this.baseUrl}/posts/${postId}/images`, formData, onProgress);
       
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+        throw await this.toApiError(response, 'Failed to add image to post');
       }
       
       return await response.json();
     } catch (error) {
+      if (error instanceof ApiError) throw error;
       console.error('Error adding image to post:', error);
       throw new Error('Failed to add image to post');
     }
   }
 
-  static async getPostImages(postId: string): Promise<any[]> {
+  static async getPostImages(postId: string): Promise<MediaImage[]> {
     try {
-      const response = await fetch(`${this.baseUrl}/posts/${postId}/images`);
+      const response = await this.authorizedFetch(`${this.baseUrl}/posts/${postId}/images`);
       
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+        throw await this.toApiError(response, 'Failed to fetch post images');
       }
       
       return await response.json();
@@ -226,6 +645,612 @@ export class BlogAPI {
     }
   }
 
+  static async reorderPostImages(postId: string, imageIds: string[]): Promise<MediaImage[]> {
+    try {
+      const response = await this.authorizedFetch(`${this.baseUrl}/posts/${postId}/images/order`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ image_ids: imageIds }),
+      });
+      
+      if (!response.ok) {
+        throw await this.toApiError(response, 'Failed to reorder images');
+      }
+      
+      return await response.json();
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      console.error('Error reordering post images:', error);
+      throw new Error('Failed to reorder images');
+    }
+  }
+
+  // Media library
+  static async getMediaImages(query = '', page = 1): Promise<MediaImagesResponse> {
+    try {
+      const params = new URLSearchParams({ page: page.toString() });
+      if (query.trim()) params.set('q', query.trim());
+      const response = await this.authorizedFetch(`${this.baseUrl}/images?${params}`);
+      
+      if (!response.ok) {
+        throw await this.toApiError(response, 'Failed to fetch images');
+      }
+      
+      return await response.json();
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      console.error('Error fetching media library:', error);
+      throw new Error('Failed to fetch images');
+    }
+  }
+
+  static async updateImage(imageId: string, updates: MediaImageUpdate): Promise<MediaImage> {
+    try {
+      const response = await this.authorizedFetch(`${this.baseUrl}/images/${imageId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(updates),
+      });
+      
+      if (!response.ok) {
+        throw await this.toApiError(response, 'Failed to update image');
+      }
+      
+      return await response.json();
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      console.error('Error updating image:', error);
+      throw new Error('Failed to update image');
+    }
+  }
+
+  static async deleteImage(imageId: string): Promise<void> {
+    try {
+      const response = await this.authorizedFetch(`${this.baseUrl}/images/${imageId}`, {
+        method: 'DELETE',
+      });
+      
+      if (!response.ok) {
+        throw await this.toApiError(response, 'Failed to delete image');
+      }
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      console.error('Error deleting image:', error);
+      throw new Error('Failed to delete image');
+    }
+  }
+
+  // Revision history
+  static async getPostRevisions(postId: string): Promise<PostRevision[]> {
+    try {
+      const response = await this.authorizedFetch(`${this.baseUrl}/posts/${postId}/revisions`);
+      
+      if (!response.ok) {
+        throw await this.toApiError(response, 'Failed to fetch post revisions');
+      }
+      
+      return await response.json();
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      console.error('Error fetching post revisions:', error);
+      throw new Error('Failed to fetch post revisions');
+    }
+  }
+
+  // Like updatePost, a restore needs the version being replaced and throws a PostConflictError when it is stale
+  static async restorePostRevision(postId: string, revisionId: string, version: string | undefined): Promise<BlogPost> {
+    try {
+      const response = await this.authorizedFetch(`${this.baseUrl}/posts/${postId}/revisions/${revisionId}/restore`, {
+        method: 'POST',
+        headers: version ? { 'If-Match': version } : {},
+      });
+
+      if (response.status === 409) {
+        const data = await response.clone().json().catch(() => ({}));
+        if (data.current) throw new PostConflictError(this.normalizePost(data.current));
+      }
+      
+      if (!response.ok) {
+        throw await this.toApiError(response, 'Failed to restore post revision');
+      }
+      
+      return this.normalizePost(await response.json());
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      console.error('Error restoring post revision:', error);
+      throw new Error('Failed to restore post revision');
+    }
+  }
+
+  // Preview links for reviewers without an account
+  static async getPreviewTokens(postId: string): Promise<PreviewToken[]> {
+    try {
+      const response = await this.authorizedFetch(`${this.baseUrl}/posts/${postId}/preview-tokens`);
+
+      if (!response.ok) {
+        throw await this.toApiError(response, 'Failed to fetch preview links');
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      console.error('Error fetching preview links:', error);
+      throw new Error('Failed to fetch preview links');
+    }
+  }
+
+  static async createPreviewToken(postId: string, expiresInHours: number): Promise<PreviewToken> {
+    try {
+      const response = await this.authorizedFetch(`${this.baseUrl}/posts/${postId}/preview-tokens`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ expires_in_hours: expiresInHours }),
+      });
+
+      if (!response.ok) {
+        throw await this.toApiError(response, 'Failed to create preview link');
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      console.error('Error creating preview link:', error);
+      throw new Error('Failed to create preview link');
+    }
+  }
+
+  static async revokePreviewToken(postId: string, tokenId: string): Promise<void> {
+    try {
+      const response = await this.authorizedFetch(`${this.baseUrl}/posts/${postId}/preview-tokens/${tokenId}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw await this.toApiError(response, 'Failed to revoke preview link');
+      }
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      console.error('Error revoking preview link:', error);
+      throw new Error('Failed to revoke preview link');
+    }
+  }
+
+  // Autosaved drafts; a null post id is the draft of a post that has not been created yet
+  static async getDraft(postId: string | null): Promise<PostDraft | null> {
+    try {
+      const response = await this.authorizedFetch(`${this.baseUrl}/drafts/${postId || 'new'}`);
+
+      if (response.status === 404) {
+        return null;
+      }
+
+      if (!response.ok) {
+        throw await this.toApiError(response, 'Failed to fetch draft');
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error fetching draft:', error);
+      return null;
+    }
+  }
+
+  static async saveDraft(postId: string | null, data: PostFormData, savedAt: string): Promise<PostDraft> {
+    try {
+      const response = await this.authorizedFetch(`${this.baseUrl}/drafts/${postId || 'new'}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ data, saved_at: savedAt }),
+      });
+
+      if (!response.ok) {
+        throw await this.toApiError(response, 'Failed to save draft');
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      console.error('Error saving draft:', error);
+      throw new Error('Failed to save draft');
+    }
+  }
+
+  static async deleteDraft(postId: string | null): Promise<void> {
+    try {
+      const response = await this.authorizedFetch(`${this.baseUrl}/drafts/${postId || 'new'}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw await this.toApiError(response, 'Failed to delete draft');
+      }
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      console.error('Error deleting draft:', error);
+      throw new Error('Failed to delete draft');
+    }
+  }
+
+  // Authors
+  static async getAuthors(): Promise<Author[]> {
+    try {
+      const response = await this.authorizedFetch(`${this.baseUrl}/authors`);
+      
+      if (!response.ok) {
+        throw await this.toApiError(response, 'Failed to fetch authors');
+      }
+      
+      return await response.json();
+    } catch (error) {
+      console.error('Error fetching authors:', error);
+      return [];
+    }
+  }
+
+  static async getAuthor(slug: string, page = 1, pageSize = 9): Promise<AuthorPostsResponse | null> {
+    try {
+      const params = new URLSearchParams({ page: page.toString(), pageSize: pageSize.toString() });
+      const response = await this.authorizedFetch(`${this.baseUrl}/authors/${slug}?${params}`);
+      
+      if (response.status === 404) {
+        return null;
+      }
+      
+      if (!response.ok) {
+        throw await this.toApiError(response, 'Failed to fetch author');
+      }
+      
+      const data: AuthorPostsResponse = await response.json();
+      return { ...data, posts: data.posts.map(post => this.normalizePost(post)) };
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      console.error('Error fetching author:', error);
+      throw new Error('Failed to fetch author');
+    }
+  }
+
+  static async saveAuthor(author: Partial<Author> & { name: string }): Promise<Author> {
+    try {
+      const response = await this.authorizedFetch(
+        author._id ? `${this.baseUrl}/authors/${author._id}` : `${this.baseUrl}/authors`,
+        {
+          method: author._id ? 'PUT' : 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(author),
+        }
+      );
+      
+      if (!response.ok) {
+        throw await this.toApiError(response, 'Failed to save author');
+      }
+      
+      return await response.json();
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      console.error('Error saving author:', error);
+      throw new Error('Failed to save author');
+    }
+  }
+
+  static async uploadAuthorAvatar(authorId: string, file: File): Promise<Author> {
+    try {
+      const formData = new FormData();
+      formData.append('image', file);
+
+      const response = await this.authorizedFetch(`${this.baseUrl}/authors/${authorId}/avatar`, {
+        method: 'POST',
+        body: formData,
+      });
+      
+      if (!response.ok) {
+        throw await this.toApiError(response, 'Failed to upload author avatar');
+      }
+      
+      return await response.json();
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      console.error('Error uploading author avatar:', error);
+      throw new Error('Failed to upload author avatar');
+    }
+  }
+
+  static async deleteAuthor(authorId: string): Promise<void> {
+    try {
+      const response = await this.authorizedFetch(`${this.baseUrl}/authors/${authorId}`, {
+        method: 'DELETE',
+      });
+      
+      if (!response.ok) {
+        throw await this.toApiError(response, 'Failed to delete author');
+      }
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      console.error('Error deleting author:', error);
+      throw new Error('Failed to delete author');
+    }
+  }
+
+  // Tags
+  static async getTags(includeDrafts = false): Promise<TagCount[]> {
+    try {
+      const response = await this.authorizedFetch(`${this.baseUrl}/tags${includeDrafts ? '?all=true' : ''}`);
+      
+      if (!response.ok) {
+        throw await this.toApiError(response, 'Failed to fetch tags');
+      }
+      
+      return await response.json();
+    } catch (error) {
+      console.error('Error fetching tags:', error);
+      // Fallback to counting the mock posts' tags if backend is not available
+      const counts = new Map<string, number>();
+      this.getMockAllPosts().forEach(post => {
+        (post.tags || []).forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1));
+      });
+      return Array.from(counts, ([name, count]) => ({ name, count }))
+        .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+    }
+  }
+
+  static async renameTag(tag: string, name: string): Promise<void> {
+    try {
+      const response = await this.authorizedFetch(`${this.baseUrl}/tags/${encodeURIComponent(tag)}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name }),
+      });
+      
+      if (!response.ok) {
+        throw await this.toApiError(response, 'Failed to rename tag');
+      }
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      console.error('Error renaming tag:', error);
+      throw new Error('Failed to rename tag');
+    }
+  }
+
+  static async mergeTags(sources: string[], target: string): Promise<void> {
+    try {
+      const response = await this.authorizedFetch(`${this.baseUrl}/tags/merge`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ sources, target }),
+      });
+      
+      if (!response.ok) {
+        throw await this.toApiError(response, 'Failed to merge tags');
+      }
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      console.error('Error merging tags:', error);
+      throw new Error('Failed to merge tags');
+    }
+  }
+
+  static async deleteTag(tag: string): Promise<void> {
+    try {
+      const response = await this.authorizedFetch(`${this.baseUrl}/tags/${encodeURIComponent(tag)}`, {
+        method: 'DELETE',
+      });
+      
+      if (!response.ok) {
+        throw await this.toApiError(response, 'Failed to delete tag');
+      }
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      console.error('Error deleting tag:', error);
+      throw new Error('Failed to delete tag');
+    }
+  }
+
+  // Categories
+  static async getCategories(): Promise<Category[]> {
+    try {
+      const response = await this.authorizedFetch(`${this.baseUrl}/categories`);
+      
+      if (!response.ok) {
+        throw await this.toApiError(response, 'Failed to fetch categories');
+      }
+      
+      return await response.json();
+    } catch (error) {
+      console.error('Error fetching categories:', error);
+      return [];
+    }
+  }
+
+  static async saveCategory(category: Partial<Category> & { name: string }): Promise<Category> {
+    try {
+      const response = await this.authorizedFetch(
+        category._id ? `${this.baseUrl}/categories/${category._id}` : `${this.baseUrl}/categories`,
+        {
+          method: category._id ? 'PUT' : 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(category),
+        }
+      );
+      
+      if (!response.ok) {
+        throw await this.toApiError(response, 'Failed to save category');
+      }
+      
+      return await response.json();
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      console.error('Error saving category:', error);
+      throw new Error('Failed to save category');
+    }
+  }
+
+  static async deleteCategory(categoryId: string): Promise<void> {
+    try {
+      const response = await this.authorizedFetch(`${this.baseUrl}/categories/${categoryId}`, {
+        method: 'DELETE',
+      });
+      
+      if (!response.ok) {
+        throw await this.toApiError(response, 'Failed to delete category');
+      }
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      console.error('Error deleting category:', error);
+      throw new Error('Failed to delete category');
+    }
+  }
+
+  // Series
+  static async getSeriesList(): Promise<Series[]> {
+    try {
+      const response = await this.authorizedFetch(`${this.baseUrl}/series`);
+      
+      if (!response.ok) {
+        throw await this.toApiError(response, 'Failed to fetch series');
+      }
+      
+      return await response.json();
+    } catch (error) {
+      console.error('Error fetching series:', error);
+      return [];
+    }
+  }
+
+  static async saveSeries(series: Partial<Series> & { title: string }): Promise<Series> {
+    try {
+      const response = await this.authorizedFetch(
+        series._id ? `${this.baseUrl}/series/${series._id}` : `${this.baseUrl}/series`,
+        {
+          method: series._id ? 'PUT' : 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(series),
+        }
+      );
+      
+      if (!response.ok) {
+        throw await this.toApiError(response, 'Failed to save series');
+      }
+      
+      return await response.json();
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      console.error('Error saving series:', error);
+      throw new Error('Failed to save series');
+    }
+  }
+
+  static async deleteSeries(seriesId: string): Promise<void> {
+    try {
+      const response = await this.authorizedFetch(`${this.baseUrl}/series/${seriesId}`, {
+        method: 'DELETE',
+      });
+      
+      if (!response.ok) {
+        throw await this.toApiError(response, 'Failed to delete series');
+      }
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      console.error('Error deleting series:', error);
+      throw new Error('Failed to delete series');
+    }
+  }
+
+  // Comments
+  // Comments of an unpublished post need a signed-in user or the token of a preview link
+  static async getComments(postId: string, previewToken?: string): Promise<BlogComment[]> {
+    try {
+      const query = previewToken ? `?${new URLSearchParams({ preview: previewToken })}` : '';
+      const response = await this.authorizedFetch(`${this.baseUrl}/posts/${postId}/comments${query}`);
+      
+      if (!response.ok) {
+        throw await this.toApiError(response, 'Failed to fetch comments');
+      }
+      
+      return await response.json();
+    } catch (error) {
+      console.error('Error fetching comments:', error);
+      return [];
+    }
+  }
+
+  static async submitComment(postId: string, comment: NewComment): Promise<BlogComment> {
+    try {
+      const response = await this.authorizedFetch(`${this.baseUrl}/posts/${postId}/comments`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(comment),
+      });
+      
+      if (!response.ok) {
+        throw await this.toApiError(response, 'Failed to submit comment');
+      }
+      
+      return await response.json();
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      console.error('Error submitting comment:', error);
+      throw new Error('Failed to submit comment');
+    }
+  }
+
+  static async getModerationComments(status: CommentStatus | 'all' = 'pending', page = 1): Promise<ModerationCommentsResponse> {
+    try {
+      const params = new URLSearchParams({ status, page: page.toString() });
+      const response = await this.authorizedFetch(`${this.baseUrl}/comments?${params}`);
+      
+      if (!response.ok) {
+        throw await this.toApiError(response, 'Failed to fetch comments');
+      }
+      
+      return await response.json();
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      console.error('Error fetching comments for moderation:', error);
+      throw new Error('Failed to fetch comments');
+    }
+  }
+
+  static async moderateComments(ids: string[], action: CommentStatus | 'delete'): Promise<{ modified: number }> {
+    try {
+      const response = await this.authorizedFetch(`${this.baseUrl}/comments/bulk`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ids, action }),
+      });
+      
+      if (!response.ok) {
+        throw await this.toApiError(response, 'Failed to moderate comments');
+      }
+      
+      return await response.json();
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      console.error('Error moderating comments:', error);
+      throw new Error('Failed to moderate comments');
+    }
+  }
+
   // Client-side initialization - no-op since database operations should be server-side
   static async initializeDatabase(): Promise<void> {
     return Promise.resolve();
@@ -0,0 +1,45 @@
+import type { Category } from './api';
+
+export interface CategoryTreeItem {
+  category: Category;
+  depth: number;
+}
+
+// Orders a flat category list depth-first so children follow their parent, for indented lists and selects.
+// Categories whose parent is missing are treated as top-level.
+export function flattenCategoryTree(categories: Category[]): CategoryTreeItem[] {
+  const ids = new Set(categories.map(category => category._id));
+  const children = new Map<string | null, Category[]>();
+  categories.forEach(category => {
+    const parentId = category.parent_id && ids.has(category.parent_id) ? category.parent_id : null;
+    children.set(parentId, [...(children.get(parentId) || []), category]);
+  });
+
+  const items: CategoryTreeItem[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    (children.get(parentId) || [])
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .forEach(category => {
+        items.push({ category, depth });
+        visit(category._id, depth + 1);
+      });
+  };
+  visit(null, 0);
+  return items;
+}
+
+// Ids of a category and everything nested beneath it
+export function getDescendantIds(categories: Category[], rootId: string): Set<string> {
+  const ids = new Set([rootId]);
+  let added = true;
+  while (added) {
+    added = false;
+    categories.forEach(category => {
+      if (category.parent_id && ids.has(category.parent_id) && !ids.has(category._id)) {
+        ids.add(category._id);
+        added = true;
+      }
+    });
+  }
+  return ids;
+}
@@ -0,0 +1,158 @@
+// Line-level diff between two texts, based on the longest common subsequence
+export type DiffLineType = 'equal' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  oldNumber?: number;
+  newNumber?: number;
+}
+
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const oldLines = oldText.split('\n');
+  const newLines = newText.split('\n');
+
+  // Skip the common prefix and suffix so the LCS table only covers the changed region
+  let start = 0;
+  while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) {
+    start++;
+  }
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const a = oldLines.slice(start, oldEnd);
+  const b = newLines.slice(start, newEnd);
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  for (let k = 0; k < start; k++) {
+    result.push({ type: 'equal', text: oldLines[k], oldNumber: k + 1, newNumber: k + 1 });
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      result.push({ type: 'equal', text: a[i], oldNumber: start + i + 1, newNumber: start + j + 1 });
+      i++;
+      j++;
+    } else if (i < a.length && (j >= b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      result.push({ type: 'removed', text: a[i], oldNumber: start + i + 1 });
+      i++;
+    } else {
+      result.push({ type: 'added', text: b[j], newNumber: start + j + 1 });
+      j++;
+    }
+  }
+
+  for (let k = 0; k < oldLines.length - oldEnd; k++) {
+    result.push({
+      type: 'equal',
+      text: oldLines[oldEnd + k],
+      oldNumber: oldEnd + k + 1,
+      newNumber: newEnd + k + 1,
+    });
+  }
+
+  return result;
+}
+
+interface Hunk {
+  side: 'mine' | 'theirs';
+  // Replaced range of base lines, end exclusive; start === end for a pure insertion
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+function toHunks(diff: DiffLine[], side: Hunk['side']): Hunk[] {
+  const hunks: Hunk[] = [];
+  let baseIndex = 0;
+  let current: Hunk | null = null;
+  for (const line of diff) {
+    if (line.type === 'equal') {
+      if (current) hunks.push(current);
+      current = null;
+      baseIndex++;
+      continue;
+    }
+    if (!current) current = { side, start: baseIndex, end: baseIndex, lines: [] };
+    if (line.type === 'removed') {
+      baseIndex++;
+      current.end = baseIndex;
+    } else {
+      current.lines.push(line.text);
+    }
+  }
+  if (current) hunks.push(current);
+  return hunks;
+}
+
+function applyHunks(base: string[], start: number, end: number, hunks: Hunk[]): string[] {
+  const result: string[] = [];
+  let position = start;
+  for (const hunk of hunks) {
+    result.push(...base.slice(position, hunk.start), ...hunk.lines);
+    position = hunk.end;
+  }
+  return [...result, ...base.slice(position, end)];
+}
+
+export interface MergeResult {
+  text: string;
+  conflicts: number;
+}
+
+// Three-way line merge: changes made on only one side are applied, identical changes once, and changes
+// that touch the same or adjacent lines differently are kept both, between git-style conflict markers
+export function mergeLines(baseText: string, mineText: string, theirsText: string): MergeResult {
+  const base = baseText.split('\n');
+  const hunks = [
+    ...toHunks(diffLines(baseText, mineText), 'mine'),
+    ...toHunks(diffLines(baseText, theirsText), 'theirs'),
+  ].sort((a, b) => a.start - b.start || a.end - b.end);
+
+  const result: string[] = [];
+  let conflicts = 0;
+  let position = 0;
+  let i = 0;
+  while (i < hunks.length) {
+    const group = [hunks[i]];
+    const start = hunks[i].start;
+    let end = hunks[i].end;
+    for (i++; i < hunks.length && hunks[i].start <= end; i++) {
+      group.push(hunks[i]);
+      end = Math.max(end, hunks[i].end);
+    }
+
+    result.push(...base.slice(position, start));
+    const mine = applyHunks(base, start, end, group.filter(hunk => hunk.side === 'mine'));
+    const theirs = applyHunks(base, start, end, group.filter(hunk => hunk.side === 'theirs'));
+    const mineChanged = group.some(hunk => hunk.side === 'mine');
+    const theirsChanged = group.some(hunk => hunk.side === 'theirs');
+
+    if (!theirsChanged || mine.join('\n') === theirs.join('\n')) {
+      result.push(...mine);
+    } else if (!mineChanged) {
+      result.push(...theirs);
+    } else {
+      conflicts++;
+      result.push('<<<<<<< Your changes', ...mine, '=======', ...theirs, '>>>>>>> Their changes');
+    }
+    position = end;
+  }
+  result.push(...base.slice(position));
+
+  return { text: result.join('\n'), conflicts };
+}
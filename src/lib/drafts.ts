@@ -0,0 +1,136 @@
+// Autosaved post drafts: a copy in local storage survives a closed tab or a lost connection, and a copy on
+// the server follows the author to other devices. Whichever was saved last wins when a post is reopened.
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { BlogAPI, type PostDraft, type PostFormData } from './api';
+
+const AUTOSAVE_INTERVAL_MS = 15 * 1000;
+
+function storageKey(userId: string, postId: string | null) {
+  return `blog_post_draft:${userId}:${postId || 'new'}`;
+}
+
+function readLocalDraft(userId: string, postId: string | null): PostDraft | null {
+  try {
+    const stored = localStorage.getItem(storageKey(userId, postId));
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeLocalDraft(userId: string, draft: PostDraft) {
+  try {
+    localStorage.setItem(storageKey(userId, draft.post_id), JSON.stringify(draft));
+  } catch (error) {
+    // Quota exceeded or storage disabled; the server copy still applies
+    console.error('Error saving local draft:', error);
+  }
+}
+
+function removeLocalDraft(userId: string, postId: string | null) {
+  try {
+    localStorage.removeItem(storageKey(userId, postId));
+  } catch {
+    // Nothing to clean up when storage is unavailable
+  }
+}
+
+// The newest draft of a post, if it was saved after the post itself and differs from what the form shows
+export async function findRecoverableDraft(
+  userId: string,
+  postId: string | null,
+  current: PostFormData,
+  postUpdatedAt?: Date | string
+): Promise<PostDraft | null> {
+  const drafts = [readLocalDraft(userId, postId), await BlogAPI.getDraft(postId)]
+    .filter((draft): draft is PostDraft => Boolean(draft?.saved_at))
+    .sort((a, b) => Date.parse(b.saved_at) - Date.parse(a.saved_at));
+  const newest = drafts[0];
+
+  if (!newest) return null;
+  if (postUpdatedAt && Date.parse(newest.saved_at) <= new Date(postUpdatedAt).getTime()) return null;
+  if (JSON.stringify({ ...current, ...newest.data }) === JSON.stringify(current)) return null;
+  return newest;
+}
+
+interface DraftAutosaveOptions {
+  userId: string | null;
+  // null while creating a post
+  postId: string | null;
+  data: PostFormData;
+  enabled: boolean;
+}
+
+// Saves the editor form every AUTOSAVE_INTERVAL_MS and whenever saveDraft is called (e.g. on blur), but only
+// once it differs from the contents passed to reset. Local storage is written first; a failed server save is
+// retried on the next tick.
+export function useDraftAutosave({ userId, postId, data, enabled }: DraftAutosaveOptions) {
+  const [savedAt, setSavedAt] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const baseline = useRef('');
+  // Saved locally but not yet on the server
+  const pendingDraft = useRef<{ postId: string | null; data: PostFormData; savedAt: string } | null>(null);
+  const latest = useRef({ userId, postId, data });
+  latest.current = { userId, postId, data };
+
+  // Marks freshly loaded form contents as unchanged, so opening a post never creates a draft by itself
+  const reset = useCallback((initial: PostFormData) => {
+    baseline.current = JSON.stringify(initial);
+    pendingDraft.current = null;
+    setSavedAt(null);
+    setError(null);
+  }, []);
+
+  const saveLocally = useCallback(() => {
+    const { userId, postId, data } = latest.current;
+    const snapshot = JSON.stringify(data);
+    if (!userId || snapshot === baseline.current) return;
+
+    const savedAt = new Date().toISOString();
+    writeLocalDraft(userId, { post_id: postId, data, saved_at: savedAt });
+    baseline.current = snapshot;
+    pendingDraft.current = { postId, data, savedAt };
+    setSavedAt(savedAt);
+  }, []);
+
+  const saveDraft = useCallback(async () => {
+    saveLocally();
+    const draft = pendingDraft.current;
+    if (!draft) return;
+
+    try {
+      pendingDraft.current = null;
+      await BlogAPI.saveDraft(draft.postId, draft.data, draft.savedAt);
+      setError(null);
+    } catch {
+      // Retry with this draft on the next tick unless a newer one has been saved meanwhile
+      pendingDraft.current = pendingDraft.current || draft;
+      setError('Saved on this device only - the server draft could not be saved');
+    }
+  }, [saveLocally]);
+
+  // Drops both copies, after the post was saved or the draft was declined
+  const discardDraft = useCallback(async () => {
+    const { userId, postId, data } = latest.current;
+    if (userId) removeLocalDraft(userId, postId);
+    reset(data);
+    try {
+      await BlogAPI.deleteDraft(postId);
+    } catch {
+      // A stale server draft is older than the post, so it will not be offered again
+    }
+  }, [reset]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const interval = setInterval(saveDraft, AUTOSAVE_INTERVAL_MS);
+    // Requests may not finish while the page unloads, so only the local copy is written then
+    window.addEventListener('pagehide', saveLocally);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('pagehide', saveLocally);
+    };
+  }, [enabled, saveDraft, saveLocally]);
+
+  return { savedAt, error, saveDraft, discardDraft, reset };
+}
@@ -0,0 +1,27 @@
+export interface ImageFormat {
+  format: string;
+  extension: string;
+  type: string;
+}
+
+export interface ResponsiveImageSource {
+  type: string;
+  srcset: string;
+}
+
+export interface ParsedResponsiveImage {
+  src: string;
+  width: number;
+  height: number;
+  srcset: string;
+  sources: ResponsiveImageSource[];
+}
+
+export const IMAGE_WIDTHS: number[];
+export const IMAGE_FORMATS: ImageFormat[];
+export const FALLBACK_FORMATS: { jpeg: ImageFormat; png: ImageFormat };
+
+export function getVariantWidths(width: number): number[];
+export function getVariantHeight(width: number, height: number, variantWidth: number): number;
+export function buildVariantUrl(base: string, width: number, height: number, extension: string): string;
+export function parseResponsiveImage(url: string | null | undefined): ParsedResponsiveImage | null;
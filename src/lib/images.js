@@ -0,0 +1,54 @@
+// Responsive image naming shared by the upload pipeline (server) and the renderers (React, Markdown).
+// Every processed upload gets its own directory holding <width>x<height>.<ext> for each variant width
+// and format, so srcset can be rebuilt from the fallback URL alone, without a database lookup.
+
+export const IMAGE_WIDTHS = [320, 640, 960, 1280, 1920];
+
+// Modern formats first; browsers take the first <source> they support
+export const IMAGE_FORMATS = [
+  { format: 'avif', extension: 'avif', type: 'image/avif' },
+  { format: 'webp', extension: 'webp', type: 'image/webp' },
+];
+
+// Fallback format: JPEG, or PNG when the image has transparency
+export const FALLBACK_FORMATS = {
+  jpeg: { format: 'jpeg', extension: 'jpg', type: 'image/jpeg' },
+  png: { format: 'png', extension: 'png', type: 'image/png' },
+};
+
+const VARIANT_URL = /^(.*\/uploads\/[^/]+)\/(\d+)x(\d+)\.(jpg|png)$/;
+
+// Widths generated for an image that is `width` pixels wide: every standard width below it, then its own
+export function getVariantWidths(width) {
+  return [...IMAGE_WIDTHS.filter(w => w < width), Math.min(width, IMAGE_WIDTHS[IMAGE_WIDTHS.length - 1])];
+}
+
+export function getVariantHeight(width, height, variantWidth) {
+  return Math.max(1, Math.round((height * variantWidth) / width));
+}
+
+export function buildVariantUrl(base, width, height, extension) {
+  return `${base}/${width}x${height}.${extension}`;
+}
+
+// Describes the <picture> for an uploaded image's fallback URL, or returns null for any other URL
+export function parseResponsiveImage(url) {
+  const match = typeof url === 'string' && url.match(VARIANT_URL);
+  if (!match) return null;
+
+  const [, base, widthText, heightText, extension] = match;
+  const width = Number(widthText);
+  const height = Number(heightText);
+  const widths = getVariantWidths(width);
+  const srcsetFor = ext => widths
+    .map(w => `${buildVariantUrl(base, w, getVariantHeight(width, height, w), ext)} ${w}w`)
+    .join(', ');
+
+  return {
+    src: url,
+    width,
+    height,
+    srcset: srcsetFor(extension),
+    sources: IMAGE_FORMATS.map(({ extension: ext, type }) => ({ type, srcset: srcsetFor(ext) })),
+  };
+}
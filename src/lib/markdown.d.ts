@@ -0,0 +1,9 @@
+export interface MarkdownHeading {
+  level: number;
+  text: string;
+  id: string;
+}
+
+export function renderMarkdown(markdown: string): string;
+export function renderCommentMarkdown(markdown: string): string;
+export function extractHeadings(markdown: string): MarkdownHeading[];
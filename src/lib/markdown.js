@@ -0,0 +1,423 @@
+// Markdown to HTML conversion shared by the React components and the server (feeds).
+// Parsing is CommonMark via markdown-it plus the GitHub extensions writers use (tables,
+// strikethrough, task lists, footnotes, [!NOTE] callouts); every result is passed through an allowlist
+// sanitizer before it reaches dangerouslySetInnerHTML or a feed.
+import MarkdownIt from 'markdown-it';
+import footnote from 'markdown-it-footnote';
+import { parseResponsiveImage } from './images.js';
+import xss from 'xss';
+import hljs from 'highlight.js/lib/core';
+import bash from 'highlight.js/lib/languages/bash';
+import css from 'highlight.js/lib/languages/css';
+import javascript from 'highlight.js/lib/languages/javascript';
+import json from 'highlight.js/lib/languages/json';
+import python from 'highlight.js/lib/languages/python';
+import sql from 'highlight.js/lib/languages/sql';
+import typescript from 'highlight.js/lib/languages/typescript';
+import xml from 'highlight.js/lib/languages/xml';
+
+// Only the languages we write about are bundled; their aliases (ts, js, sh, py, html...) come with them
+Object.entries({ bash, css, javascript, json, python, sql, typescript, xml }).forEach(([name, language]) => {
+  hljs.registerLanguage(name, language);
+});
+
+// Tailwind classes per rendered element; the app has no typography plugin to style bare tags
+const CLASS_NAMES = {
+  h1: 'group scroll-mt-24 text-3xl font-bold text-gray-900 mt-8 mb-6',
+  h2: 'group scroll-mt-24 text-2xl font-bold text-gray-900 mt-8 mb-4',
+  h3: 'group scroll-mt-24 text-xl font-semibold text-gray-900 mt-6 mb-3',
+  h4: 'group scroll-mt-24 text-lg font-semibold text-gray-900 mt-6 mb-2',
+  h5: 'group scroll-mt-24 font-semibold text-gray-900 mt-4 mb-2',
+  h6: 'group scroll-mt-24 font-semibold text-gray-700 mt-4 mb-2',
+  headingAnchor: 'heading-anchor ml-2 text-gray-300 no-underline opacity-0 group-hover:opacity-100 focus:opacity-100 hover:text-blue-600 transition-opacity duration-200',
+  p: 'mb-4 leading-relaxed text-gray-700',
+  ul: 'list-disc ml-6 my-4',
+  ol: 'list-decimal ml-6 my-4',
+  li: 'mb-2',
+  blockquote: 'border-l-4 border-blue-200 pl-4 italic text-gray-600 my-4',
+  hr: 'my-8 border-gray-200',
+  a: 'text-blue-600 underline hover:text-blue-800',
+  img: 'max-w-full h-auto rounded-lg my-4',
+  code: 'bg-gray-100 text-red-600 px-2 py-1 rounded font-mono text-sm',
+  codeBlock: 'code-block relative my-4 rounded-lg overflow-hidden border border-gray-200',
+  codeTitle: 'bg-gray-200 text-gray-700 text-sm font-mono px-4 py-2',
+  codePre: 'bg-gray-100 py-4 overflow-x-auto',
+  codeLines: 'code-lines block text-sm font-mono text-gray-800',
+  codeLine: 'code-line inline-block w-full px-4',
+  codeLineHighlighted: 'code-line inline-block w-full px-4 bg-yellow-100',
+  tableWrapper: 'overflow-x-auto my-6',
+  table: 'w-full border-collapse text-sm',
+  th: 'border border-gray-200 bg-gray-50 px-4 py-2 text-left font-semibold text-gray-900',
+  td: 'border border-gray-200 px-4 py-2 text-gray-700',
+  s: 'text-gray-500',
+  taskList: 'contains-task-list list-none ml-6 my-4',
+  taskItem: 'task-list-item mb-2',
+  taskCheckbox: 'mr-2 align-middle accent-blue-600',
+  footnoteRef: 'footnote-ref text-xs',
+  footnoteLink: 'text-blue-600 no-underline hover:underline',
+  footnotes: 'footnotes mt-12 pt-6 border-t border-gray-200 text-sm text-gray-600',
+  footnoteList: 'footnotes-list list-decimal ml-6',
+  footnoteItem: 'footnote-item scroll-mt-24',
+  footnoteBackref: 'footnote-backref ml-1 text-blue-600 no-underline',
+};
+
+// GitHub-style admonitions: a blockquote whose first line is [!TYPE]
+const CALLOUTS = {
+  note: { label: 'Note', className: 'border-blue-500 bg-blue-50', titleClassName: 'text-blue-700' },
+  tip: { label: 'Tip', className: 'border-green-500 bg-green-50', titleClassName: 'text-green-700' },
+  important: { label: 'Important', className: 'border-purple-500 bg-purple-50', titleClassName: 'text-purple-700' },
+  warning: { label: 'Warning', className: 'border-yellow-500 bg-yellow-50', titleClassName: 'text-yellow-800' },
+  caution: { label: 'Caution', className: 'border-red-500 bg-red-50', titleClassName: 'text-red-700' },
+};
+
+const TOKEN_TAGS = {
+  heading_open: token => token.tag,
+  paragraph_open: () => 'p',
+  bullet_list_open: token => (token.meta?.taskList ? 'taskList' : 'ul'),
+  ordered_list_open: token => (token.meta?.taskList ? 'taskList' : 'ol'),
+  list_item_open: token => (token.meta?.taskItem ? 'taskItem' : 'li'),
+  blockquote_open: token => token.tag,
+  hr: () => 'hr',
+  link_open: () => 'a',
+  image: () => 'img',
+  code_inline: () => 'code',
+  table_open: () => 'table',
+  th_open: () => 'th',
+  td_open: () => 'td',
+  s_open: () => 's',
+};
+
+// Core rule that stamps CLASS_NAMES onto block and inline tokens
+function applyClassNames(state) {
+  const stamp = tokens => {
+    tokens.forEach(token => {
+      const tagFor = TOKEN_TAGS[token.type];
+      const className = tagFor && CLASS_NAMES[tagFor(token)];
+      if (className) token.attrJoin('class', className);
+      if (token.children) stamp(token.children);
+    });
+  };
+  stamp(state.tokens);
+}
+
+// Lowercase, punctuation-free, hyphenated slug of a heading's text
+function slugifyHeading(text) {
+  return text
+    .toLowerCase()
+    .trim()
+    .replace(/[^\p{L}\p{N}\s-]/gu, '')
+    .replace(/\s+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '') || 'section';
+}
+
+// Core rule that gives every heading a stable id (repeats get -2, -3 ...) and records
+// the outline on env.headings for extractHeadings
+function assignHeadingIds(state) {
+  const seen = new Map();
+  const headings = [];
+
+  state.tokens.forEach((token, idx) => {
+    if (token.type !== 'heading_open') return;
+    const inline = state.tokens[idx + 1];
+    const text = (inline.children || [])
+      .filter(child => child.type === 'text' || child.type === 'code_inline')
+      .map(child => child.content)
+      .join('')
+      .trim();
+
+    const slug = slugifyHeading(text);
+    const count = (seen.get(slug) || 0) + 1;
+    seen.set(slug, count);
+    const id = count === 1 ? slug : `${slug}-${count}`;
+
+    token.attrSet('id', id);
+    headings.push({ level: Number(token.tag.slice(1)), text, id });
+  });
+
+  state.env.headings = headings;
+}
+
+// Core rule that turns > [!NOTE] (TIP, IMPORTANT, WARNING, CAUTION) blockquotes into titled callouts
+function applyCallouts(state) {
+  const { tokens } = state;
+  for (let idx = tokens.length - 1; idx >= 0; idx--) {
+    const open = tokens[idx];
+    const inline = tokens[idx + 2];
+    if (open.type !== 'blockquote_open' || tokens[idx + 1]?.type !== 'paragraph_open' || !inline?.children) continue;
+
+    const marker = inline.content.match(/^\[!(\w+)\][ \t]*(?:\n|$)/);
+    const callout = marker && CALLOUTS[marker[1].toLowerCase()];
+    if (!callout) continue;
+
+    // Drop the marker text and the line break after it
+    const [first, second] = inline.children;
+    first.content = first.content.replace(/^\[!\w+\][ \t]*/, '');
+    if (!first.content) inline.children.shift();
+    if (!first.content && second && (second.type === 'softbreak' || second.type === 'hardbreak')) inline.children.shift();
+    if (inline.children.length === 0) {
+      tokens[idx + 1].hidden = true;
+      tokens[idx + 3].hidden = true;
+    }
+
+    const close = tokens.slice(idx).find(token => token.type === 'blockquote_close' && token.level === open.level);
+    open.tag = 'div';
+    close.tag = 'div';
+    open.attrSet('class', `callout callout-${marker[1].toLowerCase()} my-6 border-l-4 rounded-r-lg px-4 py-3 [&>p:last-child]:mb-0 ${callout.className}`);
+    open.attrSet('role', 'note');
+
+    const title = new state.Token('html_block', '', 0);
+    title.content = `<p class="font-semibold mb-2 ${callout.titleClassName}">${callout.label}</p>\n`;
+    tokens.splice(idx + 1, 0, title);
+  }
+}
+
+// Core rule for GitHub task lists: list items starting with [ ] or [x] get a read-only checkbox
+function applyTaskLists(state) {
+  const { tokens } = state;
+  tokens.forEach((token, idx) => {
+    if (token.type !== 'inline' || tokens[idx - 2]?.type !== 'list_item_open' || !token.children?.length) return;
+    const first = token.children[0];
+    const marker = first.type === 'text' && first.content.match(/^\[([ xX])\](?:\s+|$)/);
+    if (!marker) return;
+
+    first.content = first.content.slice(marker[0].length);
+    const checkbox = new state.Token('html_inline', '', 0);
+    const checked = marker[1] !== ' ' ? ' checked' : '';
+    checkbox.content = `<input type="checkbox" class="${CLASS_NAMES.taskCheckbox}" disabled${checked}>`;
+    token.children.unshift(checkbox);
+
+    // Flag the item and its list so applyClassNames styles them without bullets
+    const item = tokens[idx - 2];
+    item.meta = { ...item.meta, taskItem: true };
+    for (let listIdx = idx - 3; listIdx >= 0; listIdx--) {
+      const list = tokens[listIdx];
+      if ((list.type === 'bullet_list_open' || list.type === 'ordered_list_open') && list.level === item.level - 1) {
+        list.meta = { ...list.meta, taskList: true };
+        break;
+      }
+    }
+  });
+}
+
+// Rendered width of images in post content, for picking a srcset candidate
+const CONTENT_IMAGE_SIZES = '(min-width: 896px) 800px, 100vw';
+
+// Uploaded images become <picture> with AVIF/WebP sources, srcset and intrinsic dimensions against layout shift
+function renderImage(tokens, idx, options, env, slf) {
+  const token = tokens[idx];
+  token.attrSet('loading', 'lazy');
+  token.attrSet('decoding', 'async');
+
+  const image = parseResponsiveImage(token.attrGet('src'));
+  if (!image) return renderDefaultImage(tokens, idx, options, env, slf);
+
+  token.attrSet('srcset', image.srcset);
+  token.attrSet('sizes', CONTENT_IMAGE_SIZES);
+  token.attrSet('width', String(image.width));
+  token.attrSet('height', String(image.height));
+  const sources = image.sources
+    .map(source => `<source type="${source.type}" srcset="${escapeHtml(source.srcset)}" sizes="${CONTENT_IMAGE_SIZES}">`)
+    .join('');
+  return `<picture>${sources}${renderDefaultImage(tokens, idx, options, env, slf)}</picture>`;
+}
+
+// Tables scroll sideways on small screens instead of stretching the page
+function renderTableOpen(tokens, idx, options, _env, slf) {
+  return `<div class="${CLASS_NAMES.tableWrapper}">\n${slf.renderToken(tokens, idx, options)}`;
+}
+
+function renderTableClose(tokens, idx, options, _env, slf) {
+  return `${slf.renderToken(tokens, idx, options)}</div>\n`;
+}
+
+// Footnote markup with the plugin's ids and class names plus our styling
+function footnoteId(tokens, idx, options, env, slf) {
+  const id = slf.rules.footnote_anchor_name(tokens, idx, options, env, slf);
+  return tokens[idx].meta.subId > 0 ? `${id}:${tokens[idx].meta.subId}` : id;
+}
+
+const footnoteRenderers = {
+  footnote_ref(tokens, idx, options, env, slf) {
+    const id = slf.rules.footnote_anchor_name(tokens, idx, options, env, slf);
+    const caption = slf.rules.footnote_caption(tokens, idx, options, env, slf);
+    return `<sup class="${CLASS_NAMES.footnoteRef}"><a class="${CLASS_NAMES.footnoteLink}" href="#fn${id}" id="fnref${footnoteId(tokens, idx, options, env, slf)}">${caption}</a></sup>`;
+  },
+  footnote_block_open: () => `<section class="${CLASS_NAMES.footnotes}">\n<ol class="${CLASS_NAMES.footnoteList}">\n`,
+  footnote_open(tokens, idx, options, env, slf) {
+    return `<li id="fn${footnoteId(tokens, idx, options, env, slf)}" class="${CLASS_NAMES.footnoteItem}">`;
+  },
+  footnote_anchor(tokens, idx, options, env, slf) {
+    return ` <a href="#fnref${footnoteId(tokens, idx, options, env, slf)}" class="${CLASS_NAMES.footnoteBackref}" aria-label="Back to reference">\u21a9\uFE0E</a>`;
+  },
+};
+
+// Appends a hover permalink to each heading
+function renderHeadingClose(tokens, idx, options, _env, slf) {
+  const open = tokens[idx - 2];
+  const id = open && open.attrGet('id');
+  const anchor = id
+    ? `<a class="${CLASS_NAMES.headingAnchor}" href="#${escapeHtml(id)}" aria-label="Link to this section">#</a>`
+    : '';
+  return anchor + slf.renderToken(tokens, idx, options);
+}
+
+const markdown = new MarkdownIt({ html: true, linkify: true }).use(footnote);
+const { escapeHtml } = markdown.utils;
+const renderDefaultImage = markdown.renderer.rules.image;
+
+// Parses a fence info string such as: ts {3-5,8} title="app.ts"
+function parseFenceInfo(info) {
+  const language = (info.match(/^([^\s{]+)/) || [])[1] || '';
+  const ranges = (info.match(/\{([\d,\s-]+)\}/) || [])[1] || '';
+  const titleMatch = info.match(/title=(?:"([^"]*)"|'([^']*)'|(\S+))/);
+  const title = titleMatch ? titleMatch[1] ?? titleMatch[2] ?? titleMatch[3] : '';
+
+  const highlighted = new Set();
+  ranges.split(',').forEach(range => {
+    const [start, end = start] = range.trim().split('-').map(Number);
+    for (let line = start; line <= end && line - start < 1000; line++) highlighted.add(line);
+  });
+
+  return { language, highlighted, title };
+}
+
+// Splits highlighted HTML into lines, closing and reopening any spans that run across a line break
+function splitHighlightedLines(html) {
+  const lines = [];
+  const openTags = [];
+  let current = '';
+
+  html.split(/(<span[^>]*>|<\/span>|\n)/).forEach(part => {
+    if (part === '\n') {
+      lines.push(current + '</span>'.repeat(openTags.length));
+      current = openTags.join('');
+    } else if (part === '</span>') {
+      openTags.pop();
+      current += part;
+    } else {
+      if (part.startsWith('<span')) openTags.push(part);
+      current += part;
+    }
+  });
+  lines.push(current);
+  return lines;
+}
+
+// Fenced code: language highlighting, CSS-counted line numbers, highlighted ranges and an optional filename header
+function renderCodeBlock(tokens, idx) {
+  const token = tokens[idx];
+  const { language, highlighted, title } = parseFenceInfo(token.info ? token.info.trim() : '');
+  const code = token.content.replace(/\n$/, '');
+
+  const html = language && hljs.getLanguage(language)
+    ? hljs.highlight(code, { language, ignoreIllegals: true }).value
+    : escapeHtml(code);
+  const lines = splitHighlightedLines(html).map((line, index) => {
+    const className = highlighted.has(index + 1) ? CLASS_NAMES.codeLineHighlighted : CLASS_NAMES.codeLine;
+    return `<span class="${className}">${line}</span>`;
+  });
+
+  const languageClass = language ? ` language-${escapeHtml(language)}` : '';
+  const header = title ? `<figcaption class="${CLASS_NAMES.codeTitle}">${escapeHtml(title)}</figcaption>` : '';
+  return `<figure class="${CLASS_NAMES.codeBlock}">${header}<pre class="${CLASS_NAMES.codePre}"><code class="${CLASS_NAMES.codeLines}${languageClass}">${lines.join('\n')}</code></pre></figure>\n`;
+}
+
+markdown.core.ruler.push('heading_ids', assignHeadingIds);
+markdown.core.ruler.push('callouts', applyCallouts);
+markdown.core.ruler.push('task_lists', applyTaskLists);
+markdown.core.ruler.push('class_names', applyClassNames);
+markdown.renderer.rules.heading_close = renderHeadingClose;
+markdown.renderer.rules.image = renderImage;
+markdown.renderer.rules.table_open = renderTableOpen;
+markdown.renderer.rules.table_close = renderTableClose;
+Object.assign(markdown.renderer.rules, footnoteRenderers);
+markdown.renderer.rules.fence = renderCodeBlock;
+markdown.renderer.rules.code_block = renderCodeBlock;
+
+// Absolute http(s) and mailto URLs, anchors, and relative paths; everything else (javascript:, data: ...) is dropped
+const SAFE_URL = /^(https?:|mailto:|#|\.{0,2}\/|[^:]*$)/i;
+
+// Allowlisted tags and attributes for post content; anything else is stripped
+const POST_ALLOWLIST = {
+  h1: ['class', 'id'], h2: ['class', 'id'], h3: ['class', 'id'],
+  h4: ['class', 'id'], h5: ['class', 'id'], h6: ['class', 'id'],
+  p: ['class'], br: [], hr: ['class'],
+  strong: ['class'], em: ['class'], b: [], i: [], s: ['class'], del: [], ins: [], sub: [], sup: ['class'], mark: [], small: [], kbd: [],
+  ul: ['class'], ol: ['class', 'start'], li: ['class', 'id'],
+  input: ['type', 'class', 'checked', 'disabled'],
+  blockquote: ['class'],
+  pre: ['class'], code: ['class'],
+  a: ['class', 'href', 'title', 'target', 'rel', 'aria-label', 'id'],
+  img: ['class', 'src', 'srcset', 'sizes', 'alt', 'title', 'width', 'height', 'loading', 'decoding'],
+  picture: [], source: ['type', 'srcset', 'sizes', 'media'],
+  table: ['class'], thead: ['class'], tbody: ['class'], tr: ['class'],
+  th: ['class', 'align', 'colspan', 'rowspan', 'style'], td: ['class', 'align', 'colspan', 'rowspan', 'style'],
+  figure: ['class'], figcaption: ['class'], section: ['class'],
+  details: ['class'], summary: ['class'],
+  div: ['class', 'role'], span: ['class'],
+};
+
+function createSanitizer(whiteList) {
+  return new xss.FilterXSS({
+    whiteList,
+    stripIgnoreTag: true,
+    stripIgnoreTagBody: ['script', 'style', 'iframe', 'object', 'embed', 'template'],
+    safeAttrValue(tag, name, value, cssFilter) {
+      // Task list checkboxes are the only form control a post can contain
+      if (tag === 'input' && name === 'type') return 'checkbox';
+      if (name === 'href' || name === 'src') {
+        const url = xss.friendlyAttrValue(value).trim();
+        return SAFE_URL.test(url) ? xss.escapeAttrValue(url) : '';
+      }
+      if (name === 'srcset') {
+        const candidates = xss.friendlyAttrValue(value).split(',').map(candidate => candidate.trim()).filter(Boolean);
+        const safe = candidates.every(candidate => SAFE_URL.test(candidate.split(/\s+/)[0]));
+        return safe ? xss.escapeAttrValue(candidates.join(', ')) : '';
+      }
+      // Table cells keep the column alignment markdown-it writes and nothing else (no url(), no expression())
+      if (name === 'style') {
+        const align = xss.friendlyAttrValue(value).match(/^\s*text-align:\s*(left|right|center)\s*;?\s*$/i);
+        return align ? `text-align:${align[1].toLowerCase()};` : '';
+      }
+      return xss.safeAttrValue(tag, name, value, cssFilter);
+    },
+  });
+}
+
+const postSanitizer = createSanitizer(POST_ALLOWLIST);
+
+export function renderMarkdown(source) {
+  return postSanitizer.process(markdown.render(source || ''));
+}
+
+// Heading outline ({ level, text, id }) with the same ids renderMarkdown assigns
+export function extractHeadings(source) {
+  const env = {};
+  markdown.parse(source || '', env);
+  return env.headings || [];
+}
+
+// Restricted Markdown for reader comments: raw HTML is escaped and only inline code,
+// emphasis, line breaks and http(s) links are rendered
+const commentMarkdown = new MarkdownIt('zero', { html: false, linkify: true, breaks: true })
+  .enable(['paragraph', 'newline', 'emphasis', 'backticks', 'link', 'linkify', 'escape', 'entity']);
+commentMarkdown.validateLink = url => /^https?:\/\//i.test(url.trim());
+commentMarkdown.renderer.rules.link_open = (tokens, idx, options, _env, slf) => {
+  tokens[idx].attrSet('class', 'text-blue-600 underline');
+  tokens[idx].attrSet('rel', 'nofollow ugc noopener');
+  tokens[idx].attrSet('target', '_blank');
+  return slf.renderToken(tokens, idx, options);
+};
+commentMarkdown.renderer.rules.code_inline = (tokens, idx) =>
+  `<code class="bg-gray-100 text-red-600 px-1 rounded font-mono text-sm">${escapeHtml(tokens[idx].content)}</code>`;
+
+const commentSanitizer = createSanitizer({
+  p: [], br: [], strong: [], em: [],
+  code: ['class'],
+  a: ['class', 'href', 'rel', 'target'],
+});
+
+export function renderCommentMarkdown(source) {
+  return commentSanitizer.process(commentMarkdown.render((source || '').trim()));
+}
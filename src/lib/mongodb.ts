@@ -48,22 +48,73 @@ export interface BlogPost {
   _id?: string;
   title: string;
   slug: string;
+  previous_slugs?: string[];
   content: string;
   excerpt?: string;
   featured_image?: string;
   tags: string[];
   published: boolean;
   published_at?: Date;
+  scheduled_at?: Date | null;
+  author_id?: string | null;
+  category_id?: string | null;
+  show_toc?: boolean;
   created_at: Date;
   updated_at: Date;
 }
 
+export interface BlogAuthor {
+  _id?: string;
+  name: string;
+  slug: string;
+  bio?: string;
+  avatar?: string;
+  social_links?: Record<string, string>;
+  user_id?: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface BlogImageVariant {
+  format: 'avif' | 'webp' | 'jpeg' | 'png';
+  width: number;
+  height: number;
+  url: string;
+}
+
 export interface BlogImage {
   _id?: string;
   post_id: string;
+  author_id?: string | null;
   image_url: string;
+  width?: number;
+  height?: number;
+  dominant_color?: string;
+  placeholder?: string;
+  variants?: BlogImageVariant[];
+  original_path?: string;
   alt_text?: string;
   caption?: string;
   position: number;
   created_at: Date;
-}
\ No newline at end of file
+}
+
+export interface BlogCategory {
+  _id?: string;
+  name: string;
+  slug: string;
+  description?: string;
+  parent_id: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface BlogSeries {
+  _id?: string;
+  title: string;
+  slug: string;
+  description?: string;
+  post_ids: string[];
+  created_at: Date;
+  updated_at: Date;
+}
@@ -0,0 +1,103 @@
+// Rule types for the request schemas in schemas.js. schemas.js is type-checked, every schema must satisfy
+// Schema, and its request types are SchemaInput of the schemas themselves, so they cannot drift apart.
+interface BaseRule {
+  label: string;
+  required?: boolean;
+  nullable?: boolean;
+}
+
+export interface StringRule extends BaseRule {
+  type: 'string';
+  minLength?: number;
+  maxLength?: number;
+  enum?: readonly string[];
+  default?: string;
+}
+
+export interface IntegerRule extends BaseRule {
+  type: 'integer';
+  min?: number;
+  max?: number;
+  default?: number;
+}
+
+export interface BooleanRule extends BaseRule {
+  type: 'boolean';
+}
+
+// A required list must have at least one entry
+export interface ArrayRule extends BaseRule {
+  type: 'array';
+  maxItems?: number;
+  itemMaxLength?: number;
+  single?: boolean;
+}
+
+export interface IdListRule extends BaseRule {
+  type: 'ids';
+  maxItems?: number;
+}
+
+// An object of text values under known keys; blank values are dropped. With `urls`, each value must be an
+// http(s) URL
+export interface RecordRule extends BaseRule {
+  type: 'record';
+  keys: readonly string[];
+  itemMaxLength?: number;
+  urls?: boolean;
+}
+
+// A nested object checked against its own schema; its errors are keyed `field.nestedField`
+export interface ObjectRule extends BaseRule {
+  type: 'object';
+  schema: Schema;
+}
+
+export interface DateRule extends BaseRule {
+  type: 'date';
+}
+
+export interface IdRule extends BaseRule {
+  type: 'id';
+}
+
+export type FieldRule =
+  | StringRule
+  | IntegerRule
+  | BooleanRule
+  | ArrayRule
+  | IdListRule
+  | RecordRule
+  | ObjectRule
+  | DateRule
+  | IdRule;
+export type Schema = Record<string, FieldRule>;
+
+type RuleValue<R> = R extends { type: 'string'; enum: readonly (infer E)[] }
+  ? E
+  : R extends { type: 'string' | 'id' }
+  ? string
+  : R extends { type: 'integer' }
+  ? number
+  : R extends { type: 'boolean' }
+  ? boolean
+  : R extends { type: 'array' | 'ids' }
+  ? string[]
+  : R extends { type: 'record'; keys: readonly (infer K extends string)[] }
+  ? Partial<Record<K, string>>
+  : R extends { type: 'object'; schema: infer S }
+  ? SchemaInput<S>
+  : R extends { type: 'date' }
+  ? string | Date
+  : never;
+
+type FieldValue<R> = R extends { nullable: true } ? RuleValue<R> | null : RuleValue<R>;
+type RequiredKeys<S> = { [K in keyof S]: S[K] extends { required: true } ? K : never }[keyof S];
+
+// The request body or query a schema accepts
+export type SchemaInput<S> = { [K in RequiredKeys<S>]: FieldValue<S[K]> } & {
+  [K in Exclude<keyof S, RequiredKeys<S>>]?: FieldValue<S[K]>;
+};
+
+// Messages for the fields that failed validation
+export type FieldErrors = Partial<Record<string, string>>;
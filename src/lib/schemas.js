@@ -0,0 +1,353 @@
+// @ts-check
+// Request schemas shared by the API server, which validates every request body and query against them,
+// and the client, which can check a form before sending it. The request types (PostInput...) are inferred from
+// the schemas themselves; enum lists are `const` so their values become literal types.
+// A schema maps each accepted field to a rule; fields not in the schema are dropped.
+
+/**
+ * @typedef {import('./schema-rules').Schema} Schema
+ * @typedef {import('./schema-rules').FieldRule} FieldRule
+ * @typedef {import('./schema-rules').FieldErrors} FieldErrors
+ */
+/**
+ * @template S
+ * @typedef {import('./schema-rules').SchemaInput<S>} SchemaInput
+ */
+
+const OBJECT_ID = /^[a-f\d]{24}$/i;
+const INTEGER = /^-?\d+$/;
+
+/**
+ * True for absolute http: and https: URLs - the only links safe to render from user-entered profiles
+ * @param {unknown} value
+ */
+export function isWebUrl(value) {
+  if (typeof value !== 'string') return false;
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/** @satisfies {Schema} */
+export const POST_SCHEMA = {
+  title: { type: 'string', label: 'Title', required: true, maxLength: 200 },
+  slug: { type: 'string', label: 'Slug', maxLength: 200 },
+  excerpt: { type: 'string', label: 'Excerpt', maxLength: 1000 },
+  content: { type: 'string', label: 'Content', required: true, maxLength: 500000 },
+  tags: { type: 'array', label: 'Tags', maxItems: 30, itemMaxLength: 50 },
+  featured_image: { type: 'string', label: 'Featured image', nullable: true, maxLength: 2048 },
+  published: { type: 'boolean', label: 'Published' },
+  published_at: { type: 'date', label: 'Publish date', nullable: true },
+  author_id: { type: 'id', label: 'Author', nullable: true },
+  category_id: { type: 'id', label: 'Category', nullable: true },
+  show_toc: { type: 'boolean', label: 'Table of contents' },
+};
+
+// The editor form as autosaved while it is being filled in: nothing is required yet, and dates and ids are
+// still the form's text values, but the limits match POST_SCHEMA
+/** @satisfies {Schema} */
+export const DRAFT_DATA_SCHEMA = {
+  title: { type: 'string', label: 'Title', maxLength: 200 },
+  slug: { type: 'string', label: 'Slug', maxLength: 200 },
+  excerpt: { type: 'string', label: 'Excerpt', maxLength: 1000 },
+  content: { type: 'string', label: 'Content', maxLength: 500000 },
+  tags: { type: 'array', label: 'Tags', maxItems: 30, itemMaxLength: 50 },
+  featured_image: { type: 'string', label: 'Featured image', maxLength: 2048 },
+  published: { type: 'boolean', label: 'Published' },
+  published_at: { type: 'string', label: 'Publish date', maxLength: 50 },
+  author_id: { type: 'string', label: 'Author', maxLength: 24 },
+  category_id: { type: 'string', label: 'Category', maxLength: 24 },
+  show_toc: { type: 'boolean', label: 'Table of contents' },
+};
+
+// saved_at comes from the client so it matches the copy kept in the browser's local storage
+/** @satisfies {Schema} */
+export const DRAFT_SCHEMA = {
+  data: { type: 'object', label: 'Draft', required: true, schema: DRAFT_DATA_SCHEMA },
+  saved_at: { type: 'date', label: 'Saved at' },
+};
+
+// Alt text, caption and position of an image, sent as JSON or alongside a multipart upload
+/** @satisfies {Schema} */
+export const IMAGE_SCHEMA = {
+  alt_text: { type: 'string', label: 'Alt text', maxLength: 500 },
+  caption: { type: 'string', label: 'Caption', maxLength: 1000 },
+  position: { type: 'integer', label: 'Position', min: 0, max: 10000 },
+};
+
+// Every image of the post, in the new order
+/** @satisfies {Schema} */
+export const IMAGE_ORDER_SCHEMA = {
+  image_ids: { type: 'ids', label: 'Images', required: true, maxItems: 1000 },
+};
+
+// Query strings arrive as strings, so integers are parsed and a single tag is accepted in place of a list
+/** @satisfies {Schema} */
+export const PAGE_QUERY_SCHEMA = {
+  page: { type: 'integer', label: 'Page', min: 1, max: 10000, default: 1 },
+  pageSize: { type: 'integer', label: 'Page size', min: 1, max: 100, default: 20 },
+};
+
+/** @satisfies {Schema} */
+export const POST_QUERY_SCHEMA = {
+  ...PAGE_QUERY_SCHEMA,
+  pageSize: { ...PAGE_QUERY_SCHEMA.pageSize, default: 10 },
+  search: { type: 'string', label: 'Search', maxLength: 200 },
+  tags: { type: 'array', label: 'Tags', maxItems: 20, itemMaxLength: 50, single: true },
+  category: { type: 'string', label: 'Category', maxLength: 200 },
+  sort: { type: 'string', label: 'Sort', enum: /** @type {const} */ (['relevance', 'newest']) },
+};
+
+// The dashboard loads every post at once and can filter by status
+/** @satisfies {Schema} */
+export const ADMIN_POST_QUERY_SCHEMA = {
+  ...POST_QUERY_SCHEMA,
+  pageSize: { ...POST_QUERY_SCHEMA.pageSize, max: 1000 },
+  status: { type: 'string', label: 'Status', enum: /** @type {const} */ (['published', 'scheduled', 'draft']) },
+};
+
+/** @satisfies {Schema} */
+export const IMAGE_QUERY_SCHEMA = {
+  ...PAGE_QUERY_SCHEMA,
+  pageSize: { ...PAGE_QUERY_SCHEMA.pageSize, default: 24 },
+  q: { type: 'string', label: 'Search', maxLength: 200 },
+};
+
+/** @satisfies {Schema} */
+export const AUTHOR_POSTS_QUERY_SCHEMA = {
+  ...PAGE_QUERY_SCHEMA,
+  pageSize: { ...PAGE_QUERY_SCHEMA.pageSize, default: 9 },
+};
+
+// Preview links last three days unless asked otherwise, and at most 30 days
+/** @satisfies {Schema} */
+export const PREVIEW_TOKEN_SCHEMA = {
+  expires_in_hours: { type: 'integer', label: 'Expiry in hours', min: 1, max: 30 * 24, default: 72 },
+};
+
+export const USER_ROLES = /** @type {const} */ (['admin', 'editor', 'author']);
+
+/** @satisfies {Schema} */
+export const LOGIN_SCHEMA = {
+  email: { type: 'string', label: 'Email', required: true, maxLength: 254 },
+  password: { type: 'string', label: 'Password', required: true, maxLength: 200 },
+};
+
+// Accounts are created by admins; updates can change the name, role and password but not the email
+/** @satisfies {Schema} */
+export const USER_SCHEMA = {
+  email: { type: 'string', label: 'Email', required: true, maxLength: 254 },
+  password: { type: 'string', label: 'Password', required: true, minLength: 8, maxLength: 200 },
+  name: { type: 'string', label: 'Name', maxLength: 100 },
+  role: { type: 'string', label: 'Role', enum: USER_ROLES },
+};
+
+export const SOCIAL_NETWORKS = /** @type {const} */ (['website', 'twitter', 'github', 'linkedin', 'mastodon']);
+
+/** @satisfies {Schema} */
+export const AUTHOR_SCHEMA = {
+  name: { type: 'string', label: 'Name', required: true, maxLength: 100 },
+  bio: { type: 'string', label: 'Bio', maxLength: 2000 },
+  avatar: { type: 'string', label: 'Avatar', nullable: true, maxLength: 2048 },
+  social_links: { type: 'record', label: 'Social links', keys: SOCIAL_NETWORKS, itemMaxLength: 2048, urls: true },
+  user_id: { type: 'id', label: 'User', nullable: true },
+};
+
+/** @satisfies {Schema} */
+export const CATEGORY_SCHEMA = {
+  name: { type: 'string', label: 'Name', required: true, maxLength: 100 },
+  description: { type: 'string', label: 'Description', maxLength: 1000 },
+  parent_id: { type: 'id', label: 'Parent category', nullable: true },
+};
+
+// post_ids is the ordered list of parts
+/** @satisfies {Schema} */
+export const SERIES_SCHEMA = {
+  title: { type: 'string', label: 'Title', required: true, maxLength: 200 },
+  description: { type: 'string', label: 'Description', maxLength: 1000 },
+  post_ids: { type: 'ids', label: 'Posts', maxItems: 200 },
+};
+
+/** @satisfies {Schema} */
+export const TAG_RENAME_SCHEMA = {
+  name: { type: 'string', label: 'New tag name', required: true, maxLength: 50 },
+};
+
+/** @satisfies {Schema} */
+export const TAG_MERGE_SCHEMA = {
+  sources: { type: 'array', label: 'Source tags', required: true, maxItems: 100, itemMaxLength: 50 },
+  target: { type: 'string', label: 'Target tag', required: true, maxLength: 50 },
+};
+
+export const COMMENT_STATUSES = /** @type {const} */ (['pending', 'approved', 'rejected', 'spam']);
+
+// A reader's comment; `website` is a honeypot that only bots fill in
+/** @satisfies {Schema} */
+export const COMMENT_SCHEMA = {
+  author_name: { type: 'string', label: 'Name', required: true, maxLength: 100 },
+  author_email: { type: 'string', label: 'Email', maxLength: 254 },
+  content: { type: 'string', label: 'Comment', required: true, maxLength: 5000 },
+  parent_id: { type: 'id', label: 'Parent comment', nullable: true },
+  website: { type: 'string', label: 'Website', maxLength: 2048 },
+};
+
+/** @satisfies {Schema} */
+export const COMMENT_QUERY_SCHEMA = {
+  ...PAGE_QUERY_SCHEMA,
+  status: { type: 'string', label: 'Status', enum: /** @type {const} */ (['all', ...COMMENT_STATUSES]), default: 'pending' },
+};
+
+/** @satisfies {Schema} */
+export const COMMENT_MODERATION_SCHEMA = {
+  status: { type: 'string', label: 'Status', required: true, enum: COMMENT_STATUSES },
+};
+
+/** @satisfies {Schema} */
+export const COMMENT_BULK_SCHEMA = {
+  ids: { type: 'ids', label: 'Comments', required: true, maxItems: 500 },
+  action: { type: 'string', label: 'Action', required: true, enum: /** @type {const} */ (['delete', ...COMMENT_STATUSES]) },
+};
+
+/**
+ * @typedef {SchemaInput<typeof POST_SCHEMA>} PostInput
+ * @typedef {SchemaInput<typeof IMAGE_SCHEMA>} ImageInput
+ * @typedef {SchemaInput<typeof POST_QUERY_SCHEMA>} PostQuery
+ * @typedef {SchemaInput<typeof ADMIN_POST_QUERY_SCHEMA>} AdminPostQuery
+ * @typedef {SchemaInput<typeof IMAGE_QUERY_SCHEMA>} ImageQuery
+ */
+
+/**
+ * Checks one present value against its rule; returns [value, error message]
+ * @param {FieldRule} rule
+ * @param {unknown} input
+ * @returns {[unknown, string?]}
+ */
+function validateField(rule, input) {
+  const { label } = rule;
+
+  if (input === null || (input === '' && (rule.type === 'date' || rule.type === 'id'))) {
+    return rule.nullable ? [null] : [undefined, `${label} is required`];
+  }
+
+  switch (rule.type) {
+    case 'string': {
+      if (typeof input !== 'string') return [undefined, `${label} must be text`];
+      if (rule.required && !input.trim()) return [undefined, `${label} is required`];
+      if (rule.minLength && input.length < rule.minLength) {
+        return [undefined, `${label} must be at least ${rule.minLength} characters`];
+      }
+      if (rule.maxLength && input.length > rule.maxLength) {
+        return [undefined, `${label} must be at most ${rule.maxLength} characters`];
+      }
+      if (rule.enum && !rule.enum.includes(input)) {
+        return [undefined, `${label} must be one of: ${rule.enum.join(', ')}`];
+      }
+      return [input];
+    }
+    case 'integer': {
+      const number = typeof input === 'string' && INTEGER.test(input.trim()) ? Number(input) : input;
+      if (typeof number !== 'number' || !Number.isInteger(number)) return [undefined, `${label} must be a whole number`];
+      if (rule.min !== undefined && number < rule.min) return [undefined, `${label} must be at least ${rule.min}`];
+      if (rule.max !== undefined && number > rule.max) return [undefined, `${label} must be at most ${rule.max}`];
+      return [number];
+    }
+    case 'boolean':
+      return typeof input === 'boolean' ? [input] : [undefined, `${label} must be true or false`];
+    case 'array': {
+      const items = rule.single && typeof input === 'string' ? [input] : input;
+      if (!Array.isArray(items)) return [undefined, `${label} must be a list`];
+      if (rule.required && items.length === 0) return [undefined, `${label} is required`];
+      if (rule.maxItems && items.length > rule.maxItems) {
+        return [undefined, `${label} can have at most ${rule.maxItems} entries`];
+      }
+      if (items.some(item => typeof item !== 'string' || (rule.itemMaxLength && item.length > rule.itemMaxLength))) {
+        return [undefined, `Each entry in ${label} must be text of at most ${rule.itemMaxLength} characters`];
+      }
+      return [items];
+    }
+    case 'ids': {
+      if (!Array.isArray(input)) return [undefined, `${label} must be a list`];
+      if (rule.required && input.length === 0) return [undefined, `${label} is required`];
+      if (rule.maxItems && input.length > rule.maxItems) {
+        return [undefined, `${label} can have at most ${rule.maxItems} entries`];
+      }
+      if (!input.every(id => typeof id === 'string' && OBJECT_ID.test(id))) {
+        return [undefined, `${label} has an id that is not valid`];
+      }
+      return [[...new Set(input)]];
+    }
+    case 'record': {
+      if (typeof input !== 'object' || Array.isArray(input)) return [undefined, `${label} must be an object`];
+      const entries = /** @type {Record<string, unknown>} */ (input);
+      /** @type {Record<string, string>} */
+      const record = {};
+      for (const key of rule.keys) {
+        const item = entries[key];
+        if (item === undefined || item === null) continue;
+        if (typeof item !== 'string' || (rule.itemMaxLength && item.length > rule.itemMaxLength)) {
+          return [undefined, `Each entry in ${label} must be text of at most ${rule.itemMaxLength} characters`];
+        }
+        if (!item.trim()) continue;
+        if (rule.urls && !isWebUrl(item.trim())) return [undefined, `Each entry in ${label} must be an http or https URL`];
+        record[key] = item.trim();
+      }
+      return [record];
+    }
+    case 'date': {
+      const valid = (typeof input === 'string' || input instanceof Date) && !isNaN(new Date(input).getTime());
+      return valid ? [input] : [undefined, `${label} must be a valid date`];
+    }
+    case 'id':
+      return typeof input === 'string' && OBJECT_ID.test(input) ? [input] : [undefined, `${label} is not valid`];
+    default:
+      return [undefined, `${label} cannot be checked`];
+  }
+}
+
+/**
+ * Validates input against a schema. With `partial` (updates), required fields may be left out but not emptied.
+ * Returns the accepted fields, with defaults filled in, and errors keyed by field - null when all is well.
+ * @template {Schema} S
+ * @param {S} schema
+ * @param {unknown} input
+ * @param {{ partial?: boolean }} [options]
+ * @returns {{ value: Partial<SchemaInput<S>>, errors: FieldErrors | null }}
+ */
+export function validate(schema, input, { partial = false } = {}) {
+  const source = /** @type {Record<string, unknown>} */ (input && typeof input === 'object' ? input : {});
+  /** @type {Record<string, unknown>} */
+  const value = {};
+  /** @type {FieldErrors} */
+  const errors = {};
+
+  Object.entries(schema).forEach(([field, rule]) => {
+    if (source[field] === undefined) {
+      if ('default' in rule && rule.default !== undefined) value[field] = rule.default;
+      else if (rule.required && !partial) errors[field] = `${rule.label} is required`;
+      return;
+    }
+
+    if (rule.type === 'object') {
+      const nested = source[field];
+      if (!nested || typeof nested !== 'object' || Array.isArray(nested)) {
+        errors[field] = `${rule.label} must be an object`;
+        return;
+      }
+      const result = validate(rule.schema, nested);
+      if (result.errors) {
+        Object.entries(result.errors).forEach(([nestedField, error]) => (errors[`${field}.${nestedField}`] = error));
+      } else {
+        value[field] = result.value;
+      }
+      return;
+    }
+
+    const [fieldValue, error] = validateField(rule, source[field]);
+    if (error) errors[field] = error;
+    else value[field] = fieldValue;
+  });
+
+  return { value: /** @type {Partial<SchemaInput<S>>} */ (value), errors: Object.keys(errors).length > 0 ? errors : null };
+}
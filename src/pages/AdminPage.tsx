@@ -1,64 +1,186 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { ArrowLeft, Plus, Edit, Trash2, Eye, Save, X, Calendar, Tag, Image, Upload, Trash } from 'lucide-react';
+import { ArrowLeft, Plus, Edit, Trash2, Eye, Save, X, Calendar, Tag, Image, Images, Upload, Trash, LogOut, History, Link2, ChevronLeft, ChevronRight } from 'lucide-react';
 import { MarkdownEditor } from '../components/MarkdownEditor';
 import { LoadingSpinner } from '../components/LoadingSpinner';
-import { BlogAPI } from '../lib/api';
-import type { BlogPost } from '../lib/api';
+import { LoginForm } from '../components/LoginForm';
+import { RevisionsPanel } from '../components/RevisionsPanel';
+import { PreviewLinksPanel } from '../components/PreviewLinksPanel';
+import { CommentModeration } from '../components/CommentModeration';
+import { AuthorManager } from '../components/AuthorManager';
+import { CategoryManager } from '../components/CategoryManager';
+import { SeriesManager } from '../components/SeriesManager';
+import { TagManager } from '../components/TagManager';
+import { MediaLibrary } from '../components/MediaLibrary';
+import { MediaPicker } from '../components/MediaPicker';
+import { AutosaveStatus } from '../components/AutosaveStatus';
+import { PostConflictDialog } from '../components/PostConflictDialog';
+import { BlogAPI, ApiError, PostConflictError, errorMessage } from '../lib/api';
+import type { Author, AuthUser, BlogPost, Category, MediaImage, PostDraft, PostFormData } from '../lib/api';
+import { flattenCategoryTree } from '../lib/categories';
+import { validate, POST_SCHEMA } from '../lib/schemas';
+import type { FieldErrors, PostInput } from '../lib/schemas';
+import { findRecoverableDraft, useDraftAutosave } from '../lib/drafts';
 
 interface AdminPageProps {
   onBackClick: () => void;
 }
 
-interface PostFormData {
-  title: string;
-  excerpt: string;
-  content: string;
-  tags: string[];
-  featured_image: string;
-  published: boolean;
+// Formats a date for a datetime-local input, in the browser's timezone
+function toDateTimeLocal(date?: Date | string | null): string {
+  if (!date) return '';
+  const value = new Date(date);
+  if (isNaN(value.getTime())) return '';
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}T${pad(value.getHours())}:${pad(value.getMinutes())}`;
 }
 
-interface PostImage {
-  _id: string;
-  image_url: string;
-  alt_text: string;
-  caption: string;
-  position: number;
+// The editor form's view of a saved post
+function postToFormData(post: BlogPost): PostFormData {
+  return {
+    title: post.title,
+    slug: post.slug,
+    excerpt: post.excerpt || '',
+    content: post.content,
+    tags: post.tags || [],
+    featured_image: post.featured_image || '',
+    published: post.published || Boolean(post.scheduled_at),
+    published_at: toDateTimeLocal(post.scheduled_at || post.published_at),
+    author_id: post.author_id || '',
+    category_id: post.category_id || '',
+    show_toc: post.show_toc !== false,
+  };
+}
+
+// The publish date to send for the post being edited. The form only holds whole minutes, so an untouched
+// date is not sent back: a published post keeps its date, and a scheduled one is resent unrounded.
+function publishDateInput(formData: PostFormData, post?: BlogPost | null): PostInput['published_at'] {
+  const saved = post?.scheduled_at || post?.published_at;
+  if (post && formData.published_at === toDateTimeLocal(saved)) {
+    return post.scheduled_at ? post.scheduled_at : undefined;
+  }
+  return formData.published_at ? new Date(formData.published_at) : undefined;
+}
+
+// What the editor form sends to the API when saving `post` (none when creating one)
+function formDataToPostInput(formData: PostFormData, post?: BlogPost | null): PostInput {
+  return {
+    title: formData.title,
+    slug: formData.slug,
+    excerpt: formData.excerpt,
+    content: formData.content,
+    tags: formData.tags,
+    featured_image: formData.featured_image,
+    published: formData.published,
+    published_at: publishDateInput(formData, post),
+    author_id: formData.author_id || null,
+    category_id: formData.category_id || null,
+    show_toc: formData.show_toc,
+  };
+}
+
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return <p className="mt-1 text-sm text-red-600">{message}</p>;
+}
+
+type PostStatus = 'published' | 'scheduled' | 'draft';
+
+function getPostStatus(post: BlogPost): PostStatus {
+  if (post.published) return 'published';
+  if (post.scheduled_at) return 'scheduled';
+  return 'draft';
 }
 
+const statusStyles: Record<PostStatus, { label: string; className: string }> = {
+  published: { label: 'Published', className: 'bg-green-100 text-green-800' },
+  scheduled: { label: 'Scheduled', className: 'bg-blue-100 text-blue-800' },
+  draft: { label: 'Draft', className: 'bg-yellow-100 text-yellow-800' },
+};
+
+type AdminTab = 'posts' | 'comments' | 'authors' | 'categories' | 'series' | 'tags' | 'media';
+
 export function AdminPage({ onBackClick }: AdminPageProps) {
+  const [currentUser, setCurrentUser] = useState<AuthUser | null>(null);
+  const [checkingAuth, setCheckingAuth] = useState(true);
   const [posts, setPosts] = useState<BlogPost[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Problems with individual post fields, shown next to them
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
   const [isEditing, setIsEditing] = useState(false);
   const [editingPost, setEditingPost] = useState<BlogPost | null>(null);
   const [showForm, setShowForm] = useState(false);
   const [saving, setSaving] = useState(false);
+  const [showRevisions, setShowRevisions] = useState(false);
+  const [showPreviewLinks, setShowPreviewLinks] = useState(false);
+  const [activeTab, setActiveTab] = useState<AdminTab>('posts');
   const [isTransitioning, setIsTransitioning] = useState(false);
 
   const [formData, setFormData] = useState<PostFormData>({
     title: '',
+    slug: '',
     excerpt: '',
     content: '',
     tags: [],
     featured_image: '',
     published: false,
+    published_at: '',
+    author_id: '',
+    category_id: '',
+    show_toc: true,
   });
 
+  const [authors, setAuthors] = useState<Author[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [slugEdited, setSlugEdited] = useState(false);
   const [newTag, setNewTag] = useState('');
-  const [postImages, setPostImages] = useState<PostImage[]>([]);
+  const [postImages, setPostImages] = useState<MediaImage[]>([]);
   const [uploadingImage, setUploadingImage] = useState(false);
+  const [showFeaturedPicker, setShowFeaturedPicker] = useState(false);
+  const [recoverableDraft, setRecoverableDraft] = useState<PostDraft | null>(null);
+  // The newer version of the post found when saving, while the merge or overwrite dialog is open
+  const [conflict, setConflict] = useState<BlogPost | null>(null);
+  const [mergeNotice, setMergeNotice] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const autosave = useDraftAutosave({
+    userId: currentUser?._id || null,
+    postId: editingPost?.id || null,
+    data: formData,
+    enabled: showForm,
+  });
+
+  // Validate any stored session, and drop back to the login screen when it expires
   useEffect(() => {
-    fetchPosts();
+    BlogAPI.getCurrentUser().then((user) => {
+      setCurrentUser(user);
+      setCheckingAuth(false);
+    });
+
+    return BlogAPI.onAuthChange((session) => {
+      setCurrentUser(session ? session.user : null);
+    });
   }, []);
 
+  useEffect(() => {
+    if (currentUser) {
+      fetchPosts();
+      BlogAPI.getAuthors().then(setAuthors);
+      BlogAPI.getCategories().then(setCategories);
+    }
+  }, [currentUser]);
+
+  const handleLogout = () => {
+    BlogAPI.logout();
+    setShowForm(false);
+    setPosts([]);
+  };
+
   const fetchPosts = async () => {
     try {
       setLoading(true);
       setIsTransitioning(true);
-      const allPosts = await BlogAPI.getAllPosts();
+      const allPosts = await BlogAPI.getAdminPosts();
       setPosts(allPosts);
       setError(null);
     } catch (err) {
@@ -69,32 +191,64 @@ export function AdminPage({ onBackClick }: AdminPageProps) {
     }
   };
 
+  // Starts autosaving from the loaded contents and offers a newer autosaved draft if there is one
+  const checkForDraft = async (initial: PostFormData, post: BlogPost | null) => {
+    setRecoverableDraft(null);
+    autosave.reset(initial);
+    if (!currentUser) return;
+    setRecoverableDraft(await findRecoverableDraft(currentUser._id, post?.id || null, initial, post?.updated_at));
+  };
+
+  const handleRecoverDraft = () => {
+    if (!recoverableDraft) return;
+    setFormData({ ...formData, ...recoverableDraft.data });
+    setSlugEdited(true);
+    setRecoverableDraft(null);
+  };
+
+  const handleDiscardDraft = () => {
+    setRecoverableDraft(null);
+    autosave.discardDraft();
+  };
+
   const handleCreatePost = () => {
-    setFormData({
+    const initial: PostFormData = {
       title: '',
+      slug: '',
       excerpt: '',
       content: '',
       tags: [],
       featured_image: '',
       published: false,
-    });
+      published_at: '',
+      author_id: '',
+      category_id: '',
+      show_toc: true,
+    };
+    setFormData(initial);
     setEditingPost(null);
     setIsEditing(false);
+    setSlugEdited(false);
+    setShowRevisions(false);
+    setShowPreviewLinks(false);
+    setFieldErrors({});
     setShowForm(true);
+    checkForDraft(initial, null);
   };
 
   const handleEditPost = async (post: BlogPost) => {
-    setFormData({
-      title: post.title,
-      excerpt: post.excerpt || '',
-      content: post.content,
-      tags: post.tags || [],
-      featured_image: post.featured_image || '',
-      published: post.published,
-    });
+    const initial = postToFormData(post);
+    setFormData(initial);
     setEditingPost(post);
+    setConflict(null);
+    setMergeNotice(null);
     setIsEditing(true);
+    setSlugEdited(true);
+    setShowRevisions(false);
+    setShowPreviewLinks(false);
+    setFieldErrors({});
     setShowForm(true);
+    checkForDraft(initial, post);
     
     // Load post images
     try {
@@ -106,70 +260,115 @@ export function AdminPage({ onBackClick }: AdminPageProps) {
     }
   };
 
-  const handleSavePost = async () => {
+  // `version` is the post version the update is based on; it defaults to the one the editor loaded
+  const handleSavePost = async (version?: string) => {
+    const input = formDataToPostInput(formData, isEditing ? editingPost : null);
+
+    // The server checks the same schema; checking here first avoids a round trip for most mistakes
+    const { errors } = validate(POST_SCHEMA, input);
+    setFieldErrors(errors || {});
+    if (errors) return;
+
     try {
       setSaving(true);
       
       if (isEditing && editingPost) {
         // Update existing post
-        const updatedPost = await BlogAPI.updatePost(editingPost.id, {
-          title: formData.title,
-          excerpt: formData.excerpt,
-          content: formData.content,
-          tags: formData.tags,
-          featured_image: formData.featured_image,
-          published: formData.published,
-        });
+        const updatedPost = await BlogAPI.updatePost(editingPost.id, input, version ?? BlogAPI.getPostVersion(editingPost));
         
         setPosts(posts.map(p => p.id === editingPost.id ? updatedPost : p));
       } else {
         // Create new post
-        const newPost = await BlogAPI.createPost({
-          title: formData.title,
-          excerpt: formData.excerpt,
-          content: formData.content,
-          tags: formData.tags,
-          featured_image: formData.featured_image,
-          published: formData.published,
-        });
+        const newPost = await BlogAPI.createPost(input);
         
         setPosts([newPost, ...posts]);
       }
       
+      autosave.discardDraft();
+      setConflict(null);
+      setMergeNotice(null);
       setShowForm(false);
       setFormData({
         title: '',
+        slug: '',
         excerpt: '',
         content: '',
         tags: [],
         featured_image: '',
         published: false,
+        published_at: '',
+        author_id: '',
+        category_id: '',
+        show_toc: true,
       });
       setEditingPost(null);
       setIsEditing(false);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to save post');
+      if (err instanceof PostConflictError) {
+        setConflict(err.current);
+      } else {
+        if (err instanceof ApiError) setFieldErrors(err.fields);
+        setError(err instanceof Error ? err.message : 'Failed to save post');
+      }
+      // Keep the unsaved work safe while the problem is sorted out
+      autosave.saveDraft();
     } finally {
       setSaving(false);
     }
   };
 
+  // Continues editing on top of the other version, so the next save is checked against it
+  const handleMergeConflict = (merged: PostFormData, conflicts: string[]) => {
+    if (!conflict) return;
+    setFormData(merged);
+    setEditingPost(conflict);
+    setPosts(posts.map(p => p.id === conflict.id ? conflict : p));
+    setMergeNotice(conflicts.length
+      ? `Merged with the other changes. Check these before saving: ${conflicts.join(', ')}.`
+      : 'Merged with the other changes. Review the post and save it.');
+    setConflict(null);
+  };
+
+  // New posts follow the title until the slug is edited by hand; existing slugs never change implicitly
+  const handleTitleChange = (title: string) => {
+    setFormData({
+      ...formData,
+      title,
+      slug: slugEdited ? formData.slug : BlogAPI.generateSlug(title),
+    });
+  };
+
+  const handleRestoreRevision = (restoredPost: BlogPost) => {
+    setFormData({
+      ...formData,
+      title: restoredPost.title,
+      excerpt: restoredPost.excerpt || '',
+      content: restoredPost.content,
+      tags: restoredPost.tags || [],
+      featured_image: restoredPost.featured_image || '',
+    });
+    setEditingPost(restoredPost);
+    setPosts(posts.map(p => p.id === restoredPost.id ? restoredPost : p));
+    setShowRevisions(false);
+  };
+
   const handleDeletePost = async (postId: string) => {
     if (window.confirm('Are you sure you want to delete this post?')) {
       try {
         await BlogAPI.deletePost(postId);
         setPosts(posts.filter(p => p.id !== postId));
       } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to delete post');
+        setError(errorMessage(err, 'Failed to delete post'));
       }
     }
   };
 
   const handleAddTag = () => {
-    if (newTag.trim() && !formData.tags.includes(newTag.trim())) {
+    const tag = BlogAPI.normalizeTag(newTag);
+    if (tag && !formData.tags.includes(tag)) {
       setFormData({
         ...formData,
-        tags: [...formData.tags, newTag.trim()],
+        tags: [...formData.tags, tag],
       });
       setNewTag('');
     }
@@ -209,7 +408,7 @@ export function AdminPage({ onBackClick }: AdminPageProps) {
       }
     } catch (error) {
       console.error('Error uploading image:', error);
-      setError('Failed to upload image');
+      setError(errorMessage(error, 'Failed to upload image'));
     } finally {
       setUploadingImage(false);
       if (fileInputRef.current) {
@@ -218,13 +417,51 @@ export function AdminPage({ onBackClick }: AdminPageProps) {
     }
   };
 
+  // Images dropped or pasted into the editor: attached to the post when it exists, otherwise plain uploads
+  const handleEditorImageUpload = async (file: File, altText: string, onProgress: (progress: number) => void) => {
+    if (isEditing && editingPost) {
+      const image = await BlogAPI.addImageToPost(editingPost.id, file, altText, '', postImages.length, onProgress);
+      setPostImages(images => [...images, image]);
+      return image;
+    }
+    const { image } = await BlogAPI.uploadImage(file, onProgress);
+    return image;
+  };
+
   const handleRemoveImage = async (imageId: string) => {
+    if (!window.confirm('Delete this image and its files?')) return;
     try {
-      // Note: You might want to add a delete image API endpoint
+      await BlogAPI.deleteImage(imageId);
       setPostImages(postImages.filter(img => img._id !== imageId));
     } catch (error) {
       console.error('Error removing image:', error);
-      setError('Failed to remove image');
+      setError(errorMessage(error, 'Failed to remove image'));
+    }
+  };
+
+  const handleMoveImage = async (index: number, offset: number) => {
+    if (!editingPost) return;
+    const reordered = [...postImages];
+    const [moved] = reordered.splice(index, 1);
+    reordered.splice(index + offset, 0, moved);
+    setPostImages(reordered);
+    try {
+      setPostImages(await BlogAPI.reorderPostImages(editingPost.id, reordered.map(img => img._id)));
+    } catch (error) {
+      console.error('Error reordering images:', error);
+      setError(errorMessage(error, 'Failed to reorder images'));
+      setPostImages(postImages);
+    }
+  };
+
+  const handleImageAltText = async (image: MediaImage, altText: string) => {
+    if (altText === image.alt_text) return;
+    try {
+      const updated = await BlogAPI.updateImage(image._id, { alt_text: altText });
+      setPostImages(images => images.map(img => (img._id === updated._id ? updated : img)));
+    } catch (error) {
+      console.error('Error updating image:', error);
+      setError(errorMessage(error, 'Failed to update image'));
     }
   };
 
@@ -238,6 +475,19 @@ export function AdminPage({ onBackClick }: AdminPageProps) {
     });
   };
 
+  if (checkingAuth) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+        <span className="ml-3 text-gray-600">Checking session...</span>
+      </div>
+    );
+  }
+
+  if (!currentUser) {
+    return <LoginForm onLogin={setCurrentUser} onBackClick={onBackClick} />;
+  }
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -265,13 +515,28 @@ export function AdminPage({ onBackClick }: AdminPageProps) {
                 Admin Panel
               </h1>
             </div>
-            <button
-              onClick={handleCreatePost}
-              className="flex items-center space-x-2 bg-gradient-primary text-white px-6 py-3 rounded-xl hover:shadow-xl hover-lift transition-all duration-300 font-medium"
-            >
-              <Plus className="w-5 h-5" />
-              <span>New Post</span>
-            </button>
+            <div className="flex items-center space-x-4">
+              <span className="text-sm text-gray-600">
+                {currentUser.name || currentUser.email}
+                <span className="ml-2 px-2 py-0.5 rounded-full bg-blue-50 text-blue-700 text-xs font-medium capitalize">
+                  {currentUser.role}
+                </span>
+              </span>
+              <button
+                onClick={handleLogout}
+                className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-all duration-200"
+                title="Sign out"
+              >
+                <LogOut className="w-5 h-5" />
+              </button>
+              <button
+                onClick={handleCreatePost}
+                className="flex items-center space-x-2 bg-gradient-primary text-white px-6 py-3 rounded-xl hover:shadow-xl hover-lift transition-all duration-300 font-medium"
+              >
+                <Plus className="w-5 h-5" />
+                <span>New Post</span>
+              </button>
+            </div>
           </div>
         </div>
       </header>
@@ -285,8 +550,39 @@ export function AdminPage({ onBackClick }: AdminPageProps) {
           </div>
         )}
 
+        {/* Tabs */}
+        {!showForm && (currentUser.role === 'admin' || currentUser.role === 'editor') && (
+          <div className="flex gap-2 mb-8">
+            {(['posts', 'comments', 'authors', 'categories', 'series', 'tags', 'media'] as AdminTab[]).map(tab => (
+              <button
+                key={tab}
+                onClick={() => setActiveTab(tab)}
+                className={`px-5 py-2.5 rounded-xl font-medium capitalize transition-all duration-200 ${
+                  activeTab === tab ? 'bg-gradient-primary text-white shadow-lg' : 'text-gray-600 hover:text-blue-600 hover:bg-blue-50'
+                }`}
+              >
+                {tab}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Comment Moderation */}
+        {!showForm && activeTab === 'comments' && <CommentModeration />}
+
+        {/* Author Profiles */}
+        {!showForm && activeTab === 'authors' && <AuthorManager canDelete={currentUser.role === 'admin'} />}
+
+        {/* Categories, Series and Tags */}
+        {!showForm && activeTab === 'categories' && <CategoryManager />}
+        {!showForm && activeTab === 'series' && <SeriesManager posts={posts} />}
+        {!showForm && activeTab === 'tags' && <TagManager />}
+
+        {/* Media Library */}
+        {!showForm && activeTab === 'media' && <MediaLibrary />}
+
         {/* Posts List */}
-        {!showForm && (
+        {!showForm && activeTab === 'posts' && (
           <div className="space-y-6">
             {posts.length === 0 ? (
               <div className="text-center py-20">
@@ -314,14 +610,15 @@ export function AdminPage({ onBackClick }: AdminPageProps) {
                         <div className="flex items-center gap-3 mb-3">
                           <h3 className="text-xl font-semibold text-gray-900">{post.title}</h3>
                           <span
-                            className={`px-3 py-1 rounded-full text-xs font-medium ${
-                              post.published
-                                ? 'bg-green-100 text-green-800'
-                                : 'bg-yellow-100 text-yellow-800'
-                            }`}
+                            className={`px-3 py-1 rounded-full text-xs font-medium ${statusStyles[getPostStatus(post)].className}`}
                           >
-                            {post.published ? 'Published' : 'Draft'}
+                            {statusStyles[getPostStatus(post)].label}
                           </span>
+                          {post.scheduled_at && !post.published && (
+                            <span className="text-xs text-blue-700">
+                              {formatDate(String(post.scheduled_at))}
+                            </span>
+                          )}
                         </div>
                         
                         {post.excerpt && (
@@ -393,15 +690,109 @@ export function AdminPage({ onBackClick }: AdminPageProps) {
               <h2 className="text-2xl font-bold text-gray-900">
                 {isEditing ? 'Edit Post' : 'Create New Post'}
               </h2>
-              <button
-                onClick={() => setShowForm(false)}
-                className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-all duration-200"
-              >
-                <X className="w-6 h-6" />
-              </button>
+              <div className="flex items-center gap-2">
+                <AutosaveStatus savedAt={autosave.savedAt} error={autosave.error} />
+                {isEditing && editingPost && (
+                  <button
+                    onClick={() => setShowRevisions(!showRevisions)}
+                    className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-all duration-200 ${
+                      showRevisions ? 'bg-blue-100 text-blue-700' : 'text-gray-600 hover:text-blue-600 hover:bg-blue-50'
+                    }`}
+                    title="Revision history"
+                  >
+                    <History className="w-5 h-5" />
+                    <span>History</span>
+                  </button>
+                )}
+                {isEditing && editingPost && !editingPost.published && (
+                  <button
+                    onClick={() => setShowPreviewLinks(!showPreviewLinks)}
+                    className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-all duration-200 ${
+                      showPreviewLinks ? 'bg-blue-100 text-blue-700' : 'text-gray-600 hover:text-blue-600 hover:bg-blue-50'
+                    }`}
+                    title="Share a preview with reviewers"
+                  >
+                    <Link2 className="w-5 h-5" />
+                    <span>Preview links</span>
+                  </button>
+                )}
+                <button
+                  onClick={() => setShowForm(false)}
+                  className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-all duration-200"
+                >
+                  <X className="w-6 h-6" />
+                </button>
+              </div>
             </div>
 
-            <div className="space-y-6">
+            {showRevisions && editingPost && (
+              <div className="mb-8">
+                <RevisionsPanel
+                  postId={editingPost.id}
+                  version={BlogAPI.getPostVersion(editingPost)}
+                  onRestore={handleRestoreRevision}
+                  onClose={() => setShowRevisions(false)}
+                />
+              </div>
+            )}
+
+            {showPreviewLinks && editingPost && (
+              <div className="mb-8">
+                <PreviewLinksPanel postId={editingPost.id} onClose={() => setShowPreviewLinks(false)} />
+              </div>
+            )}
+
+            {mergeNotice && (
+              <div className="mb-8 flex items-center justify-between gap-4 bg-blue-50 border border-blue-200 rounded-xl p-4 text-blue-800">
+                <span>{mergeNotice}</span>
+                <button
+                  onClick={() => setMergeNotice(null)}
+                  title="Dismiss"
+                  className="p-1 hover:bg-blue-100 rounded-lg transition-colors duration-200"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+
+            {conflict && editingPost && (
+              <PostConflictDialog
+                base={postToFormData(editingPost)}
+                mine={formData}
+                theirs={postToFormData(conflict)}
+                theirsSavedAt={conflict.updated_at}
+                saving={saving}
+                onMerge={handleMergeConflict}
+                onOverwrite={() => handleSavePost(BlogAPI.getPostVersion(conflict))}
+                onCancel={() => setConflict(null)}
+              />
+            )}
+
+            {recoverableDraft && (
+              <div className="mb-8 flex flex-wrap items-center justify-between gap-4 bg-amber-50 border border-amber-200 rounded-xl p-4 text-amber-800">
+                <span>
+                  You have unsaved changes to this post from {new Date(recoverableDraft.saved_at).toLocaleString('en-US')}.
+                </span>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={handleRecoverDraft}
+                    className="flex items-center gap-2 px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors duration-200"
+                  >
+                    <History className="w-4 h-4" />
+                    <span>Recover draft</span>
+                  </button>
+                  <button
+                    onClick={handleDiscardDraft}
+                    className="px-4 py-2 text-amber-800 hover:bg-amber-100 rounded-lg transition-colors duration-200"
+                  >
+                    Discard
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* Blurring any field saves the draft right away */}
+            <div className="space-y-6" onBlur={autosave.saveDraft}>
               {/* Title */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -410,10 +801,78 @@ export function AdminPage({ onBackClick }: AdminPageProps) {
                 <input
                   type="text"
                   value={formData.title}
-                  onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                  onChange={(e) => handleTitleChange(e.target.value)}
                   className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
                   placeholder="Enter post title..."
                 />
+                <FieldError message={fieldErrors.title} />
+              </div>
+
+              {/* Slug */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Slug
+                </label>
+                <div className="flex items-center">
+                  <span className="px-4 py-3 bg-gray-50 border border-r-0 border-gray-300 rounded-l-xl text-gray-500 text-sm">
+                    #/post/
+                  </span>
+                  <input
+                    type="text"
+                    value={formData.slug}
+                    onChange={(e) => {
+                      setSlugEdited(true);
+                      setFormData({ ...formData, slug: e.target.value });
+                    }}
+                    onBlur={() => setFormData({ ...formData, slug: BlogAPI.generateSlug(formData.slug) })}
+                    className="flex-1 px-4 py-3 border border-gray-300 rounded-r-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 font-mono text-sm"
+                    placeholder="post-url-slug"
+                  />
+                </div>
+                {isEditing && editingPost && formData.slug !== editingPost.slug && (
+                  <p className="mt-1 text-sm text-gray-500">
+                    Links to <span className="font-mono">{editingPost.slug}</span> will redirect to the new slug.
+                  </p>
+                )}
+                <FieldError message={fieldErrors.slug} />
+              </div>
+
+              {/* Author */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Author
+                </label>
+                <select
+                  value={formData.author_id}
+                  onChange={(e) => setFormData({ ...formData, author_id: e.target.value })}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                >
+                  <option value="">{isEditing ? 'No author' : 'My author profile'}</option>
+                  {authors.map(author => (
+                    <option key={author._id} value={author._id}>{author.name}</option>
+                  ))}
+                </select>
+                <FieldError message={fieldErrors.author_id} />
+              </div>
+
+              {/* Category */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Category
+                </label>
+                <select
+                  value={formData.category_id}
+                  onChange={(e) => setFormData({ ...formData, category_id: e.target.value })}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                >
+                  <option value="">Uncategorized</option>
+                  {flattenCategoryTree(categories).map(({ category, depth }) => (
+                    <option key={category._id} value={category._id}>
+                      {'\u00A0\u00A0'.repeat(depth)}{category.name}
+                    </option>
+                  ))}
+                </select>
+                <FieldError message={fieldErrors.category_id} />
               </div>
 
               {/* Excerpt */}
@@ -428,6 +887,7 @@ export function AdminPage({ onBackClick }: AdminPageProps) {
                   rows={3}
                   placeholder="Enter post excerpt..."
                 />
+                <FieldError message={fieldErrors.excerpt} />
               </div>
 
               {/* Featured Image */}
@@ -469,7 +929,26 @@ export function AdminPage({ onBackClick }: AdminPageProps) {
                       )}
                       <span>{uploadingImage ? 'Uploading...' : 'Upload Image'}</span>
                     </button>
+                    <button
+                      type="button"
+                      onClick={() => setShowFeaturedPicker(true)}
+                      className="flex items-center space-x-2 px-4 py-2 border border-blue-600 text-blue-600 rounded-lg hover:bg-blue-50 transition-colors duration-200"
+                    >
+                      <Images className="w-4 h-4" />
+                      <span>Choose from Library</span>
+                    </button>
                   </div>
+
+                  {showFeaturedPicker && (
+                    <MediaPicker
+                      title="Choose a featured image"
+                      onSelect={(image) => {
+                        setFormData({ ...formData, featured_image: image.image_url });
+                        setShowFeaturedPicker(false);
+                      }}
+                      onClose={() => setShowFeaturedPicker(false)}
+                    />
+                  )}
                   
                   {/* Featured Image Preview */}
                   {formData.featured_image && (
@@ -489,6 +968,7 @@ export function AdminPage({ onBackClick }: AdminPageProps) {
                     </div>
                   )}
                 </div>
+                <FieldError message={fieldErrors.featured_image} />
               </div>
 
               {/* Tags */}
@@ -528,6 +1008,7 @@ export function AdminPage({ onBackClick }: AdminPageProps) {
                     Add
                   </button>
                 </div>
+                <FieldError message={fieldErrors.tags} />
               </div>
 
               {/* Post Images (only when editing) */}
@@ -563,23 +1044,51 @@ export function AdminPage({ onBackClick }: AdminPageProps) {
                     {/* Post Images Grid */}
                     {postImages.length > 0 && (
                       <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
-                        {postImages.map((image) => (
-                          <div key={image._id} className="relative group">
-                            <img
-                              src={image.image_url}
-                              alt={image.alt_text || 'Post image'}
-                              className="w-full h-32 object-cover rounded-lg border border-gray-200"
-                            />
-                            <button
-                              type="button"
-                              onClick={() => handleRemoveImage(image._id)}
-                              className="absolute top-2 right-2 p-1 bg-red-500 text-white rounded-full opacity-0 group-hover:opacity-100 transition-opacity duration-200"
-                            >
-                              <Trash className="w-3 h-3" />
-                            </button>
-                            <div className="absolute bottom-0 left-0 right-0 bg-black bg-opacity-50 text-white text-xs p-2 rounded-b-lg">
-                              Position: {image.position}
+                        {postImages.map((image, index) => (
+                          <div key={image._id} className="space-y-2">
+                            <div className="relative group">
+                              <img
+                                src={image.image_url}
+                                alt={image.alt_text || 'Post image'}
+                                className="w-full h-32 object-cover rounded-lg border border-gray-200"
+                              />
+                              <button
+                                type="button"
+                                onClick={() => handleRemoveImage(image._id)}
+                                title="Delete image"
+                                className="absolute top-2 right-2 p-1 bg-red-500 text-white rounded-full opacity-0 group-hover:opacity-100 transition-opacity duration-200"
+                              >
+                                <Trash className="w-3 h-3" />
+                              </button>
+                              <div className="absolute bottom-0 left-0 right-0 bg-black bg-opacity-50 text-white text-xs p-1 rounded-b-lg flex items-center justify-between">
+                                <button
+                                  type="button"
+                                  onClick={() => handleMoveImage(index, -1)}
+                                  disabled={index === 0}
+                                  title="Move earlier"
+                                  className="p-1 rounded hover:bg-white/20 disabled:opacity-30"
+                                >
+                                  <ChevronLeft className="w-4 h-4" />
+                                </button>
+                                <span>Position: {index + 1}</span>
+                                <button
+                                  type="button"
+                                  onClick={() => handleMoveImage(index, 1)}
+                                  disabled={index === postImages.length - 1}
+                                  title="Move later"
+                                  className="p-1 rounded hover:bg-white/20 disabled:opacity-30"
+                                >
+                                  <ChevronRight className="w-4 h-4" />
+                                </button>
+                              </div>
                             </div>
+                            <input
+                              type="text"
+                              defaultValue={image.alt_text}
+                              onBlur={(e) => handleImageAltText(image, e.target.value.trim())}
+                              placeholder="Alt text"
+                              className="w-full px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            />
                           </div>
                         ))}
                       </div>
@@ -596,8 +1105,25 @@ export function AdminPage({ onBackClick }: AdminPageProps) {
                 <MarkdownEditor
                   value={formData.content}
                   onChange={(content) => setFormData({ ...formData, content })}
+                  mediaLibrary
+                  onUploadImage={handleEditorImageUpload}
                   placeholder="Write your post content in Markdown..."
                 />
+                <FieldError message={fieldErrors.content} />
+              </div>
+
+              {/* Table of Contents */}
+              <div className="flex items-center">
+                <input
+                  type="checkbox"
+                  id="show_toc"
+                  checked={formData.show_toc}
+                  onChange={(e) => setFormData({ ...formData, show_toc: e.target.checked })}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <label htmlFor="show_toc" className="ml-2 block text-sm text-gray-700">
+                  Show a table of contents beside the post
+                </label>
               </div>
 
               {/* Published Status */}
@@ -614,6 +1140,28 @@ export function AdminPage({ onBackClick }: AdminPageProps) {
                 </label>
               </div>
 
+              {/* Publish Date */}
+              {formData.published && (
+                <div>
+                  <label htmlFor="published_at" className="block text-sm font-medium text-gray-700 mb-2">
+                    Publish at
+                  </label>
+                  <input
+                    type="datetime-local"
+                    id="published_at"
+                    value={formData.published_at}
+                    onChange={(e) => setFormData({ ...formData, published_at: e.target.value })}
+                    className="px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                  />
+                  <p className="mt-1 text-sm text-gray-500">
+                    {formData.published_at && new Date(formData.published_at) > new Date()
+                      ? 'The post will go live automatically at this time.'
+                      : 'Leave empty to publish immediately.'}
+                  </p>
+                  <FieldError message={fieldErrors.published_at} />
+                </div>
+              )}
+
               {/* Actions */}
               <div className="flex justify-end space-x-4 pt-6 border-t border-gray-200">
                 <button
@@ -623,7 +1171,7 @@ export function AdminPage({ onBackClick }: AdminPageProps) {
                   Cancel
                 </button>
                 <button
-                  onClick={handleSavePost}
+                  onClick={() => handleSavePost()}
                   disabled={!formData.title.trim() || !formData.content.trim() || saving}
                   className="flex items-center space-x-2 px-6 py-3 bg-gradient-primary text-white rounded-xl hover:shadow-xl hover-lift transition-all duration-300 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
                 >
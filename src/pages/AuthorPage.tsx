@@ -0,0 +1,181 @@
+import { useState, useEffect } from 'react';
+import { ArrowLeft, Globe, Github, Twitter, Linkedin, AtSign, User, BookOpen } from 'lucide-react';
+import { BlogCard } from '../components/BlogCard';
+import { Pagination } from '../components/Pagination';
+import { LoadingSpinner } from '../components/LoadingSpinner';
+import { BlogAPI, type AuthorPostsResponse, type AuthorSocialNetwork } from '../lib/api';
+import { isWebUrl } from '../lib/schemas';
+
+interface AuthorPageProps {
+  slug: string;
+  onPostClick: (slug: string) => void;
+  onBackClick: () => void;
+}
+
+const socialIcons: Record<AuthorSocialNetwork, typeof Globe> = {
+  website: Globe,
+  twitter: Twitter,
+  github: Github,
+  linkedin: Linkedin,
+  mastodon: AtSign,
+};
+
+export function AuthorPage({ slug, onPostClick, onBackClick }: AuthorPageProps) {
+  const [data, setData] = useState<AuthorPostsResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [currentPage, setCurrentPage] = useState(1);
+
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [slug]);
+
+  useEffect(() => {
+    const fetchAuthor = async () => {
+      try {
+        setLoading(true);
+        const authorData = await BlogAPI.getAuthor(slug, currentPage);
+        if (authorData) {
+          setData(authorData);
+          setError(null);
+          document.title = `${authorData.author.name} | Modern Blog Platform`;
+        } else {
+          setError('Author not found');
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load author');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchAuthor();
+
+    return () => {
+      document.title = 'Modern Blog Platform';
+    };
+  }, [slug, currentPage]);
+
+  if (loading && !data) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+        <span className="ml-3 text-gray-600">Loading author...</span>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <User className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Author Not Found</h1>
+          <p className="text-gray-600 mb-6">{error || 'The author you\'re looking for doesn\'t exist.'}</p>
+          <button
+            onClick={onBackClick}
+            className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors duration-200"
+          >
+            Back to Home
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const { author } = data;
+  // Links saved before URLs were checked may still hold other schemes, such as javascript:
+  const socialLinks = (Object.entries(author.social_links || {}) as [AuthorSocialNetwork, string][])
+    .filter(([, url]) => isWebUrl(url));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50">
+      {/* Header */}
+      <header className="bg-white/80 backdrop-blur-md shadow-lg border-b border-white/20 sticky top-0 z-50 animate-fadeInDown">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center py-4">
+            <button
+              onClick={onBackClick}
+              className="flex items-center space-x-3 text-gray-600 hover:text-blue-600 transition-all duration-300 font-medium px-4 py-2 rounded-xl hover:bg-blue-50 hover-lift"
+            >
+              <ArrowLeft className="w-6 h-6" />
+              <span className="font-medium">Back to Posts</span>
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        {/* Author Profile */}
+        <section className="bg-white/90 backdrop-blur-md rounded-3xl shadow-2xl border border-white/20 p-8 sm:p-12 mb-12 flex flex-col sm:flex-row items-center sm:items-start gap-8 animate-fadeInUp">
+          {author.avatar ? (
+            <img src={author.avatar} alt={author.name} className="w-32 h-32 rounded-full object-cover shadow-lg" />
+          ) : (
+            <div className="w-32 h-32 rounded-full bg-blue-100 text-blue-600 flex items-center justify-center shadow-lg">
+              <User className="w-14 h-14" />
+            </div>
+          )}
+          <div className="flex-1 text-center sm:text-left">
+            <h1 className="text-4xl font-bold bg-gradient-to-r from-gray-900 to-gray-700 bg-clip-text text-transparent mb-4">
+              {author.name}
+            </h1>
+            {author.bio && <p className="text-lg text-gray-600 leading-relaxed mb-6 whitespace-pre-line">{author.bio}</p>}
+            {socialLinks.length > 0 && (
+              <div className="flex justify-center sm:justify-start gap-3">
+                {socialLinks.map(([network, url]) => {
+                  const Icon = socialIcons[network] || Globe;
+                  return (
+                    <a
+                      key={network}
+                      href={url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      title={network}
+                      className="p-2.5 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-xl transition-all duration-300 hover-lift"
+                    >
+                      <Icon className="w-5 h-5" />
+                    </a>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </section>
+
+        {/* Author Posts */}
+        <h2 className="text-2xl font-bold text-gray-900 mb-8">
+          Posts by {author.name} <span className="text-gray-400 font-medium">({data.total})</span>
+        </h2>
+
+        {data.posts.length > 0 ? (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8 mb-12">
+              {data.posts.map((post, index) => (
+                <div
+                  key={post.id}
+                  className="animate-fadeInUp transform transition-all duration-500 hover:scale-105"
+                  style={{ animationDelay: `${index * 0.1}s` }}
+                >
+                  <BlogCard post={post} onClick={onPostClick} />
+                </div>
+              ))}
+            </div>
+            <Pagination
+              currentPage={data.page}
+              totalPages={data.totalPages}
+              onPageChange={(page) => {
+                setCurrentPage(page);
+                window.scrollTo({ top: 0, behavior: 'smooth' });
+              }}
+            />
+          </>
+        ) : (
+          <div className="text-center py-20">
+            <BookOpen className="w-20 h-20 text-gray-400 mx-auto mb-6" />
+            <p className="text-gray-600">No published posts yet.</p>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -3,8 +3,9 @@ import { BlogCard } from '../components/BlogCard';
 import { SearchBar } from '../components/SearchBar';
 import { Pagination } from '../components/Pagination';
 import { LoadingSpinner } from '../components/LoadingSpinner';
-import { BlogAPI, type BlogPostsResponse } from '../lib/api';
-import { BookOpen, Rss, User } from 'lucide-react';
+import { BlogAPI, type BlogPostsResponse, type Category, type TagCount } from '../lib/api';
+import { flattenCategoryTree } from '../lib/categories';
+import { BookOpen, Folder, Rss, User } from 'lucide-react';
 
 interface HomePageProps {
   onPostClick: (slug: string) => void;
@@ -17,29 +18,17 @@ export function HomePage({ onPostClick, onAdminClick }: HomePageProps) {
   const [error, setError] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [selectedCategory, setSelectedCategory] = useState('');
+  const [categories, setCategories] = useState<Category[]>([]);
   const [currentPage, setCurrentPage] = useState(1);
   const [isTransitioning, setIsTransitioning] = useState(false);
 
-  // Get all unique tags for the filter
-  const [allTags, setAllTags] = useState<string[]>([]);
+  // Tags with usage counts for the filter
+  const [allTags, setAllTags] = useState<TagCount[]>([]);
 
   useEffect(() => {
-    const fetchAllTags = async () => {
-      try {
-        const allPosts = await BlogAPI.getAllPosts();
-        const tags = new Set<string>();
-        allPosts.forEach(post => {
-          if (post.published && post.tags) {
-            post.tags.forEach(tag => tags.add(tag));
-          }
-        });
-        setAllTags(Array.from(tags).sort());
-      } catch (error) {
-        console.error('Failed to fetch tags:', error);
-      }
-    };
-
-    fetchAllTags();
+    BlogAPI.getTags().then(setAllTags);
+    BlogAPI.getCategories().then(setCategories);
   }, []);
 
   useEffect(() => {
@@ -51,7 +40,9 @@ export function HomePage({ onPostClick, onAdminClick }: HomePageProps) {
           page: currentPage,
           pageSize: 9,
           search: searchQuery || undefined,
+          sort: searchQuery ? 'relevance' : undefined,
           tags: selectedTags.length > 0 ? selectedTags : undefined,
+          category: selectedCategory || undefined,
         });
         setPostsData(data);
         setError(null);
@@ -66,12 +57,14 @@ export function HomePage({ onPostClick, onAdminClick }: HomePageProps) {
     };
 
     fetchPosts();
-  }, [currentPage, searchQuery, selectedTags]);
+  }, [currentPage, searchQuery, selectedTags, selectedCategory]);
 
-  // Reset page when search or tags change
+  // Reset page when search, tags or category change
   useEffect(() => {
     setCurrentPage(1);
-  }, [searchQuery, selectedTags]);
+  }, [searchQuery, selectedTags, selectedCategory]);
+
+  const selectedCategoryName = categories.find(c => c.slug === selectedCategory)?.name;
 
   const handleSearch = (query: string) => {
     setSearchQuery(query);
@@ -99,9 +92,13 @@ export function HomePage({ onPostClick, onAdminClick }: HomePageProps) {
               </div>
             </div>
             <div className="flex items-center space-x-4 animate-slideInRight">
-              <button className="text-gray-600 hover:text-blue-600 transition-all duration-300 p-2 rounded-lg hover:bg-blue-50 hover-lift">
+              <a
+                href="/feed.xml"
+                title="RSS feed"
+                className="text-gray-600 hover:text-blue-600 transition-all duration-300 p-2 rounded-lg hover:bg-blue-50 hover-lift"
+              >
                 <Rss className="w-6 h-6" />
-              </button>
+              </a>
               <button 
                 onClick={onAdminClick}
                 className="flex items-center space-x-2 bg-gradient-primary text-white px-6 py-3 rounded-xl hover:shadow-xl hover-lift transition-all duration-300 font-medium"
@@ -122,6 +119,26 @@ export function HomePage({ onPostClick, onAdminClick }: HomePageProps) {
             onTagFilter={handleTagFilter}
             availableTags={allTags}
           />
+          {categories.length > 0 && (
+            <div className="mt-6 flex justify-center">
+              <label className="flex items-center gap-3 text-gray-700 font-medium">
+                <Folder className="w-5 h-5 text-blue-500" />
+                <span>Category</span>
+                <select
+                  value={selectedCategory}
+                  onChange={(e) => setSelectedCategory(e.target.value)}
+                  className="px-4 py-2 border-2 border-gray-200 rounded-xl bg-white/80 focus:ring-4 focus:ring-blue-500/20 focus:border-blue-500 outline-none transition-all duration-300"
+                >
+                  <option value="">All categories</option>
+                  {flattenCategoryTree(categories).map(({ category, depth }) => (
+                    <option key={category._id} value={category.slug}>
+                      {'\u00A0\u00A0'.repeat(depth)}{category.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          )}
         </div>
 
         {/* Results Info */}
@@ -137,15 +154,17 @@ export function HomePage({ onPostClick, onAdminClick }: HomePageProps) {
                       tagged with {selectedTags.map(tag => `"${tag}"`).join(', ')}
                     </span>
                   )}
+                  {selectedCategoryName && <span className="ml-1">in {selectedCategoryName}</span>}
                 </>
               ) : (
                 <>
                   No posts found
-                  {(searchQuery || selectedTags.length > 0) && (
+                  {(searchQuery || selectedTags.length > 0 || selectedCategoryName) && (
                     <span className="ml-1">
                       {searchQuery && `for "${searchQuery}"`}
                       {searchQuery && selectedTags.length > 0 && ' '}
                       {selectedTags.length > 0 && `with tags ${selectedTags.join(', ')}`}
+                      {selectedCategoryName && ` in ${selectedCategoryName}`}
                     </span>
                   )}
                 </>
@@ -206,6 +225,7 @@ export function HomePage({ onPostClick, onAdminClick }: HomePageProps) {
                   onClick={() => {
                     setSearchQuery('');
                     setSelectedTags([]);
+                    setSelectedCategory('');
                     setCurrentPage(1);
                   }}
                   className="mt-4 px-6 py-2 bg-gradient-primary text-white rounded-xl hover:shadow-xl transition-all duration-300 font-medium hover-lift"
@@ -1,16 +1,26 @@
-import React, { useState, useEffect } from 'react';
-import { ArrowLeft, Calendar, Clock, Tag, Share2, BookOpen } from 'lucide-react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { ArrowLeft, Calendar, Clock, Tag, Share2, BookOpen, Folder, EyeOff } from 'lucide-react';
 import { MarkdownRenderer } from '../components/MarkdownRenderer';
 import { LoadingSpinner } from '../components/LoadingSpinner';
+import { CommentsSection } from '../components/CommentsSection';
+import { AuthorByline } from '../components/AuthorByline';
+import { SeriesNavigator } from '../components/SeriesNavigator';
+import { TableOfContents } from '../components/TableOfContents';
+import { ResponsiveImage } from '../components/ResponsiveImage';
+import { extractHeadings } from '../lib/markdown';
+import { getSectionId, goToSection } from '../lib/anchors';
 import { BlogAPI } from '../lib/api';
 import type { BlogPost } from '../lib/api';
 
 interface PostPageProps {
   slug: string;
+  // From a shared preview link; lets reviewers read an unpublished post
+  previewToken?: string;
   onBackClick: () => void;
+  onPostClick: (slug: string) => void;
 }
 
-export function PostPage({ slug, onBackClick }: PostPageProps) {
+export function PostPage({ slug, previewToken, onBackClick, onPostClick }: PostPageProps) {
   const [post, setPost] = useState<BlogPost | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -21,7 +31,12 @@ export function PostPage({ slug, onBackClick }: PostPageProps) {
       try {
         setLoading(true);
         setIsTransitioning(true);
-        const postData = await BlogAPI.getPostBySlug(slug);
+        const postData = await BlogAPI.getPostBySlug(slug, previewToken);
+        if (postData && postData.slug !== slug) {
+          // Old slug from the post's history - redirect to the canonical URL
+          const section = getSectionId();
+          window.location.replace(`#/post/${postData.slug}${section ? `#${encodeURIComponent(section)}` : ''}`);
+        }
         if (postData) {
           setPost(postData);
           // Update document title
@@ -43,7 +58,20 @@ export function PostPage({ slug, onBackClick }: PostPageProps) {
     return () => {
       document.title = 'Modern Blog Platform';
     };
-  }, [slug]);
+  }, [slug, previewToken]);
+
+  // Deep links such as #/post/my-post#setup land on the section once the content is rendered
+  useEffect(() => {
+    const section = getSectionId();
+    if (post && section) goToSection(section, 'auto');
+  }, [post]);
+
+  // The sidebar lists h2 and h3 sections; a single section is not worth a table of contents
+  const tocHeadings = useMemo(
+    () => (post ? extractHeadings(post.content).filter(heading => heading.level === 2 || heading.level === 3) : []),
+    [post]
+  );
+  const showToc = post?.show_toc !== false && tocHeadings.length > 1;
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
@@ -127,76 +155,117 @@ export function PostPage({ slug, onBackClick }: PostPageProps) {
         </div>
       </header>
 
-      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
-        {/* Featured Image */}
-        {post.featured_image && (
-          <div className="mb-12 animate-fadeInUp">
-            <img
-              src={post.featured_image}
-              alt={post.title}
-              className="w-full h-64 md:h-96 object-cover rounded-3xl shadow-2xl hover:shadow-3xl transition-shadow duration-500"
-            />
+      {!post.published && (
+        <div role="status" className="bg-amber-100 border-b border-amber-200 text-amber-900">
+          <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex items-center gap-3">
+            <EyeOff className="w-5 h-5 flex-shrink-0" />
+            <p className="text-sm">
+              <strong>Preview – not published.</strong>{' '}
+              {post.scheduled_at
+                ? `This post is scheduled for ${formatDate(String(post.scheduled_at))}.`
+                : 'This draft is only visible to editors and people with a preview link.'}
+            </p>
           </div>
-        )}
+        </div>
+      )}
 
-        {/* Article Header */}
-        <article className="bg-white/90 backdrop-blur-md rounded-3xl shadow-2xl border border-white/20 overflow-hidden animate-fadeInUp animate-delay-200">
-          <div className="px-8 py-12 sm:px-12">
-            <header className="mb-12 animate-slideInLeft">
-              <h1 className="text-4xl md:text-5xl font-bold bg-gradient-to-r from-gray-900 to-gray-700 bg-clip-text text-transparent mb-6 leading-tight">
-                {post.title}
-              </h1>
-
-              {post.excerpt && (
-                <p className="text-xl text-gray-600 mb-8 leading-relaxed font-light">
-                  {post.excerpt}
-                </p>
-              )}
-
-              <div className="flex flex-wrap items-center gap-6 text-base text-gray-500 mb-8">
-                <div className="flex items-center gap-2 hover:text-blue-600 transition-colors duration-300">
-                  <Calendar className="w-5 h-5" />
-                  <time dateTime={post.published_at || post.created_at}>
-                    {formatDate(post.published_at || post.created_at)}
-                  </time>
-                </div>
-                <div className="flex items-center gap-2 hover:text-blue-600 transition-colors duration-300">
-                  <Clock className="w-5 h-5" />
-                  <span>{readingTime} min read</span>
-                </div>
-              </div>
+      <main className={`${showToc ? 'max-w-4xl xl:max-w-6xl xl:grid xl:grid-cols-[minmax(0,1fr)_16rem] xl:gap-8' : 'max-w-4xl'} mx-auto px-4 sm:px-6 lg:px-8 py-12`}>
+        <div className="min-w-0">
+          {/* Featured Image */}
+          {post.featured_image && (
+            <div className="mb-12 animate-fadeInUp">
+              <ResponsiveImage
+                src={post.featured_image}
+                alt={post.title}
+                sizes="(min-width: 896px) 896px, 100vw"
+                loading="eager"
+                placeholder={post.featured_image_meta}
+                className="w-full h-64 md:h-96 object-cover rounded-3xl shadow-2xl hover:shadow-3xl transition-shadow duration-500"
+              />
+            </div>
+          )}
+
+          {/* Article Header */}
+          <article className="bg-white/90 backdrop-blur-md rounded-3xl shadow-2xl border border-white/20 overflow-hidden animate-fadeInUp animate-delay-200">
+            <div className="px-8 py-12 sm:px-12">
+              <header className="mb-12 animate-slideInLeft">
+                <h1 className="text-4xl md:text-5xl font-bold bg-gradient-to-r from-gray-900 to-gray-700 bg-clip-text text-transparent mb-6 leading-tight">
+                  {post.title}
+                </h1>
 
-              {post.tags && post.tags.length > 0 && (
-                <div className="flex items-center gap-3 flex-wrap animate-slideInRight">
-                  <Tag className="w-5 h-5 text-gray-400" />
-                  {post.tags.map((tag) => (
-                    <span
-                      key={tag}
-                      className="bg-gradient-to-r from-blue-50 to-purple-50 text-blue-700 px-4 py-2 rounded-full text-sm font-medium border border-blue-100 hover:border-blue-300 hover:shadow-md transition-all duration-300 hover-lift"
-                    >
-                      {tag}
-                    </span>
-                  ))}
+                {post.excerpt && (
+                  <p className="text-xl text-gray-600 mb-8 leading-relaxed font-light">
+                    {post.excerpt}
+                  </p>
+                )}
+
+                <div className="flex flex-wrap items-center gap-6 text-base text-gray-500 mb-8">
+                  {post.author && <AuthorByline author={post.author} size="md" />}
+                  <div className="flex items-center gap-2 hover:text-blue-600 transition-colors duration-300">
+                    <Calendar className="w-5 h-5" />
+                    <time dateTime={post.published_at || post.created_at}>
+                      {formatDate(post.published_at || post.created_at)}
+                    </time>
+                  </div>
+                  <div className="flex items-center gap-2 hover:text-blue-600 transition-colors duration-300">
+                    <Clock className="w-5 h-5" />
+                    <span>{readingTime} min read</span>
+                  </div>
+                  {post.category && (
+                    <div className="flex items-center gap-2">
+                      <Folder className="w-5 h-5" />
+                      <span>{post.category.name}</span>
+                    </div>
+                  )}
                 </div>
-              )}
-            </header>
 
-            {/* Article Content */}
-            <div className="prose prose-xl max-w-none animate-fadeInUp animate-delay-300">
-              <MarkdownRenderer content={post.content} />
+                {post.tags && post.tags.length > 0 && (
+                  <div className="flex items-center gap-3 flex-wrap animate-slideInRight">
+                    <Tag className="w-5 h-5 text-gray-400" />
+                    {post.tags.map((tag) => (
+                      <span
+                        key={tag}
+                        className="bg-gradient-to-r from-blue-50 to-purple-50 text-blue-700 px-4 py-2 rounded-full text-sm font-medium border border-blue-100 hover:border-blue-300 hover:shadow-md transition-all duration-300 hover-lift"
+                      >
+                        {tag}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </header>
+
+              {/* Series Navigation */}
+              {post.series && <SeriesNavigator series={post.series} onPostClick={onPostClick} />}
+
+              {/* Article Content */}
+              <div className="prose prose-xl max-w-none animate-fadeInUp animate-delay-300">
+                <MarkdownRenderer content={post.content} copyableCode />
+              </div>
             </div>
-          </div>
-        </article>
+          </article>
 
-        {/* Back to Posts Button */}
-        <div className="mt-12 text-center animate-fadeInUp animate-delay-400">
-          <button
-            onClick={onBackClick}
-            className="bg-gradient-primary text-white px-8 py-4 rounded-2xl hover:shadow-xl transition-all duration-300 font-semibold text-lg hover-lift animate-glow"
-          >
-            Back to All Posts
-          </button>
+          {/* Comments */}
+          {post.id && post.published && <CommentsSection postId={post.id} previewToken={previewToken} />}
+
+          {/* Back to Posts Button */}
+          <div className="mt-12 text-center animate-fadeInUp animate-delay-400">
+            <button
+              onClick={onBackClick}
+              className="bg-gradient-primary text-white px-8 py-4 rounded-2xl hover:shadow-xl transition-all duration-300 font-semibold text-lg hover-lift animate-glow"
+            >
+              Back to All Posts
+            </button>
+          </div>
         </div>
+
+        {/* Table of Contents */}
+        {showToc && (
+          <aside className="hidden xl:block">
+            <div className="sticky top-28 max-h-[calc(100vh-8rem)] overflow-y-auto">
+              <TableOfContents headings={tocHeadings} />
+            </div>
+          </aside>
+        )}
       </main>
     </div>
   );
@@ -0,0 +1,44 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ApiError, BlogAPI, errorMessage } from '../src/lib/api';
+
+function respondWith(status, body) {
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify(body), { status })));
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('BlogAPI errors', () => {
+  it('turns the API error format into an ApiError', async () => {
+    const fields = { name: 'Name is required', parent_id: 'Parent category is not valid' };
+    respondWith(400, { error: { code: 'validation_failed', message: 'Some fields are invalid', fields } });
+    const error = await BlogAPI.saveCategory({ name: '' }).catch(err => err);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ status: 400, code: 'validation_failed', fields });
+    expect(errorMessage(error, 'Failed')).toBe('Name is required; Parent category is not valid');
+  });
+
+  it('keeps the message of errors without fields', async () => {
+    respondWith(413, { error: { code: 'payload_too_large', message: 'Files must be at most 10 MB' } });
+    const error = await BlogAPI.deleteImage('1').catch(err => err);
+    expect(error).toMatchObject({ status: 413, code: 'payload_too_large' });
+    expect(errorMessage(error, 'Failed')).toBe('Files must be at most 10 MB');
+  });
+
+  it('falls back to the given message when the body is not in the API format', async () => {
+    respondWith(502, 'Bad gateway');
+    const error = await BlogAPI.deletePost('1').catch(err => err);
+    expect(error).toMatchObject({ status: 502, code: 'http_error', message: 'Failed to delete post' });
+  });
+
+  it('only falls back to mock posts when the backend does not answer itself', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    respondWith(400, { error: { code: 'validation_failed', message: 'Page must be at least 1' } });
+    await expect(BlogAPI.getPosts()).rejects.toMatchObject({ message: 'Page must be at least 1' });
+
+    respondWith(502, 'Bad gateway');
+    expect((await BlogAPI.getPosts()).posts.length).toBeGreaterThan(0);
+  });
+});
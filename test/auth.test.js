@@ -0,0 +1,27 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+// auth.js reads JWT_SECRET when it is first imported
+async function loadAuth(env) {
+  vi.resetModules();
+  Object.entries(env).forEach(([name, value]) => vi.stubEnv(name, value));
+  return import('../server/auth.js');
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('JWT secret', () => {
+  it('refuses a missing or placeholder secret in production', async () => {
+    await expect(loadAuth({ NODE_ENV: 'production', JWT_SECRET: '' })).rejects.toThrow('JWT_SECRET must be set');
+    await expect(loadAuth({ NODE_ENV: 'production', JWT_SECRET: 'change-me' })).rejects.toThrow('placeholder');
+  });
+
+  it('only warns about the placeholder in development', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const auth = await loadAuth({ NODE_ENV: 'development', JWT_SECRET: 'change-me' });
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('placeholder'));
+    expect(auth.verifyToken(auth.signToken({ _id: 'user-1', role: 'admin' }))).toMatchObject({ sub: 'user-1' });
+  });
+});
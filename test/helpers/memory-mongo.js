@@ -0,0 +1,147 @@
+// In-memory stand-in for the MongoDB driver's MongoClient, so route tests run without a database server.
+// Queries, projections, sorts, updates and aggregations are evaluated by mingo; only the collection methods
+// the server calls are implemented, and without indexes there is no $text search. Every client shares the
+// same databases, so a test can seed and inspect the data the app sees through memoryDb(). Tests swap it in
+// with a vi.mock('mongodb') factory that imports this module and spreads the real driver with MongoClient replaced.
+import { vi } from 'vitest';
+import { Aggregator, Query } from 'mingo';
+import { updateMany, updateOne } from 'mingo/updater';
+
+// The real driver, even while tests mock the module to swap in MemoryMongoClient
+const { ObjectId } = await vi.importActual('mongodb');
+
+const databases = new Map();
+
+// Copies documents in and out of the store, keeping ObjectIds and Dates intact, so callers can't mutate it
+function clone(value) {
+  if (Array.isArray(value)) return value.map(clone);
+  if (value instanceof Date) return new Date(value);
+  if (value instanceof ObjectId) return new ObjectId(value.toHexString());
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, clone(item)]));
+  }
+  return value;
+}
+
+class MemoryCursor {
+  constructor(load) {
+    this.load = load;
+    this.steps = [];
+  }
+
+  sort(spec) {
+    this.steps.push(cursor => cursor.sort(spec));
+    return this;
+  }
+
+  skip(count) {
+    this.steps.push(cursor => cursor.skip(count));
+    return this;
+  }
+
+  limit(count) {
+    this.steps.push(cursor => (count ? cursor.limit(count) : cursor));
+    return this;
+  }
+
+  async toArray() {
+    return clone(this.steps.reduce((cursor, step) => step(cursor), this.load()).all());
+  }
+}
+
+class MemoryCollection {
+  constructor() {
+    this.documents = [];
+  }
+
+  async createIndexes() {
+    return [];
+  }
+
+  find(filter = {}, { projection } = {}) {
+    return new MemoryCursor(() => new Query(filter).find(this.documents, projection));
+  }
+
+  async findOne(filter = {}, options = {}) {
+    const [document] = await this.find(filter, options).limit(1).toArray();
+    return document || null;
+  }
+
+  async countDocuments(filter = {}, { limit } = {}) {
+    const count = new Query(filter).find(this.documents).all().length;
+    return limit ? Math.min(count, limit) : count;
+  }
+
+  aggregate(pipeline) {
+    return { toArray: async () => clone(new Aggregator(pipeline).run(this.documents)) };
+  }
+
+  async insertOne(document) {
+    const stored = { _id: new ObjectId(), ...clone(document) };
+    this.documents.push(stored);
+    document._id ??= stored._id;
+    return { acknowledged: true, insertedId: stored._id };
+  }
+
+  async insertMany(documents) {
+    const insertedIds = {};
+    for (const [index, document] of documents.entries()) {
+      insertedIds[index] = (await this.insertOne(document)).insertedId;
+    }
+    return { acknowledged: true, insertedCount: documents.length, insertedIds };
+  }
+
+  async updateOne(filter, update) {
+    return updateOne(this.documents, filter, clone(update));
+  }
+
+  async updateMany(filter, update) {
+    return updateMany(this.documents, filter, clone(update));
+  }
+
+  async deleteOne(filter) {
+    const [match] = new Query(filter).find(this.documents).all();
+    if (match) this.documents.splice(this.documents.indexOf(match), 1);
+    return { acknowledged: true, deletedCount: match ? 1 : 0 };
+  }
+
+  async deleteMany(filter) {
+    const query = new Query(filter);
+    const before = this.documents.length;
+    this.documents = this.documents.filter(document => !query.test(document));
+    return { acknowledged: true, deletedCount: before - this.documents.length };
+  }
+}
+
+class MemoryDb {
+  constructor() {
+    this.collections = new Map();
+  }
+
+  collection(name) {
+    if (!this.collections.has(name)) this.collections.set(name, new MemoryCollection());
+    return this.collections.get(name);
+  }
+
+  // Empties every collection between tests
+  reset() {
+    this.collections.clear();
+  }
+}
+
+export function memoryDb(name = process.env.DB_NAME || 'blog-platform') {
+  if (!databases.has(name)) databases.set(name, new MemoryDb());
+  return databases.get(name);
+}
+
+export class MemoryMongoClient {
+  async connect() {
+    return this;
+  }
+
+  db(name) {
+    return memoryDb(name);
+  }
+
+  async close() {}
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import sharp from 'sharp';
+import { processImage } from '../server/images.js';
+
+// Storage driver that keeps files in a Map; `failOnPut` makes the nth write throw
+function memoryStorage({ failOnPut } = {}) {
+  const files = new Map();
+  let puts = 0;
+  return {
+    files,
+    async put(key, body) {
+      if (++puts === failOnPut) throw new Error('Storage is unavailable');
+      files.set(key, body);
+      return key.startsWith('uploads/') ? `/${key}` : null;
+    },
+    async remove(key) {
+      [...files.keys()].filter(file => file === key || (key.endsWith('/') && file.startsWith(key))).forEach(file => files.delete(file));
+    },
+  };
+}
+
+const png = () => sharp({ create: { width: 8, height: 6, channels: 3, background: '#3366cc' } }).png().toBuffer();
+
+describe('processImage', () => {
+  it('stores the original and its variants', async () => {
+    const storage = memoryStorage();
+    const image = await processImage(await png(), 'Photo.PNG', { storage });
+    expect(image).toMatchObject({ width: 8, height: 6, has_alpha: false });
+    expect(storage.files.has(`originals/${image.original_path}`)).toBe(true);
+    expect(image.variants.map(variant => variant.format).sort()).toEqual(['avif', 'jpeg', 'webp']);
+  });
+
+  it.each([
+    ['garbage', Buffer.from('not an image at all')],
+    ['truncated', null],
+  ])('rejects a %s file before storing anything', async (kind, buffer) => {
+    const storage = memoryStorage();
+    const input = buffer || (await png()).subarray(0, 40);
+    await expect(processImage(input, 'broken.png', { storage })).rejects.toMatchObject({ type: 'upload.unreadable_image' });
+    expect(storage.files.size).toBe(0);
+  });
+
+  it('removes what was written when a later step fails', async () => {
+    const storage = memoryStorage({ failOnPut: 3 });
+    await expect(processImage(await png(), 'photo.png', { storage })).rejects.toThrow('Storage is unavailable');
+    expect(storage.files.size).toBe(0);
+  });
+});
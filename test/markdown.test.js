@@ -0,0 +1,209 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { extractHeadings, renderCommentMarkdown, renderMarkdown } from '../src/lib/markdown.js';
+
+// Parses rendered HTML so assertions can look at elements rather than exact markup
+function render(source) {
+  return new DOMParser().parseFromString(`<body>${renderMarkdown(source)}</body>`, 'text/html').body;
+}
+
+describe('CommonMark', () => {
+  it('renders bullet and ordered lists', () => {
+    const html = render('- one\n- two\n\n3. three\n4. four');
+    expect([...html.querySelectorAll('ul > li')].map(li => li.textContent)).toEqual(['one', 'two']);
+    expect(html.querySelector('ol').getAttribute('start')).toBe('3');
+    expect(html.querySelectorAll('ol > li')).toHaveLength(2);
+  });
+
+  it('renders emphasis, strong emphasis and inline code', () => {
+    const html = render('*one* __two__ `<three>`');
+    expect(html.querySelector('em').textContent).toBe('one');
+    expect(html.querySelector('strong').textContent).toBe('two');
+    expect(html.querySelector('code').textContent).toBe('<three>');
+  });
+
+  it('escapes code in fenced and indented blocks', () => {
+    const html = render('```\n<b>bold</b>\n```\n\n    <i>indented</i>');
+    const blocks = html.querySelectorAll('pre code');
+    expect(blocks).toHaveLength(2);
+    expect(blocks[0].textContent).toBe('<b>bold</b>');
+    expect(blocks[1].textContent).toBe('<i>indented</i>');
+    expect(html.querySelector('b, i')).toBeNull();
+  });
+});
+
+describe('GitHub extensions', () => {
+  it('renders tables with column alignment', () => {
+    const html = render('| Name | Count |\n|:-----|------:|\n| a | 1 |');
+    expect(html.querySelector('div > table')).not.toBeNull();
+    expect([...html.querySelectorAll('th')].map(th => th.textContent)).toEqual(['Name', 'Count']);
+    expect(html.querySelector('td:last-child').getAttribute('style')).toBe('text-align:right;');
+  });
+
+  it('turns [ ] and [x] list items into disabled checkboxes', () => {
+    const html = render('- [ ] open\n- [x] done\n- plain');
+    const boxes = html.querySelectorAll('li.task-list-item input[type="checkbox"]');
+    expect(boxes).toHaveLength(2);
+    expect([...boxes].map(box => box.checked)).toEqual([false, true]);
+    expect([...boxes].every(box => box.disabled)).toBe(true);
+    expect(html.querySelector('li:not(.task-list-item)').textContent).toBe('plain');
+  });
+
+  it('renders strikethrough', () => {
+    expect(render('~~gone~~').querySelector('s').textContent).toBe('gone');
+  });
+
+  it('links footnote references and back references', () => {
+    const html = render('Claim[^source].\n\n[^source]: Where it came from.');
+    const ref = html.querySelector('sup.footnote-ref a');
+    expect(ref.getAttribute('href')).toBe('#fn1');
+    const note = html.querySelector(ref.getAttribute('href'));
+    expect(note.textContent).toContain('Where it came from.');
+    expect(note.querySelector('a.footnote-backref').getAttribute('href')).toBe(`#${ref.id}`);
+  });
+});
+
+describe('callouts', () => {
+  it('turns a [!TYPE] blockquote into a titled callout', () => {
+    const html = render('> [!WARNING]\n> Back up first.');
+    const callout = html.querySelector('div.callout');
+    expect(callout.classList).toContain('callout-warning');
+    expect(callout.getAttribute('role')).toBe('note');
+    expect([...callout.querySelectorAll('p')].map(p => p.textContent)).toEqual(['Warning', 'Back up first.']);
+    expect(html.querySelector('blockquote')).toBeNull();
+  });
+
+  it('accepts any case for the marker', () => {
+    expect(render('> [!tip]\n> Shortcut.').querySelector('.callout-tip')).not.toBeNull();
+  });
+
+  it('leaves unknown markers and ordinary quotes as blockquotes', () => {
+    const html = render('> [!BOGUS]\n> text\n\n> quote');
+    expect(html.querySelector('.callout')).toBeNull();
+    expect(html.querySelectorAll('blockquote')).toHaveLength(2);
+    expect(html.querySelector('blockquote').textContent).toContain('[!BOGUS]');
+  });
+});
+
+describe('heading ids', () => {
+  it('slugifies heading text and numbers repeats', () => {
+    const html = render('# Hello, World!\n## Hello World\n## Hello World');
+    expect([...html.querySelectorAll('h1, h2')].map(heading => heading.id)).toEqual([
+      'hello-world',
+      'hello-world-2',
+      'hello-world-3',
+    ]);
+  });
+
+  it('adds a permalink to each heading', () => {
+    const anchor = render('## Setup').querySelector('h2 a.heading-anchor');
+    expect(anchor.getAttribute('href')).toBe('#setup');
+  });
+
+  it('keeps non-Latin text and falls back for punctuation-only headings', () => {
+    expect(extractHeadings('# Café Über\n# ?!')).toEqual([
+      { level: 1, text: 'Café Über', id: 'café-über' },
+      { level: 1, text: '?!', id: 'section' },
+    ]);
+  });
+
+  it('gives extractHeadings the same ids as the rendered page', () => {
+    const source = '# Intro\n## `code` step\n## Intro';
+    const rendered = [...render(source).querySelectorAll('h1, h2')].map(heading => heading.id);
+    expect(extractHeadings(source).map(heading => heading.id)).toEqual(rendered);
+  });
+});
+
+describe('fenced code', () => {
+  const source = '```js {2,4-5} title="app.js"\nconst a = 1;\nconst b = `multi\nline`;\nlet c;\nlet d;\n```';
+
+  it('marks the listed lines as highlighted', () => {
+    const lines = [...render(source).querySelectorAll('.code-line')];
+    expect(lines).toHaveLength(5);
+    expect(lines.map(line => line.classList.contains('bg-yellow-100'))).toEqual([false, true, false, true, true]);
+  });
+
+  it('keeps highlighting spans balanced across line breaks', () => {
+    const lines = [...render(source).querySelectorAll('.code-line')];
+    expect(lines[1].querySelector('.hljs-string').textContent).toBe('`multi');
+    expect(lines[2].querySelector('.hljs-string').textContent).toBe('line`');
+  });
+
+  it('shows the title and language', () => {
+    const html = render(source);
+    expect(html.querySelector('figure figcaption').textContent).toBe('app.js');
+    expect(html.querySelector('code').classList).toContain('language-js');
+  });
+
+  it('escapes code in languages that are not bundled', () => {
+    const html = render('```cobol {1}\n<script>alert(1)</script>\n```');
+    expect(html.querySelector('script')).toBeNull();
+    expect(html.querySelector('.code-line').textContent).toBe('<script>alert(1)</script>');
+  });
+});
+
+describe('sanitizer', () => {
+  it('drops event handler attributes', () => {
+    const html = render('<img src="x.png" onerror="alert(1)">\n\n<p onclick="alert(1)">hi</p>');
+    expect(html.querySelector('img').hasAttribute('onerror')).toBe(false);
+    expect(html.querySelector('[onclick]')).toBeNull();
+  });
+
+  it('drops javascript: and data: URLs in any spelling', () => {
+    const html = render([
+      '[a](javascript:alert(1))',
+      '<a href="JaVaScRiPt:alert(1)">b</a>',
+      '<a href="java&#x09;script:alert(1)">c</a>',
+      '<a href=" data:text/html;base64,PHNjcmlwdD4=">d</a>',
+      '<img src="javascript:alert(1)">',
+    ].join('\n\n'));
+    expect([...html.querySelectorAll('a[href]')].map(a => a.getAttribute('href'))).toEqual(['', '', '']);
+    expect(html.querySelector('img').getAttribute('src')).toBeFalsy();
+    expect(renderMarkdown('[a](javascript:alert(1))')).not.toContain('href="javascript');
+  });
+
+  it('keeps safe URLs', () => {
+    const hrefs = [...render('[a](https://example.com) [b](/posts/x) [c](#top) [d](mailto:me@example.com)')
+      .querySelectorAll('a')].map(a => a.getAttribute('href'));
+    expect(hrefs).toEqual(['https://example.com', '/posts/x', '#top', 'mailto:me@example.com']);
+  });
+
+  it('removes script and style elements with their content, inside svg too', () => {
+    const html = renderMarkdown('<svg><script>alert(1)</script></svg>\n\n<style>body{display:none}</style>\n\n<script>alert(2)</script>');
+    expect(html).not.toMatch(/<script|<style|<svg|alert|display:none/);
+  });
+
+  it('drops iframes and form controls other than task checkboxes', () => {
+    const html = render('<iframe src="https://evil.example"></iframe>\n\n<input type="text" value="x">');
+    expect(html.querySelector('iframe')).toBeNull();
+    expect(html.querySelector('input').getAttribute('type')).toBe('checkbox');
+  });
+
+  it('strips styles with URLs and keeps only text alignment', () => {
+    const html = render([
+      '<p style="background:url(javascript:alert(1))">a</p>',
+      '<table><tr><td style="background-image:url(https://evil.example/track)">b</td>',
+      '<td style="text-align:center">c</td></tr></table>',
+    ].join('\n'));
+    expect(html.querySelector('p').hasAttribute('style')).toBe(false);
+    const [tracked, aligned] = html.querySelectorAll('td');
+    expect(tracked.getAttribute('style')).toBeFalsy();
+    expect(aligned.getAttribute('style')).toBe('text-align:center;');
+  });
+});
+
+describe('comment Markdown', () => {
+  it('escapes raw HTML and renders only inline formatting', () => {
+    const html = renderCommentMarkdown('<img src=x onerror=alert(1)> **bold**\n\n# not a heading');
+    expect(html).not.toContain('<img');
+    expect(html).toContain('<strong>bold</strong>');
+    expect(html).not.toContain('<h1');
+  });
+
+  it('links only http(s) URLs', () => {
+    const html = renderCommentMarkdown('[a](https://example.com) [b](javascript:alert(1))');
+    expect(html).toContain('href="https://example.com"');
+    expect(html).toContain('rel="nofollow ugc noopener"');
+    expect(html).not.toContain('href="javascript');
+  });
+});
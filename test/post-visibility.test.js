@@ -0,0 +1,163 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ObjectId } from 'mongodb';
+import { memoryDb } from './helpers/memory-mongo.js';
+import { signToken } from '../server/auth.js';
+import { app } from '../server.js';
+
+vi.mock('mongodb', async importOriginal => {
+  const { MemoryMongoClient } = await import('./helpers/memory-mongo.js');
+  return { ...await importOriginal(), MongoClient: MemoryMongoClient };
+});
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// One post in each publishing state; only `live` may ever reach an anonymous reader
+function buildPosts(now = Date.now()) {
+  const post = (slug, fields) => ({
+    _id: new ObjectId(),
+    title: slug,
+    slug,
+    content: `Body of ${slug}`,
+    excerpt: '',
+    tags: ['news'],
+    created_at: new Date(now - 2 * DAY),
+    updated_at: new Date(now - 2 * DAY),
+    ...fields,
+  });
+  return {
+    live: post('live', { published: true, published_at: new Date(now - DAY), scheduled_at: null }),
+    draft: post('draft', { published: false, published_at: null, scheduled_at: null }),
+    scheduled: post('scheduled', { published: false, published_at: null, scheduled_at: new Date(now + DAY) }),
+    // Published with a date still to come, e.g. imported or edited outside the API
+    future: post('future', { published: true, published_at: new Date(now + DAY), scheduled_at: null }),
+  };
+}
+
+let server;
+let baseUrl;
+let posts;
+let adminToken;
+
+beforeAll(async () => {
+  server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${server.address().port}/api`;
+});
+
+afterAll(() => new Promise(resolve => server.close(resolve)));
+
+beforeEach(async () => {
+  const db = memoryDb();
+  db.reset();
+
+  const admin = { _id: new ObjectId(), email: 'admin@example.com', name: 'Admin', role: 'admin', created_at: new Date() };
+  await db.collection('users').insertOne(admin);
+  adminToken = signToken(admin);
+
+  posts = buildPosts();
+  await db.collection('posts').insertMany(Object.values(posts));
+  await db.collection('comments').insertMany(Object.values(posts).map(post => ({
+    post_id: post._id,
+    parent_id: null,
+    author_name: 'Reader',
+    content: `On ${post.slug}`,
+    status: 'approved',
+    created_at: new Date(),
+  })));
+});
+
+function get(path, token) {
+  return fetch(`${baseUrl}${path}`, token ? { headers: { Authorization: `Bearer ${token}` } } : {});
+}
+
+const hiddenStates = ['draft', 'scheduled', 'future'];
+
+describe('anonymous readers', () => {
+  it('only list published posts dated in the past', async () => {
+    const response = await get('/posts?pageSize=100');
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.posts.map(post => post.slug)).toEqual(['live']);
+    expect(body.total).toBe(1);
+  });
+
+  it('do not find hidden posts through search or tag filters', async () => {
+    // A prefix search, since the in-memory database has no text index
+    const bySearch = await (await get('/posts?search=Bod*')).json();
+    const byTag = await (await get('/posts?tags=news')).json();
+    expect(bySearch.posts.map(post => post.slug)).toEqual(['live']);
+    expect(byTag.posts.map(post => post.slug)).toEqual(['live']);
+  });
+
+  it.each(hiddenStates)('get a 404 for the %s post by slug', async state => {
+    const response = await get(`/posts/slug/${posts[state].slug}`);
+    expect(response.status).toBe(404);
+    expect((await response.json()).error.code).toBe('not_found');
+  });
+
+  it.each(hiddenStates)('get a 404 for the %s post by id', async state => {
+    const response = await get(`/posts/${posts[state]._id}`);
+    expect(response.status).toBe(404);
+  });
+
+  it('get the published post by slug and id', async () => {
+    expect((await get('/posts/slug/live')).status).toBe(200);
+    expect((await get(`/posts/${posts.live._id}`)).status).toBe(200);
+  });
+
+  it('are treated as anonymous when their token is invalid', async () => {
+    const response = await get(`/posts/${posts.draft._id}`, 'not-a-token');
+    expect(response.status).toBe(404);
+  });
+
+  it.each(hiddenStates)('get a 404 for the comments of the %s post', async state => {
+    const response = await get(`/posts/${posts[state]._id}/comments`);
+    expect(response.status).toBe(404);
+  });
+
+  it('read the approved comments of the published post', async () => {
+    const response = await get(`/posts/${posts.live._id}/comments`);
+    expect(response.status).toBe(200);
+    expect((await response.json()).map(comment => comment.content)).toEqual(['On live']);
+  });
+
+  it('cannot use the admin listing', async () => {
+    const response = await get('/admin/posts');
+    expect(response.status).toBe(401);
+  });
+});
+
+describe('signed-in users', () => {
+  it('still only see published posts on the public listing', async () => {
+    const body = await (await get('/posts?pageSize=100', adminToken)).json();
+    expect(body.posts.map(post => post.slug)).toEqual(['live']);
+  });
+
+  it.each(hiddenStates)('can open the %s post by slug and id', async state => {
+    expect((await get(`/posts/slug/${posts[state].slug}`, adminToken)).status).toBe(200);
+    expect((await get(`/posts/${posts[state]._id}`, adminToken)).status).toBe(200);
+  });
+
+  it.each(hiddenStates)('can read the comments of the %s post', async state => {
+    const response = await get(`/posts/${posts[state]._id}/comments`, adminToken);
+    expect(response.status).toBe(200);
+    expect((await response.json()).map(comment => comment.content)).toEqual([`On ${state}`]);
+  });
+
+  it('get every post from the admin listing', async () => {
+    const response = await get('/admin/posts?pageSize=100', adminToken);
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.posts.map(post => post.slug).sort()).toEqual(['draft', 'future', 'live', 'scheduled']);
+    expect(body.total).toBe(4);
+  });
+
+  it.each([
+    ['published', ['live']],
+    ['scheduled', ['scheduled']],
+    ['draft', ['draft']],
+  ])('can filter the admin listing to %s posts', async (status, slugs) => {
+    const body = await (await get(`/admin/posts?status=${status}`, adminToken)).json();
+    expect(body.posts.map(post => post.slug)).toEqual(slugs);
+  });
+});
@@ -0,0 +1,69 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ObjectId } from 'mongodb';
+import { memoryDb } from './helpers/memory-mongo.js';
+import { signToken } from '../server/auth.js';
+import { app } from '../server.js';
+
+vi.mock('mongodb', async importOriginal => {
+  const { MemoryMongoClient } = await import('./helpers/memory-mongo.js');
+  return { ...await importOriginal(), MongoClient: MemoryMongoClient };
+});
+
+const SITE_URL = 'https://blog.example.com';
+
+let server;
+let baseUrl;
+let post;
+let token;
+
+beforeAll(async () => {
+  vi.stubEnv('SITE_URL', SITE_URL);
+  server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${server.address().port}`;
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  return new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(async () => {
+  const db = memoryDb();
+  db.reset();
+  const admin = { _id: new ObjectId(), email: 'admin@example.com', name: 'Admin', role: 'admin', created_at: new Date() };
+  await db.collection('users').insertOne(admin);
+  token = signToken(admin);
+  post = {
+    _id: new ObjectId(),
+    title: 'Hello',
+    slug: 'hello world',
+    content: 'Body',
+    tags: [],
+    published: true,
+    published_at: new Date(Date.now() - 1000),
+    created_at: new Date(),
+    updated_at: new Date(),
+  };
+  await db.collection('posts').insertOne(post);
+});
+
+// The app routes on the hash, so these links work on a static host without rewrites
+describe('public post links', () => {
+  it('use the hash route in feeds and sitemaps', async () => {
+    const feed = await (await fetch(`${baseUrl}/feed.json`)).json();
+    expect(feed.items[0].url).toBe(`${SITE_URL}/#/post/hello%20world`);
+    const sitemap = await (await fetch(`${baseUrl}/sitemap.xml`)).text();
+    expect(sitemap).toContain(`<loc>${SITE_URL}/#/post/hello%20world</loc>`);
+  });
+
+  it('put the preview token before the hash, where the app reads it', async () => {
+    const response = await fetch(`${baseUrl}/api/posts/${post._id}/preview-tokens`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({}),
+    });
+    const { url, token: previewToken } = await response.json();
+    expect(url).toBe(`${SITE_URL}/?preview=${encodeURIComponent(previewToken)}#/post/hello%20world`);
+  });
+});
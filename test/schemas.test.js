@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import {
+  validate,
+  AUTHOR_SCHEMA,
+  COMMENT_BULK_SCHEMA,
+  COMMENT_SCHEMA,
+  DRAFT_SCHEMA,
+  IMAGE_ORDER_SCHEMA,
+  POST_QUERY_SCHEMA,
+  PREVIEW_TOKEN_SCHEMA,
+  SERIES_SCHEMA,
+  TAG_MERGE_SCHEMA,
+  USER_SCHEMA,
+} from '../src/lib/schemas.js';
+
+const ID = '0123456789abcdef01234567';
+
+describe('validate', () => {
+  it('drops fields the schema does not know', () => {
+    const { value, errors } = validate(TAG_MERGE_SCHEMA, { sources: ['a'], target: 'b', extra: true });
+    expect(errors).toBeNull();
+    expect(value).toEqual({ sources: ['a'], target: 'b' });
+  });
+
+  it('fills in defaults and parses integers from query strings', () => {
+    expect(validate(POST_QUERY_SCHEMA, { page: '3' }).value).toEqual({ page: 3, pageSize: 10 });
+    expect(validate(PREVIEW_TOKEN_SCHEMA, {}).value).toEqual({ expires_in_hours: 72 });
+    expect(validate(PREVIEW_TOKEN_SCHEMA, { expires_in_hours: 721 }).errors).toEqual({
+      expires_in_hours: 'Expiry in hours must be at most 720',
+    });
+  });
+
+  it('rejects blank required text, also on partial updates', () => {
+    expect(validate(COMMENT_SCHEMA, { author_name: '  ', content: 'Hi' }).errors).toEqual({ author_name: 'Name is required' });
+    expect(validate(USER_SCHEMA, { password: '' }, { partial: true }).errors).toEqual({ password: 'Password is required' });
+    expect(validate(USER_SCHEMA, { name: 'Sam' }, { partial: true }).errors).toBeNull();
+  });
+
+  it('requires passwords of at least 8 characters', () => {
+    expect(validate(USER_SCHEMA, { email: 'a@example.com', password: 'short' }).errors).toEqual({
+      password: 'Password must be at least 8 characters',
+    });
+    expect(validate(USER_SCHEMA, { password: 'long enough' }, { partial: true }).errors).toBeNull();
+  });
+
+  it('checks enums', () => {
+    expect(validate(USER_SCHEMA, { email: 'a@example.com', password: 'secret-password', role: 'owner' }).errors).toEqual({
+      role: 'Role must be one of: admin, editor, author',
+    });
+  });
+
+  it('requires required lists to have an entry', () => {
+    expect(validate(TAG_MERGE_SCHEMA, { sources: [], target: 'b' }).errors).toEqual({ sources: 'Source tags is required' });
+    expect(validate(COMMENT_BULK_SCHEMA, { ids: [], action: 'approved' }).errors).toEqual({ ids: 'Comments is required' });
+  });
+
+  it('checks id lists and removes repeats', () => {
+    expect(validate(SERIES_SCHEMA, { title: 'S', post_ids: [ID, ID] }).value.post_ids).toEqual([ID]);
+    expect(validate(SERIES_SCHEMA, { title: 'S', post_ids: [ID, 'nope'] }).errors).toEqual({
+      post_ids: 'Posts has an id that is not valid',
+    });
+    expect(validate(SERIES_SCHEMA, { title: 'S', post_ids: ID }).errors).toEqual({ post_ids: 'Posts must be a list' });
+  });
+
+  it('keeps known, non-blank entries of records', () => {
+    const { value, errors } = validate(AUTHOR_SCHEMA, {
+      name: 'Ada',
+      social_links: { github: ' https://github.com/ada ', twitter: '', myspace: 'https://myspace.com/ada' },
+    });
+    expect(errors).toBeNull();
+    expect(value.social_links).toEqual({ github: 'https://github.com/ada' });
+    expect(validate(AUTHOR_SCHEMA, { name: 'Ada', social_links: { website: 42 } }).errors).toEqual({
+      social_links: 'Each entry in Social links must be text of at most 2048 characters',
+    });
+    expect(validate(AUTHOR_SCHEMA, { name: 'Ada', social_links: ['x'] }).errors).toEqual({
+      social_links: 'Social links must be an object',
+    });
+  });
+
+  it('only accepts http and https social links', () => {
+    for (const link of ['javascript:alert(1)', ' JavaScript:alert(1)', 'data:text/html,x', '//evil.example', 'github.com/ada']) {
+      expect(validate(AUTHOR_SCHEMA, { name: 'Ada', social_links: { github: link } }).errors).toEqual({
+        social_links: 'Each entry in Social links must be an http or https URL',
+      });
+    }
+    expect(validate(AUTHOR_SCHEMA, { social_links: { website: 'http://ada.dev' } }, { partial: true }).errors).toBeNull();
+  });
+
+  it('turns empty ids into null where the field is nullable', () => {
+    expect(validate(AUTHOR_SCHEMA, { user_id: '' }, { partial: true }).value).toEqual({ user_id: null });
+    expect(validate(COMMENT_SCHEMA, { author_name: 'A', content: 'B', parent_id: 'x' }).errors).toEqual({
+      parent_id: 'Parent comment is not valid',
+    });
+  });
+
+  it('checks nested objects and keys their errors by path', () => {
+    const { value, errors } = validate(DRAFT_SCHEMA, { data: { title: '', tags: ['a'], extra: 1 }, saved_at: '2026-01-01T00:00:00Z' });
+    expect(errors).toBeNull();
+    expect(value).toEqual({ data: { title: '', tags: ['a'] }, saved_at: '2026-01-01T00:00:00Z' });
+    expect(validate(DRAFT_SCHEMA, { data: { title: 'x'.repeat(201), published: 'yes' } }).errors).toEqual({
+      'data.title': 'Title must be at most 200 characters',
+      'data.published': 'Published must be true or false',
+    });
+    expect(validate(DRAFT_SCHEMA, { data: [] }).errors).toEqual({ data: 'Draft must be an object' });
+  });
+
+  it('needs at least one valid id to reorder images', () => {
+    expect(validate(IMAGE_ORDER_SCHEMA, { image_ids: [] }).errors).toEqual({ image_ids: 'Images is required' });
+    expect(validate(IMAGE_ORDER_SCHEMA, { image_ids: ['nope'] }).errors).toEqual({ image_ids: 'Images has an id that is not valid' });
+  });
+});
@@ -0,0 +1,73 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ObjectId } from 'mongodb';
+import { memoryDb } from './helpers/memory-mongo.js';
+import { signToken } from '../server/auth.js';
+import { app } from '../server.js';
+
+vi.mock('mongodb', async importOriginal => {
+  const { MemoryMongoClient } = await import('./helpers/memory-mongo.js');
+  return { ...await importOriginal(), MongoClient: MemoryMongoClient };
+});
+
+let server;
+let baseUrl;
+let token;
+
+beforeAll(async () => {
+  server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${server.address().port}/api`;
+});
+
+afterAll(() => new Promise(resolve => server.close(resolve)));
+
+beforeEach(async () => {
+  const db = memoryDb();
+  db.reset();
+  const user = { _id: new ObjectId(), email: 'editor@example.com', name: 'Editor', role: 'editor', created_at: new Date() };
+  await db.collection('users').insertOne(user);
+  token = signToken(user);
+});
+
+async function upload(field, file) {
+  const form = new FormData();
+  form.append(field, file);
+  const response = await fetch(`${baseUrl}/upload`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${token}` },
+    body: form,
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+describe('rejected uploads', () => {
+  it('answer a file that is not an image with a validation error', async () => {
+    const { status, body } = await upload('image', new File(['plain text'], 'notes.txt', { type: 'text/plain' }));
+    expect(status).toBe(400);
+    expect(body.error).toEqual({
+      code: 'validation_failed',
+      message: 'Only image files are allowed',
+      fields: { image: 'Only image files are allowed' },
+    });
+  });
+
+  it('answer a file over the size limit with 413', async () => {
+    const { status, body } = await upload('image', new File([new Uint8Array(10 * 1024 * 1024 + 1)], 'big.png', { type: 'image/png' }));
+    expect(status).toBe(413);
+    expect(body.error.code).toBe('payload_too_large');
+  });
+
+  it('answer a file sent under another field name with a validation error', async () => {
+    const { status, body } = await upload('photo', new File(['x'], 'a.png', { type: 'image/png' }));
+    expect(status).toBe(400);
+    expect(body.error.code).toBe('validation_failed');
+    expect(Object.keys(body.error.fields)).toEqual(['photo']);
+  });
+
+  it('answer a file that claims to be an image but cannot be read with a validation error', async () => {
+    const { status, body } = await upload('image', new File(['not really a png'], 'fake.png', { type: 'image/png' }));
+    expect(status).toBe(400);
+    expect(body.error.code).toBe('validation_failed');
+    expect(body.error.fields).toEqual({ image: 'The file is not an image that can be read' });
+  });
+});
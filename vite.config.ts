@@ -11,6 +11,12 @@ export default defineConfig({
         changeOrigin: true,
         secure: false,
       },
+      // Feeds, sitemaps and robots.txt are served by the API server
+      '^/(feed\\.xml|atom\\.xml|feed\\.json|tags/|sitemap.*\\.xml|robots\\.txt)': {
+        target: 'http://localhost:3001',
+        changeOrigin: true,
+        secure: false,
+      },
     },
   },
   optimizeDeps: {